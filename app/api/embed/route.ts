@@ -1,15 +1,16 @@
 import { NextResponse } from 'next/server'
-import OpenAI from 'openai'
-
-// Initialize OpenAI client with server-side API key (not exposed to browser)
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+import {
+  getEmbeddingModelInfo,
+  getEmbeddingProvider,
+  getProviderConfigError,
+} from '@/lib/embedding-providers'
 
 // Simple in-memory rate limiting (resets on server restart)
 const requestCounts = new Map<string, { count: number; resetTime: number }>()
 const RATE_LIMIT = 20 // requests per window
 const RATE_WINDOW = 60 * 1000 // 1 minute
+const MAX_TEXT_LENGTH = 8000
+const MAX_BATCH_SIZE = 50 // A batch counts as one request against the rate limit
 
 function checkRateLimit(identifier: string): boolean {
   const now = Date.now()
@@ -28,6 +29,29 @@ function checkRateLimit(identifier: string): boolean {
   return true
 }
 
+/**
+ * Seconds until a rate-limited client's window resets
+ */
+function getRetryAfter(identifier: string): number {
+  const record = requestCounts.get(identifier)
+  return record ? Math.max(1, Math.ceil((record.resetTime - Date.now()) / 1000)) : 1
+}
+
+/**
+ * Report the active embedding model, so clients can detect stale vectors
+ */
+export async function GET() {
+  const configError = getProviderConfigError()
+  if (configError) {
+    return NextResponse.json(
+      { error: configError },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json(getEmbeddingModelInfo(getEmbeddingProvider()))
+}
+
 export async function POST(request: Request) {
   try {
     // Basic rate limiting using IP or a session identifier
@@ -36,45 +60,58 @@ export async function POST(request: Request) {
     if (!checkRateLimit(ip)) {
       return NextResponse.json(
         { error: 'Rate limit exceeded. Please try again later.' },
-        { status: 429 }
+        { status: 429, headers: { 'Retry-After': String(getRetryAfter(ip)) } }
       )
     }
 
-    // Parse request body
-    const { text } = await request.json()
+    // Parse request body: { text } for one embedding, { texts } for a batch
+    const { text, texts } = await request.json()
+    const isBatch = Array.isArray(texts)
+    const inputs: unknown[] = isBatch ? texts : [text]
 
-    if (!text || typeof text !== 'string') {
+    if (inputs.length === 0 || inputs.some(t => !t || typeof t !== 'string')) {
       return NextResponse.json(
         { error: 'Invalid request. "text" field is required.' },
         { status: 400 }
       )
     }
 
-    if (text.length > 8000) {
+    if (inputs.length > MAX_BATCH_SIZE) {
       return NextResponse.json(
-        { error: 'Text too long. Maximum 8000 characters.' },
+        { error: `Batch too large. Maximum ${MAX_BATCH_SIZE} texts.` },
         { status: 400 }
       )
     }
 
-    // Check if API key is configured
-    if (!process.env.OPENAI_API_KEY) {
+    if ((inputs as string[]).some(t => t.length > MAX_TEXT_LENGTH)) {
       return NextResponse.json(
-        { error: 'OpenAI API key not configured on server.' },
+        { error: `Text too long. Maximum ${MAX_TEXT_LENGTH} characters.` },
+        { status: 400 }
+      )
+    }
+
+    // Check the configured provider is usable (e.g. API key present for OpenAI)
+    const configError = getProviderConfigError()
+    if (configError) {
+      return NextResponse.json(
+        { error: configError },
         { status: 500 }
       )
     }
 
-    // Generate embedding using OpenAI
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-      encoding_format: 'float',
-    })
+    // Generate embeddings using the configured provider (OpenAI or local)
+    // Every response is tagged with the model so clients never mix vectors
+    const provider = getEmbeddingProvider()
+    const model = getEmbeddingModelInfo(provider)
+
+    if (isBatch) {
+      const embeddings = await provider.embedBatch(inputs as string[])
+      return NextResponse.json({ embeddings, ...model })
+    }
 
-    const embedding = response.data[0].embedding
+    const embedding = await provider.embed(inputs[0] as string)
 
-    return NextResponse.json({ embedding })
+    return NextResponse.json({ embedding, ...model })
   } catch (error) {
     console.error('[API /embed] Error generating embedding:', error)
 
@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server'
+import type { ExplanationSource } from '@/types'
+import {
+  buildExplanationPrompt,
+  templateExplanation,
+  type ExplanationRequest,
+} from '@/lib/match-explanation'
+
+// Simple in-memory rate limiting (resets on server restart)
+const requestCounts = new Map<string, { count: number; resetTime: number }>()
+const RATE_LIMIT = 30 // requests per window - one per opened contract
+const RATE_WINDOW = 60 * 1000 // 1 minute
+const MAX_DESCRIPTION_LENGTH = 20000
+
+const EXPLANATION_MODEL = 'gpt-4o-mini' // Fast and cheap for simple tasks
+
+function checkRateLimit(identifier: string): boolean {
+  const now = Date.now()
+  const record = requestCounts.get(identifier)
+
+  if (!record || now > record.resetTime) {
+    requestCounts.set(identifier, { count: 1, resetTime: now + RATE_WINDOW })
+    return true
+  }
+
+  if (record.count >= RATE_LIMIT) {
+    return false
+  }
+
+  record.count++
+  return true
+}
+
+/**
+ * Explanations use the LLM when an OpenAI key is configured, unless
+ * EXPLANATION_PROVIDER=template forces the deterministic fallback
+ */
+function getExplanationSource(): ExplanationSource {
+  const configured = process.env.EXPLANATION_PROVIDER?.trim().toLowerCase()
+  if (configured === 'template') return 'template'
+  return process.env.OPENAI_API_KEY ? 'llm' : 'template'
+}
+
+let client: import('openai').default | null = null
+
+async function generateLLMExplanation(request: ExplanationRequest): Promise<string | null> {
+  if (!client) {
+    const { default: OpenAI } = await import('openai')
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  }
+
+  const response = await client.chat.completions.create({
+    model: EXPLANATION_MODEL,
+    messages: [
+      {
+        role: 'system',
+        content:
+          'You are a helpful assistant that explains contract relevance clearly and concisely.',
+      },
+      { role: 'user', content: buildExplanationPrompt(request) },
+    ],
+    temperature: 0.7,
+    max_tokens: 150,
+  })
+
+  return response.choices[0].message.content?.trim() || null
+}
+
+/**
+ * Explain why a contract matches an inbox prompt
+ * Body: { query, contract, highlights? } → { explanation, source, fallback }
+ * fallback: the LLM is configured but failed, so a later request may get an LLM explanation
+ */
+export async function POST(request: Request) {
+  try {
+    // Basic rate limiting using IP or a session identifier
+    const ip = request.headers.get('x-forwarded-for') || 'unknown'
+
+    if (!checkRateLimit(ip)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const { query, contract, highlights } = await request.json()
+
+    if (!query || typeof query !== 'string' || !contract?.id || typeof contract.title !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid request. "query" and "contract" fields are required.' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof contract.description === 'string' && contract.description.length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Description too long. Maximum ${MAX_DESCRIPTION_LENGTH} characters.` },
+        { status: 400 }
+      )
+    }
+
+    const explanationRequest: ExplanationRequest = {
+      query,
+      contract: { ...contract, description: contract.description || '' },
+      highlights: Array.isArray(highlights) ? highlights : undefined,
+    }
+
+    const llmConfigured = getExplanationSource() === 'llm'
+    if (llmConfigured) {
+      try {
+        const explanation = await generateLLMExplanation(explanationRequest)
+        if (explanation) {
+          return NextResponse.json({ explanation, source: 'llm', fallback: false })
+        }
+      } catch (error) {
+        // Fall through to the template so the user still gets something useful
+        console.error('[API /explain] LLM explanation failed, using template:', error)
+      }
+    }
+
+    return NextResponse.json({
+      explanation: templateExplanation(explanationRequest),
+      source: 'template',
+      fallback: llmConfigured,
+    })
+  } catch (error) {
+    console.error('[API /explain] Error generating explanation:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to generate explanation. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
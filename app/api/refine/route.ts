@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server'
+import { buildRefinementMessages } from '@/lib/prompt-refinement'
+
+// Simple in-memory rate limiting (resets on server restart)
+const requestCounts = new Map<string, { count: number; resetTime: number }>()
+const RATE_LIMIT = 5 // requests per window - refinements are user-initiated
+const RATE_WINDOW = 60 * 1000 // 1 minute
+const MAX_PROMPT_LENGTH = 2000
+const MAX_REASONS = 20
+
+const REFINEMENT_MODEL = 'gpt-4o-mini'
+
+function checkRateLimit(identifier: string): boolean {
+  const now = Date.now()
+  const record = requestCounts.get(identifier)
+
+  if (!record || now > record.resetTime) {
+    requestCounts.set(identifier, { count: 1, resetTime: now + RATE_WINDOW })
+    return true
+  }
+
+  if (record.count >= RATE_LIMIT) {
+    return false
+  }
+
+  record.count++
+  return true
+}
+
+let client: import('openai').default | null = null
+
+/**
+ * Suggest a refined inbox prompt from hide reasons
+ * Body: { prompt, hideReasons } → { refinedPrompt }
+ */
+export async function POST(request: Request) {
+  try {
+    if (!process.env.OPENAI_API_KEY) {
+      return NextResponse.json(
+        { error: 'Prompt refinement requires OPENAI_API_KEY to be configured.' },
+        { status: 503 }
+      )
+    }
+
+    // Basic rate limiting using IP or a session identifier
+    const ip = request.headers.get('x-forwarded-for') || 'unknown'
+
+    if (!checkRateLimit(ip)) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      )
+    }
+
+    const { prompt, hideReasons } = await request.json()
+
+    if (
+      !prompt ||
+      typeof prompt !== 'string' ||
+      !Array.isArray(hideReasons) ||
+      hideReasons.length === 0 ||
+      !hideReasons.every(r => typeof r === 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid request. "prompt" and a non-empty "hideReasons" array are required.' },
+        { status: 400 }
+      )
+    }
+
+    if (prompt.length > MAX_PROMPT_LENGTH) {
+      return NextResponse.json(
+        { error: `Prompt too long. Maximum ${MAX_PROMPT_LENGTH} characters.` },
+        { status: 400 }
+      )
+    }
+
+    if (!client) {
+      const { default: OpenAI } = await import('openai')
+      client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+    }
+
+    // Most recent reasons reflect what the user wants now
+    const response = await client.chat.completions.create({
+      model: REFINEMENT_MODEL,
+      temperature: 0.3, // Low temperature for consistency
+      messages: buildRefinementMessages(prompt, hideReasons.slice(-MAX_REASONS)),
+    })
+
+    const refinedPrompt = response.choices[0].message.content?.trim().replace(/^"|"$/g, '') || prompt
+
+    return NextResponse.json({ refinedPrompt })
+  } catch (error) {
+    console.error('[API /refine] Error refining prompt:', error)
+
+    return NextResponse.json(
+      { error: 'Failed to refine prompt. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,13 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { AppNavSidebar } from "@/components/app-nav-sidebar"
 import { InboxList } from "@/components/inbox-list"
 import { ContractList } from "@/components/contract-list"
 import { ContractDetail } from "@/components/contract-detail"
-import { InboxConfiguration } from "@/components/inbox-configuration"
+import { InboxConfiguration, type InboxSettingsChanges } from "@/components/inbox-configuration"
 import { InboxLoadingDialog } from "@/components/inbox-loading-dialog"
+import { PromptRefinementDialog } from "@/components/prompt-refinement-dialog"
 import { InitialLoadingDialog } from "@/components/initial-loading-dialog"
 import { ContractListSkeleton } from "@/components/contract-list-skeleton"
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog"
@@ -25,7 +26,39 @@ import { useToast } from "@/hooks/use-toast"
 import { useContractStorage } from "@/hooks/useContractStorage"
 import { useInboxStorage } from "@/hooks/useInboxStorage"
 import { useSemanticSearch } from "@/hooks/useSemanticSearch"
-import type { Contract, Inbox } from "@/types"
+import { useMatchExplanation } from "@/hooks/useMatchExplanation"
+import { applyInboxFilters } from "@/lib/search-filters"
+import {
+  HIGH_SCORE_HIDE,
+  comparePromptResults,
+  getUnrefinedHideReasons,
+  markRefinementsApplied,
+  refinePromptWithFeedback,
+} from "@/lib/prompt-refinement"
+import {
+  addPromptRevision,
+  createPromptRevision,
+  getCurrentRevision,
+  rollbackToRevision,
+  setRevisionResultCount,
+  startPromptHistory,
+  summarizeRevisionFeedback,
+} from "@/lib/prompt-revisions"
+import { getFeedbackForInbox } from "@/lib/feedback-storage"
+import { isQueryVectorCurrent, resetQueryVector } from "@/lib/relevance-feedback"
+import { DEFAULT_THRESHOLD, getDefaultThreshold, getInboxThreshold, initialLearningState, learningReducer, type LearningAction } from "@/lib/learning"
+import { learnModelsInWorker } from "@/lib/search-client"
+import { getExperimentResults, isInExperiment } from "@/lib/experiments"
+import { replayInboxFeedback } from "@/lib/feedback-replay"
+import type {
+  BoostOverrides,
+  Contract,
+  Inbox,
+  InboxFilters,
+  PromptRevision,
+  RocchioWeights,
+  UserFeedback,
+} from "@/types"
 
 export default function ContractInboxPage() {
   // UI State
@@ -33,10 +66,12 @@ export default function ContractInboxPage() {
   const [selectedContractId, setSelectedContractId] = useState<string | null>(null)
   const [activeFilter, setActiveFilter] = useState<"all" | "unread" | "saved" | "hidden">("all")
   const [showInboxConfig, setShowInboxConfig] = useState(false)
+  const [showInboxSettings, setShowInboxSettings] = useState(false)
   const [isCreatingInbox, setIsCreatingInbox] = useState(false)
   const [newInboxName, setNewInboxName] = useState("")
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
-  const [globalThreshold, setGlobalThreshold] = useState(30)
+  const [showRefinement, setShowRefinement] = useState(false)
+  const [globalThreshold, setGlobalThreshold] = useState(DEFAULT_THRESHOLD)
   const [debugMode, setDebugMode] = useState({
     showRawScores: false,
     showExplanations: false,
@@ -52,10 +87,15 @@ export default function ContractInboxPage() {
     loading: contractsLoading,
     processingState,
     embeddingProgress,
+    ingestionSummary,
     saveContract: saveToStorage,
+    unsaveContract: unsaveInStorage,
     hideContract: hideInStorage,
     markAsRead,
+    recordEngagement,
+    recordSeen,
     unhideContract,
+    undoFeedback,
   } = useContractStorage()
 
   const {
@@ -64,6 +104,8 @@ export default function ContractInboxPage() {
     activeInboxId,
     setActiveInboxId,
     addInbox,
+    editInbox,
+    editInboxWith,
     removeInbox,
     refreshInboxes,
   } = useInboxStorage()
@@ -71,53 +113,170 @@ export default function ContractInboxPage() {
   // Semantic search for active inbox
   const {
     contracts: searchResults,
+    resultsQuery,
     searching,
     search,
+    preview: previewSearch,
   } = useSemanticSearch(activeInbox?.prompt || null, activeInbox, !!activeInbox)
 
+  // Record how many results the current prompt revision produced (first search only)
+  const recordedRevision = useRef<string | null>(null)
+  useEffect(() => {
+    if (!activeInbox || activeInbox.isAllContractsInbox || searching) return
+    if (resultsQuery !== activeInbox.prompt) return
+
+    const revision = getCurrentRevision(activeInbox)
+    if (revision?.resultCount !== undefined) return
+
+    // Only once per revision, even if state updates arrive before the write lands
+    const key = `${activeInbox.id}:${revision?.id ?? "initial"}`
+    if (recordedRevision.current === key) return
+    recordedRevision.current = key
+
+    const updates = revision
+      ? { promptRevisions: setRevisionResultCount(activeInbox.promptRevisions!, revision.id, searchResults.length) }
+      : startPromptHistory(activeInbox, searchResults.length)
+    editInbox(activeInbox.id, updates).catch(console.error)
+  }, [activeInbox, resultsQuery, searching, searchResults.length, editInbox])
+
+  // Results before a prompt edit from inbox settings, reported once the new search lands
+  const pendingPromptChange = useRef<{ inboxId: string; prompt: string; before: Array<Pick<Contract, "id" | "title">> } | null>(null)
+  useEffect(() => {
+    const pending = pendingPromptChange.current
+    if (!pending || searching || resultsQuery !== pending.prompt) return
+    pendingPromptChange.current = null
+    if (activeInbox?.id !== pending.inboxId) return
+
+    const change = comparePromptResults(pending.before, searchResults)
+    toast({
+      title: "Inbox updated",
+      description: `${change.after} results: ${change.added} added, ${change.removed} removed`,
+    })
+  }, [activeInbox?.id, resultsQuery, searching, searchResults, toast])
+
+  // Saved/hidden counts per prompt revision, for rollback decisions in settings
+  const [revisionFeedback, setRevisionFeedback] = useState<Record<string, { saved: number; hidden: number }>>({})
+  useEffect(() => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) {
+      setRevisionFeedback({})
+      return
+    }
+
+    getFeedbackForInbox(activeInbox.id)
+      .then(feedback => setRevisionFeedback(summarizeRevisionFeedback(feedback)))
+      .catch(console.error)
+  }, [activeInbox?.id, activeInbox?.isAllContractsInbox, activeInbox?.learningMetrics?.totalFeedback])
+
   // Sync globalThreshold with active inbox's threshold when switching inboxes
   useEffect(() => {
     if (activeInbox?.learningMetrics?.dynamicMinScore !== undefined) {
       setGlobalThreshold(activeInbox.learningMetrics.dynamicMinScore)
     } else if (activeInbox && !activeInbox.isAllContractsInbox) {
-      // If inbox exists but has no threshold set, use default
-      setGlobalThreshold(30)
+      // If inbox exists but has no threshold set, use its default
+      setGlobalThreshold(getDefaultThreshold(activeInbox))
     }
   }, [activeInbox])
 
+  // Report changes picked up from a new CSV drop
+  useEffect(() => {
+    if (!ingestionSummary) return
+
+    const { added, updated, removed } = ingestionSummary
+    if (added.length === 0 && updated.length === 0 && removed.length === 0) return
+
+    toast({
+      title: "Contracts updated",
+      description: `${added.length} new, ${updated.length} updated, ${removed.length} removed`,
+    })
+  }, [ingestionSummary, toast])
+
   // Determine which contracts to display
   // - If "All Contracts" special inbox: show all 623 contracts with 100% match (bypass search)
   // - If regular inbox with search results: show semantic search results with actual match scores
   // - Otherwise: show empty array (if search returns no results, inbox should be empty)
+  // Search results are a snapshot from the worker, so saved, read and hidden
+  // state comes from storage, which updates as soon as the user acts
+  const storedContracts = new Map(allContracts.map(c => [c.id, c]))
+  const withStoredState = (contract: Contract): Contract => {
+    const stored = storedContracts.get(contract.id)
+    if (!stored) return contract
+    const { isNew, isSaved, isUnread, lastViewedAt, hiddenInInboxes, hiddenMetadata } = stored
+    return { ...contract, isNew, isSaved, isUnread, lastViewedAt, hiddenInInboxes, hiddenMetadata }
+  }
+
   const baseContracts = activeInbox?.isAllContractsInbox
     ? allContracts.map(c => ({ ...c, matchScore: 100 }))
     : activeInbox && searchResults.length > 0
-    ? searchResults
+    ? searchResults.map(withStoredState)
     : []
 
+  const selectedContract = baseContracts.find((c) => c.id === selectedContractId) || null
+
+  // Explanations load when a contract is opened (All Contracts has no prompt to explain against)
+  const { explanation: selectedExplanation, loading: explanationLoading } = useMatchExplanation(
+    activeInbox && !activeInbox.isAllContractsInbox ? activeInbox.prompt : null,
+    selectedContract
+  )
+  const detailContract = selectedContract
+    ? { ...selectedContract, explanation: selectedExplanation ?? selectedContract.explanation }
+    : null
+
+  // 'viewed' feedback for open contracts, completed with dwell time when they close
+  const openViews = useRef(new Map<string, Promise<UserFeedback | undefined>>())
+
   const handleSelectContract = (contractId: string) => {
     setSelectedContractId(contractId)
 
     // Mark as read with inbox context for learning
     const contract = baseContracts.find(c => c.id === contractId)
     const context = activeInbox && contract?.matchScore !== undefined
-      ? { inboxId: activeInbox.id, matchScore: contract.matchScore }
+      ? { inboxId: activeInbox.id, matchScore: contract.matchScore, promptRevisionId: activeInbox.currentRevisionId, variantId: contract.variantId }
       : undefined
 
-    markAsRead(contractId, context)
+    openViews.current.set(contractId, markAsRead(contractId, context))
+  }
+
+  const handleViewEnd = (contractId: string, engagement: { viewDuration: number; externalLinkClicked: boolean }) => {
+    const view = openViews.current.get(contractId)
+    if (!view) return
+    openViews.current.delete(contractId)
+
+    view
+      .then(feedback => feedback && recordEngagement(feedback, engagement))
+      .catch(console.error)
+  }
+
+  // Contracts left on screen in an inbox without being opened, saved or hidden
+  const handleContractsSeen = (contractIds: string[]) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    const seen = baseContracts
+      .filter(c => contractIds.includes(c.id) && c.id !== selectedContractId)
+      .filter(c => !c.isSaved && !c.hiddenInInboxes?.includes(activeInbox.id) && c.matchScore !== undefined)
+      .map(c => ({ contractId: c.id, matchScore: c.matchScore!, variantId: c.variantId }))
+
+    if (seen.length > 0) {
+      recordSeen(activeInbox.id, seen, activeInbox.currentRevisionId).catch(console.error)
+    }
   }
 
   const handleCloseDetail = () => {
     setSelectedContractId(null)
   }
 
-  const handleCreateInbox = async (name: string, prompt: string, invites: string[]) => {
+  const handleCreateInbox = async (
+    name: string,
+    prompt: string,
+    invites: string[],
+    filters?: InboxFilters,
+    promptSource?: PromptRevision['source']
+  ) => {
     setNewInboxName(name)
     setShowInboxConfig(false)
     setIsCreatingInbox(true)
 
     try {
-      const newInbox = await addInbox(name, prompt)
+      const newInbox = await addInbox(name, prompt, filters, promptSource)
       setIsCreatingInbox(false)
 
       toast({
@@ -136,24 +295,28 @@ export default function ContractInboxPage() {
     }
   }
 
+  // Feedback context for learning - where the contract was acted on and the score it had
+  const feedbackContextFor = (contract?: Contract) =>
+    activeInbox && contract?.matchScore !== undefined
+      ? { inboxId: activeInbox.id, matchScore: contract.matchScore, promptRevisionId: activeInbox.currentRevisionId, variantId: contract.variantId }
+      : undefined
+
   const handleSaveContract = async (contractId: string) => {
     const contract = baseContracts.find((c) => c.id === contractId)
-    const wasSaved = contract?.isSaved
+    const wasSaved = !!contract?.isSaved
 
     try {
-      // Pass inbox context for learning (only when saving, not unsaving)
-      const context = !wasSaved && activeInbox && contract?.matchScore !== undefined
-        ? { inboxId: activeInbox.id, matchScore: contract.matchScore }
-        : undefined
-
-      await saveToStorage(contractId, context)
+      const context = feedbackContextFor(contract)
+      const feedback = wasSaved
+        ? await unsaveInStorage(contractId, context)
+        : await saveToStorage(contractId, context)
 
       toast({
         title: wasSaved ? "Removed from saved" : "Contract saved",
         description: wasSaved ? undefined : "Saved for your team",
         action: {
           label: "Undo",
-          onClick: () => handleSaveContract(contractId),
+          onClick: () => handleUndoSave(contractId, wasSaved, feedback),
         },
       })
     } catch (error) {
@@ -166,17 +329,39 @@ export default function ContractInboxPage() {
     }
   }
 
+  // Undo puts the contract back and retracts the feedback, so a misclick teaches the inbox nothing
+  const handleUndoSave = async (contractId: string, wasSaved: boolean, feedback?: UserFeedback) => {
+    try {
+      if (wasSaved) {
+        await saveToStorage(contractId)
+      } else {
+        await unsaveInStorage(contractId)
+      }
+      if (feedback) await undoFeedback(feedback)
+    } catch (error) {
+      console.error("Error undoing save:", error)
+      toast({
+        title: "Error",
+        description: "Failed to undo",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleHideContract = async (contractId: string, feedback?: string[]) => {
     const contract = baseContracts.find((c) => c.id === contractId)
     const reason = feedback?.join(", ")
 
     try {
       // Pass inbox context for learning
-      const context = activeInbox && contract?.matchScore !== undefined
-        ? { inboxId: activeInbox.id, matchScore: contract.matchScore }
-        : undefined
+      const context = feedbackContextFor(contract)
 
-      await hideInStorage(contractId, reason, context)
+      const hideFeedback = await hideInStorage(contractId, reason, context)
+
+      // A high-score hide with a reason may make a prompt refinement available
+      if (context && context.matchScore > HIGH_SCORE_HIDE && reason) {
+        await refreshInboxes()
+      }
 
       // Close detail view if this contract was selected
       if (selectedContractId === contractId) {
@@ -188,7 +373,7 @@ export default function ContractInboxPage() {
         description: contract ? `Hidden "${contract.title}"` : "Contract hidden from inbox",
         action: {
           label: "Undo",
-          onClick: () => handleRestoreContract(contractId),
+          onClick: () => handleUndoHide(contractId, hideFeedback),
         },
         duration: 6000,
       })
@@ -202,6 +387,31 @@ export default function ContractInboxPage() {
     }
   }
 
+  const handleUndoHide = async (contractId: string, feedback?: UserFeedback) => {
+    try {
+      if (!activeInbox) return
+
+      // Unlike restoring, undoing withdraws the hide instead of recording a change of mind
+      await unhideContract(contractId, activeInbox.id)
+      if (feedback) {
+        await undoFeedback(feedback)
+        await refreshInboxes()
+      }
+
+      toast({
+        title: "Hide undone",
+        description: "Contract restored to inbox",
+      })
+    } catch (error) {
+      console.error("Error undoing hide:", error)
+      toast({
+        title: "Error",
+        description: "Failed to undo",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleRestoreContract = async (contractId: string) => {
     try {
       if (!activeInbox) {
@@ -209,7 +419,9 @@ export default function ContractInboxPage() {
         return
       }
 
-      await unhideContract(contractId, activeInbox.id)
+      // Recorded as 'restored' feedback, which supersedes the hide
+      const contract = baseContracts.find((c) => c.id === contractId)
+      await unhideContract(contractId, activeInbox.id, feedbackContextFor(contract))
 
       toast({
         title: "Contract restored",
@@ -235,6 +447,9 @@ export default function ContractInboxPage() {
       return
     }
 
+    // Pick up learning stored since the inbox was loaded (changes re-run the search themselves)
+    refreshInboxes().catch(console.error)
+
     // Trigger a new search with the current inbox prompt
     search(activeInbox.prompt)
 
@@ -298,12 +513,18 @@ export default function ContractInboxPage() {
     }
 
     try {
-      // Get current threshold from learning metrics or default to 50
-      const currentThreshold = activeInbox.learningMetrics?.dynamicMinScore ?? 50
+      let currentThreshold = 0
 
-      // Lower threshold by 10, minimum 30
-      const newThreshold = Math.max(30, currentThreshold - 10)
+      // Lower the stored threshold by 10, minimum 30
+      // Updating the inbox re-runs the search with the new threshold
+      const updated = await editInboxWith(activeInbox.id, current => {
+        currentThreshold = getInboxThreshold(current)
+        const threshold = Math.max(30, currentThreshold - 10)
+        return threshold === currentThreshold ? {} : withThreshold({ type: 'setThreshold', threshold, source: 'widen' })(current)
+      })
+      if (!updated) throw new Error("Inbox not found")
 
+      const newThreshold = getInboxThreshold(updated)
       if (newThreshold === currentThreshold) {
         toast({
           title: "Already at minimum",
@@ -312,36 +533,6 @@ export default function ContractInboxPage() {
         return
       }
 
-      // Update inbox learning metrics
-      const { updateInbox } = await import('@/lib/inbox-storage')
-      await updateInbox(activeInbox.id, {
-        learningMetrics: {
-          ...activeInbox.learningMetrics,
-          inboxId: activeInbox.id,
-          minRelevanceScore: activeInbox.learningMetrics?.minRelevanceScore ?? 0,
-          maxIrrelevanceScore: activeInbox.learningMetrics?.maxIrrelevanceScore ?? 100,
-          dynamicMinScore: newThreshold,
-          thresholdAdjustments: {
-            expandedCount: (activeInbox.learningMetrics?.thresholdAdjustments?.expandedCount ?? 0) + 1,
-            narrowedCount: activeInbox.learningMetrics?.thresholdAdjustments?.narrowedCount ?? 0,
-            lastAdjustment: new Date().toISOString(),
-          },
-          promptRefinements: activeInbox.learningMetrics?.promptRefinements ?? [],
-          pendingPromptUpdate: activeInbox.learningMetrics?.pendingPromptUpdate ?? false,
-          totalFeedback: activeInbox.learningMetrics?.totalFeedback ?? 0,
-          savedContracts: activeInbox.learningMetrics?.savedContracts ?? 0,
-          hiddenContracts: activeInbox.learningMetrics?.hiddenContracts ?? 0,
-          viewedContracts: activeInbox.learningMetrics?.viewedContracts ?? 0,
-          authorityBoosts: activeInbox.learningMetrics?.authorityBoosts ?? {},
-          classificationBoosts: activeInbox.learningMetrics?.classificationBoosts ?? {},
-          confidenceLevel: activeInbox.learningMetrics?.confidenceLevel ?? 0,
-          lastUpdated: new Date().toISOString(),
-        },
-      })
-
-      // Re-trigger search with new threshold
-      search(activeInbox.prompt)
-
       toast({
         title: "Search widened",
         description: `Lowered match threshold to ${newThreshold}%`,
@@ -356,6 +547,14 @@ export default function ContractInboxPage() {
     }
   }
 
+  // Threshold change applied to the inbox as stored, so feedback folded in since it loaded is kept
+  const withThreshold = (action: LearningAction) => (inbox: Inbox): Pick<Inbox, 'learningMetrics'> => ({
+    learningMetrics: learningReducer(
+      inbox.learningMetrics ?? initialLearningState(inbox.id, undefined, getDefaultThreshold(inbox)),
+      action
+    ),
+  })
+
   const handleGlobalThresholdChange = async (newThreshold: number) => {
     if (!activeInbox) return
 
@@ -364,34 +563,10 @@ export default function ContractInboxPage() {
     // Update the inbox learning metrics with new threshold
     if (!activeInbox.isAllContractsInbox && activeInbox.prompt) {
       try {
-        const { updateInbox } = await import('@/lib/inbox-storage')
-        await updateInbox(activeInbox.id, {
-          learningMetrics: {
-            ...activeInbox.learningMetrics,
-            inboxId: activeInbox.id,
-            minRelevanceScore: activeInbox.learningMetrics?.minRelevanceScore ?? 0,
-            maxIrrelevanceScore: activeInbox.learningMetrics?.maxIrrelevanceScore ?? 100,
-            dynamicMinScore: newThreshold,
-            thresholdAdjustments: {
-              expandedCount: activeInbox.learningMetrics?.thresholdAdjustments?.expandedCount ?? 0,
-              narrowedCount: activeInbox.learningMetrics?.thresholdAdjustments?.narrowedCount ?? 0,
-              lastAdjustment: new Date().toISOString(),
-            },
-            promptRefinements: activeInbox.learningMetrics?.promptRefinements ?? [],
-            pendingPromptUpdate: activeInbox.learningMetrics?.pendingPromptUpdate ?? false,
-            totalFeedback: activeInbox.learningMetrics?.totalFeedback ?? 0,
-            savedContracts: activeInbox.learningMetrics?.savedContracts ?? 0,
-            hiddenContracts: activeInbox.learningMetrics?.hiddenContracts ?? 0,
-            viewedContracts: activeInbox.learningMetrics?.viewedContracts ?? 0,
-            authorityBoosts: activeInbox.learningMetrics?.authorityBoosts ?? {},
-            classificationBoosts: activeInbox.learningMetrics?.classificationBoosts ?? {},
-            confidenceLevel: activeInbox.learningMetrics?.confidenceLevel ?? 0,
-            lastUpdated: new Date().toISOString(),
-          },
-        })
-
-        // Refresh inboxes to get updated threshold before search
-        await refreshInboxes()
+        await editInboxWith(
+          activeInbox.id,
+          withThreshold({ type: 'setThreshold', threshold: newThreshold, source: 'manual' })
+        )
 
         // Re-trigger search with new threshold
         search(activeInbox.prompt)
@@ -411,6 +586,312 @@ export default function ContractInboxPage() {
     }
   }
 
+  const refinementHideReasons = getUnrefinedHideReasons(activeInbox?.learningMetrics?.promptRefinements ?? [])
+
+  const handleSuggestRefinement = async () => {
+    if (!activeInbox) throw new Error("No active inbox")
+    return refinePromptWithFeedback(activeInbox.prompt, refinementHideReasons)
+  }
+
+  const handlePreviewPrompt = async (prompt: string) => {
+    const results = await previewSearch(prompt)
+    return comparePromptResults(searchResults, results.map(r => r.contract))
+  }
+
+  const handleApplyRefinement = async (prompt: string, resultCount?: number) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      // Updating the prompt re-runs the search; the old prompt stays in the history
+      const revision = createPromptRevision(prompt, 'refinement', {
+        resultCount,
+        hideReasons: refinementHideReasons,
+      })
+      await editInboxWith(activeInbox.id, current => ({
+        ...addPromptRevision(current, revision),
+        learningMetrics: current.learningMetrics && {
+          ...current.learningMetrics,
+          promptRefinements: markRefinementsApplied(current.learningMetrics.promptRefinements, prompt),
+          pendingPromptUpdate: false,
+        },
+      }))
+
+      toast({
+        title: "Inbox refined",
+        description: "You can roll back to the previous prompt from prompt history",
+      })
+    } catch (error) {
+      console.error("Error applying refinement:", error)
+      toast({
+        title: "Error",
+        description: "Failed to apply refinement",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRollbackPrompt = async (revisionId: string) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    const updates = rollbackToRevision(activeInbox, revisionId)
+    if (!updates) return
+
+    try {
+      await editInbox(activeInbox.id, updates)
+
+      toast({
+        title: "Prompt rolled back",
+        description: `"${activeInbox.name}" is using an earlier prompt`,
+      })
+    } catch (error) {
+      console.error("Error rolling back prompt:", error)
+      toast({
+        title: "Error",
+        description: "Failed to roll back prompt",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSaveInboxSettings = async (changes: InboxSettingsChanges) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    const updates: Partial<Inbox> = {}
+    if (changes.name !== activeInbox.name) updates.name = changes.name
+    if (JSON.stringify(changes.filters) !== JSON.stringify(activeInbox.filters ?? {})) updates.filters = changes.filters
+    const thresholdChanged = changes.threshold !== getInboxThreshold(activeInbox)
+
+    // A new prompt is a new revision, so feedback stays attributed to the old one
+    const promptChanged = changes.prompt !== activeInbox.prompt
+    if (promptChanged) {
+      Object.assign(updates, addPromptRevision(activeInbox, createPromptRevision(changes.prompt, changes.promptSource)))
+    }
+
+    setShowInboxSettings(false)
+    if (Object.keys(updates).length === 0 && !thresholdChanged) return
+
+    try {
+      if (promptChanged) {
+        pendingPromptChange.current = { inboxId: activeInbox.id, prompt: changes.prompt, before: searchResults }
+      }
+
+      // Updating the inbox re-runs the search when the prompt, filters or threshold changed
+      await editInboxWith(activeInbox.id, current => ({
+        ...updates,
+        ...(thresholdChanged && withThreshold({ type: 'setThreshold', threshold: changes.threshold, source: 'manual' })(current)),
+      }))
+
+      if (!promptChanged) {
+        toast({
+          title: "Inbox updated",
+          description: `Saved settings for "${changes.name}"`,
+        })
+      }
+    } catch (error) {
+      console.error("Error updating inbox:", error)
+      pendingPromptChange.current = null
+      toast({
+        title: "Error",
+        description: "Failed to update inbox",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleFiltersChange = async (filters: InboxFilters) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      // Updating the inbox re-runs the search with the new filters
+      await editInbox(activeInbox.id, { filters })
+
+      toast({
+        title: "Filters updated",
+        description: `"${activeInbox.name}" will only match contracts that pass these filters`,
+      })
+    } catch (error) {
+      console.error("Error updating filters:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update filters",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleLexicalWeightChange = async (lexicalWeight: number) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      // Updating the inbox re-runs the search with the new blend weight
+      await editInbox(activeInbox.id, {
+        matchingConfig: { ...activeInbox.matchingConfig, lexicalWeight },
+      })
+
+      toast({
+        title: "Keyword weight updated",
+        description: `Keyword matching set to ${Math.round(lexicalWeight * 100)}%`,
+      })
+    } catch (error) {
+      console.error("Error updating keyword weight:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update keyword weight",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleBoostOverridesChange = async (overrides: BoostOverrides) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    const hasOverrides = !!(overrides.authority || overrides.classification)
+
+    try {
+      // Updating the inbox re-runs the search with the new boosts
+      await editInbox(activeInbox.id, {
+        matchingConfig: { ...activeInbox.matchingConfig, boostOverrides: hasOverrides ? overrides : undefined },
+      })
+
+      toast({
+        title: "Buyer boosts updated",
+        description: hasOverrides ? "Your overrides take precedence over learned boosts for the buyers and classifications you set" : "Using learned boosts only",
+      })
+    } catch (error) {
+      console.error("Error updating buyer boosts:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update buyer boosts",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRocchioWeightsChange = async (rocchioWeights: RocchioWeights) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      await editInbox(activeInbox.id, {
+        matchingConfig: { ...activeInbox.matchingConfig, rocchioWeights },
+      })
+
+      // Relearn the query vector with the new weights, then re-run the search with it
+      await learnModelsInWorker(activeInbox.id)
+      await refreshInboxes()
+
+      toast({
+        title: "Feedback weights updated",
+        description: `Saved ${Math.round(rocchioWeights.saved * 100)}%, hidden ${Math.round(rocchioWeights.hidden * 100)}%`,
+      })
+    } catch (error) {
+      console.error("Error updating feedback weights:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update feedback weights",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleResetLearnedEmbedding = async () => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      // Updating the inbox re-runs the search with the prompt embedding alone
+      await editInbox(activeInbox.id, resetQueryVector())
+
+      toast({
+        title: "Relevance feedback reset",
+        description: `"${activeInbox.name}" is searching with its prompt only`,
+      })
+    } catch (error) {
+      console.error("Error resetting relevance feedback:", error)
+      toast({
+        title: "Error",
+        description: "Failed to reset relevance feedback",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleReleaseThreshold = async (reset: boolean) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      // Updating the inbox re-runs the search if the threshold moved
+      const defaultThreshold = getDefaultThreshold(activeInbox)
+      const updated = await editInboxWith(
+        activeInbox.id,
+        withThreshold(reset ? { type: 'resetThreshold', threshold: defaultThreshold } : { type: 'clearThresholdOverride' })
+      )
+      if (!updated) throw new Error("Inbox not found")
+
+      toast({
+        title: reset ? "Threshold reset" : "Threshold released",
+        description: reset
+          ? `Match threshold back to ${defaultThreshold}%; learning will adjust it from your feedback`
+          : `Learning will adjust the threshold from ${getInboxThreshold(updated)}%`,
+      })
+    } catch (error) {
+      console.error("Error releasing threshold:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update threshold",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleClassifierWeightChange = async (classifierWeight: number) => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      // Updating the inbox re-runs the search with the new blend weight
+      await editInbox(activeInbox.id, {
+        matchingConfig: { ...activeInbox.matchingConfig, classifierWeight },
+      })
+
+      toast({
+        title: "Blend weight updated",
+        description: `Relevance model set to ${Math.round(classifierWeight * 100)}% of the score`,
+      })
+    } catch (error) {
+      console.error("Error updating blend weight:", error)
+      toast({
+        title: "Error",
+        description: "Failed to update blend weight",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRetrainModel = async () => {
+    if (!activeInbox || activeInbox.isAllContractsInbox) return
+
+    try {
+      // Trained in the search worker; refreshing re-runs the search with the new model
+      await learnModelsInWorker(activeInbox.id)
+      await refreshInboxes()
+
+      toast({
+        title: "Relevance model retrained",
+        description: `"${activeInbox.name}" is ranking with your latest feedback`,
+      })
+    } catch (error) {
+      console.error("Error retraining relevance model:", error)
+      toast({
+        title: "Error",
+        description: "Failed to retrain relevance model",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Count contracts excluded by the active inbox's structured filters
+  const filterExclusions = activeInbox && !activeInbox.isAllContractsInbox
+    ? applyInboxFilters(allContracts, activeInbox.filters).exclusions
+    : undefined
+
   // Calculate result stats for settings panel
   const resultStats = {
     totalContracts: allContracts.length,
@@ -431,6 +912,16 @@ export default function ContractInboxPage() {
     )
   }
 
+  if (showInboxSettings && activeInbox && !activeInbox.isAllContractsInbox) {
+    return (
+      <InboxConfiguration
+        inbox={activeInbox}
+        onClose={() => setShowInboxSettings(false)}
+        onSaveInbox={handleSaveInboxSettings}
+      />
+    )
+  }
+
   return (
     <div className="flex h-screen overflow-hidden bg-background">
       <AppNavSidebar />
@@ -465,8 +956,10 @@ export default function ContractInboxPage() {
           onSaveContract={handleSaveContract}
           onHideContract={handleHideContract}
           onRestoreContract={handleRestoreContract}
+          onContractsSeen={handleContractsSeen}
           onRerunInbox={handleRerunInbox}
           onDeleteInbox={handleDeleteInbox}
+          onEditInbox={activeInbox && !activeInbox.isAllContractsInbox ? () => setShowInboxSettings(true) : undefined}
           onWidenSearch={handleWidenSearch}
           currentThreshold={activeInbox?.learningMetrics?.dynamicMinScore ?? globalThreshold}
           isAllContractsInbox={activeInbox?.isAllContractsInbox ?? false}
@@ -477,6 +970,33 @@ export default function ContractInboxPage() {
           learningEnabled={learningEnabled}
           onLearningEnabledChange={setLearningEnabled}
           resultStats={resultStats}
+          filters={activeInbox?.filters}
+          onFiltersChange={activeInbox && !activeInbox.isAllContractsInbox ? handleFiltersChange : undefined}
+          filterExclusions={filterExclusions}
+          lexicalWeight={activeInbox?.matchingConfig?.lexicalWeight}
+          onLexicalWeightChange={activeInbox && !activeInbox.isAllContractsInbox ? handleLexicalWeightChange : undefined}
+          promptRevisions={activeInbox?.isAllContractsInbox ? undefined : activeInbox?.promptRevisions}
+          currentRevisionId={activeInbox?.currentRevisionId}
+          revisionFeedback={revisionFeedback}
+          onRollbackPrompt={activeInbox && !activeInbox.isAllContractsInbox ? handleRollbackPrompt : undefined}
+          learningMetrics={activeInbox?.learningMetrics}
+          boostOverrides={activeInbox?.matchingConfig?.boostOverrides}
+          onBoostOverridesChange={activeInbox && !activeInbox.isAllContractsInbox ? handleBoostOverridesChange : undefined}
+          learnedEmbedding={activeInbox && isQueryVectorCurrent(activeInbox) ? activeInbox.learnedEmbedding : undefined}
+          rocchioWeights={activeInbox?.matchingConfig?.rocchioWeights}
+          onRocchioWeightsChange={activeInbox && !activeInbox.isAllContractsInbox ? handleRocchioWeightsChange : undefined}
+          onResetLearnedEmbedding={activeInbox && !activeInbox.isAllContractsInbox ? handleResetLearnedEmbedding : undefined}
+          relevanceModel={activeInbox?.relevanceModel}
+          classifierWeight={activeInbox?.matchingConfig?.classifierWeight}
+          onClassifierWeightChange={activeInbox && !activeInbox.isAllContractsInbox ? handleClassifierWeightChange : undefined}
+          onRetrainModel={activeInbox && !activeInbox.isAllContractsInbox ? handleRetrainModel : undefined}
+          onReleaseThreshold={activeInbox && !activeInbox.isAllContractsInbox ? handleReleaseThreshold : undefined}
+          onReplayFeedback={activeInbox && !activeInbox.isAllContractsInbox ? () => replayInboxFeedback(activeInbox.id) : undefined}
+          defaultThreshold={getDefaultThreshold(activeInbox)}
+          experimentVariantId={isInExperiment(activeInbox) ? activeInbox.experimentAssignment.variantId : undefined}
+          onLoadExperimentResults={getExperimentResults}
+          refinementOffered={activeInbox?.learningMetrics?.pendingPromptUpdate ?? false}
+          onRefinePrompt={activeInbox && !activeInbox.isAllContractsInbox ? () => setShowRefinement(true) : undefined}
         />
       )}
 
@@ -487,21 +1007,25 @@ export default function ContractInboxPage() {
               {baseContracts.find((c) => c.id === selectedContractId)?.title || "Contract Details"}
             </DialogTitle>
             <ContractDetail
-              contract={baseContracts.find((c) => c.id === selectedContractId) as any || null}
+              contract={detailContract as any}
+              explanationLoading={explanationLoading}
               onClose={handleCloseDetail}
               isModal={true}
               onSaveContract={handleSaveContract}
               onHideContract={handleHideContract}
+              onViewEnd={handleViewEnd}
             />
           </DialogContent>
         </Dialog>
       ) : (
         <ContractDetail
-          contract={baseContracts.find((c) => c.id === selectedContractId) as any || null}
+          contract={detailContract as any}
+          explanationLoading={explanationLoading}
           onClose={handleCloseDetail}
           isModal={false}
           onSaveContract={handleSaveContract}
           onHideContract={handleHideContract}
+          onViewEnd={handleViewEnd}
         />
       )}
 
@@ -513,12 +1037,31 @@ export default function ContractInboxPage() {
       />
 
       <InitialLoadingDialog
-        open={contractsLoading && processingState !== 'idle' && processingState !== 'error'}
+        open={
+          (contractsLoading && processingState !== 'idle' && processingState !== 'error') ||
+          processingState === 'migrating'
+        }
         processingState={processingState}
         progress={embeddingProgress}
         contractCount={allContracts.length}
       />
 
+      {activeInbox && !activeInbox.isAllContractsInbox && (
+        <PromptRefinementDialog
+          isOpen={showRefinement}
+          onClose={() => setShowRefinement(false)}
+          inboxName={activeInbox.name}
+          currentPrompt={activeInbox.prompt}
+          hideReasons={activeInbox.learningMetrics?.pendingPromptUpdate ? refinementHideReasons : []}
+          revisions={activeInbox.promptRevisions ?? []}
+          currentRevisionId={activeInbox.currentRevisionId}
+          onSuggest={handleSuggestRefinement}
+          onPreview={handlePreviewPrompt}
+          onApply={handleApplyRefinement}
+          onRollback={handleRollbackPrompt}
+        />
+      )}
+
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
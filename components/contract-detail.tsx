@@ -1,27 +1,66 @@
-import { useState } from "react"
-import { ArrowLeft, Star, Eye, EyeOff, MoreHorizontal, X, ExternalLink } from 'lucide-react'
+import { useState, useEffect, useRef } from "react"
+import { ArrowLeft, Star, Eye, EyeOff, MoreHorizontal, X, ExternalLink, History } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { HideContractDialog } from "@/components/hide-contract-dialog"
 import type { Contract } from "@/app/page"
+import type { ContractAmendment, ContractFieldChange } from "@/types"
+import { describeChange } from "@/lib/contract-amendments"
+import { segmentHighlights } from "@/lib/highlights"
 import { cn } from "@/lib/utils"
 
 interface ContractDetailProps {
   contract: Contract | null
+  explanationLoading?: boolean
   onClose: () => void
   isModal: boolean
   onSaveContract: (contractId: string) => void
   onHideContract: (contractId: string, feedback?: string[]) => void
+  onViewEnd?: (contractId: string, engagement: { viewDuration: number; externalLinkClicked: boolean }) => void
 }
 
 export function ContractDetail({ 
   contract, 
+  explanationLoading = false,
   onClose, 
   isModal,
   onSaveContract,
   onHideContract,
+  onViewEnd,
 }: ContractDetailProps) {
   const [showHideDialog, setShowHideDialog] = useState(false)
+  const externalLinkClicked = useRef(false)
+  const onViewEndRef = useRef(onViewEnd)
+  onViewEndRef.current = onViewEnd
+
+  // Time the contract is open (while the tab is visible), reported when it closes
+  const contractId = contract?.id
+  useEffect(() => {
+    if (!contractId) return
+
+    externalLinkClicked.current = false
+    let visibleMs = 0
+    let visibleSince: number | null = document.visibilityState === 'visible' ? Date.now() : null
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        visibleSince ??= Date.now()
+      } else if (visibleSince !== null) {
+        visibleMs += Date.now() - visibleSince
+        visibleSince = null
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      if (visibleSince !== null) visibleMs += Date.now() - visibleSince
+      onViewEndRef.current?.(contractId, {
+        viewDuration: Math.round(visibleMs / 1000),
+        externalLinkClicked: externalLinkClicked.current,
+      })
+    }
+  }, [contractId])
 
   if (!contract) {
     return (
@@ -49,6 +88,20 @@ export function ContractDetail({
     setShowHideDialog(false)
   }
 
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric'
+    })
+
+  // Optional notice dates, only shown when published
+  const optionalDates = [
+    { label: 'Start Date', value: contract.startDate },
+    { label: 'Award Date', value: contract.awardDate },
+    { label: 'Expiry Date', value: contract.expiryDate },
+  ].filter((d): d is { label: string; value: string } => !!d.value)
+
   return (
     <>
       <div className="flex-1 bg-background flex flex-col overflow-hidden">
@@ -104,15 +157,20 @@ export function ContractDetail({
                   <div className="bg-chart-2 h-full" style={{ width: `${contract.matchScore}%` }} />
                 </div>
               </div>
-              <h3 className="text-sm font-semibold mb-2">Why this matches</h3>
               {contract.explanation ? (
-                <p className="text-sm text-muted-foreground whitespace-pre-line">
-                  {contract.explanation}
-                </p>
-              ) : (
-                <p className="text-sm text-muted-foreground italic">
-                  Match explanation loading...
-                </p>
+                <>
+                  <h3 className="text-sm font-semibold mb-2">Why this matches</h3>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">
+                    {contract.explanation}
+                  </p>
+                </>
+              ) : explanationLoading && (
+                <>
+                  <h3 className="text-sm font-semibold mb-2">Why this matches</h3>
+                  <p className="text-sm text-muted-foreground italic">
+                    Match explanation loading...
+                  </p>
+                </>
               )}
             </div>
           )}
@@ -125,42 +183,127 @@ export function ContractDetail({
             </div>
             <div>
               <p className="text-xs text-muted-foreground mb-1">Buyer Classification</p>
-              <p className="text-sm font-medium">{contract.buyerClassification}</p>
+              <p className="text-sm font-medium">
+                {contract.buyerClassification}
+                {contract.buyerCategory && (
+                  <span className="text-muted-foreground font-normal"> · {contract.buyerCategory}</span>
+                )}
+              </p>
             </div>
             <div>
               <p className="text-xs text-muted-foreground mb-1">Value</p>
               <p className="text-sm font-medium">
                 {contract.value
-                  ? new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(contract.value)
+                  ? new Intl.NumberFormat('en-GB', { style: 'currency', currency: contract.currency || 'GBP' }).format(contract.value)
                   : 'Not specified'
                 }
               </p>
             </div>
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">Stage</p>
+              <p className="text-sm font-medium">{contract.stage || 'Not specified'}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground mb-1">Country</p>
+              <p className="text-sm font-medium">{contract.country || 'Not specified'}</p>
+            </div>
             <div>
               <p className="text-xs text-muted-foreground mb-1">Deadline</p>
               <p className="text-sm font-medium">{contract.deadline || 'Not specified'}</p>
             </div>
             <div>
               <p className="text-xs text-muted-foreground mb-1">Close Date</p>
-              <p className="text-sm font-medium">
-                {new Date(contract.closeDate).toLocaleDateString('en-GB', {
-                  day: 'numeric',
-                  month: 'short',
-                  year: 'numeric'
-                })}
-              </p>
+              <p className="text-sm font-medium">{contract.closeDate ? formatDate(contract.closeDate) : 'Not specified'}</p>
             </div>
             <div>
               <p className="text-xs text-muted-foreground mb-1">Published Date</p>
+              <p className="text-sm font-medium">{contract.publishDate ? formatDate(contract.publishDate) : 'Not specified'}</p>
+            </div>
+            {optionalDates.map((date) => (
+              <div key={date.label}>
+                <p className="text-xs text-muted-foreground mb-1">{date.label}</p>
+                <p className="text-sm font-medium">{formatDate(date.value)}</p>
+              </div>
+            ))}
+            {contract.smeSupplier !== null && contract.smeSupplier !== undefined && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">SME Supplier</p>
+                <p className="text-sm font-medium">{contract.smeSupplier ? 'Yes' : 'No'}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Framework */}
+          {contract.framework && (
+            <div className="mb-6">
+              <p className="text-xs text-muted-foreground mb-1">Framework</p>
               <p className="text-sm font-medium">
-                {new Date(contract.publishDate).toLocaleDateString('en-GB', {
-                  day: 'numeric',
-                  month: 'short',
-                  year: 'numeric'
-                })}
+                {contract.framework.url ? (
+                  <a
+                    href={contract.framework.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary hover:underline"
+                  >
+                    {contract.framework.name}
+                  </a>
+                ) : (
+                  contract.framework.name
+                )}
+                {contract.framework.relationship && (
+                  <Badge variant="secondary" className="ml-2 text-xs">
+                    {contract.framework.relationship}
+                  </Badge>
+                )}
               </p>
             </div>
-          </div>
+          )}
+
+          {/* CPV Codes */}
+          {contract.cpvCodes?.length > 0 && (
+            <div className="mb-6">
+              <p className="text-xs text-muted-foreground mb-2">CPV Codes</p>
+              <div className="flex flex-wrap gap-1.5">
+                {contract.cpvCodes.map((code: string) => (
+                  <Badge key={code} variant="outline" className="text-xs font-mono">
+                    {code}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Suppliers */}
+          {contract.suppliers?.length > 0 && (
+            <div className="mb-6">
+              <p className="text-xs text-muted-foreground mb-1">Suppliers</p>
+              <p className="text-sm font-medium">{contract.suppliers.join(', ')}</p>
+            </div>
+          )}
+
+          {/* Contact */}
+          {contract.contact && (
+            <div className="mb-6">
+              <p className="text-xs text-muted-foreground mb-1">Contact</p>
+              <div className="text-sm space-y-0.5">
+                {contract.contact.name && <p className="font-medium">{contract.contact.name}</p>}
+                {contract.contact.phone && (
+                  <p>
+                    <a href={`tel:${contract.contact.phone}`} className="text-primary hover:underline">
+                      {contract.contact.phone}
+                    </a>
+                  </p>
+                )}
+                {contract.contact.email && (
+                  <p>
+                    <a href={`mailto:${contract.contact.email}`} className="text-primary hover:underline">
+                      {contract.contact.email}
+                    </a>
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
 
           {/* Contract URL */}
           <div className="mb-6">
@@ -169,17 +312,54 @@ export function ContractDetail({
               target="_blank"
               rel="noopener noreferrer"
               className="inline-flex items-center gap-2 text-sm text-primary hover:underline"
+              onClick={() => { externalLinkClicked.current = true }}
             >
               View on Contracts Finder
               <ExternalLink className="h-3.5 w-3.5" />
             </a>
           </div>
 
-          {/* Description */}
+          {/* Changes (amendment history, newest first) */}
+          {contract.amendments?.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-base font-semibold mb-3 flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Changes
+              </h3>
+              <ol className="relative border-l border-border ml-2 space-y-4">
+                {[...contract.amendments].reverse().map((amendment: ContractAmendment) => (
+                  <li key={amendment.timestamp} className="ml-4">
+                    <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground/60" />
+                    <p className="text-xs text-muted-foreground mb-1">{formatDate(amendment.timestamp)}</p>
+                    <ul className="text-sm space-y-0.5">
+                      {amendment.changes.map((change: ContractFieldChange) => (
+                        <li key={change.field}>{describeChange(change, contract.currency || 'GBP')}</li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Description - passages that matched the inbox prompt are highlighted */}
           <div>
             <h3 className="text-base font-semibold mb-3">Description</h3>
+            {contract.highlights?.length > 0 && (
+              <p className="text-xs text-muted-foreground mb-2">
+                <mark className="bg-chart-2/20 text-foreground rounded-sm px-1">Highlighted</mark> text matched this inbox
+              </p>
+            )}
             <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
-              {contract.description}
+              {segmentHighlights(contract.description, contract.highlights).map((segment, index) =>
+                segment.highlighted ? (
+                  <mark key={index} className="bg-chart-2/20 text-foreground rounded-sm">
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )}
             </p>
           </div>
         </div>
@@ -1,6 +1,6 @@
-import { useState, useRef } from "react"
+import { useState, useRef, useEffect } from "react"
 import { useVirtualizer } from '@tanstack/react-virtual'
-import { Menu, Star, EyeOff, MoreHorizontal, RefreshCw, Trash2, SearchX } from 'lucide-react'
+import { Menu, Star, EyeOff, MoreHorizontal, RefreshCw, Trash2, SearchX, Sparkles, History, Settings2 } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
@@ -21,7 +21,24 @@ import {
 import { HideContractDialog } from "@/components/hide-contract-dialog"
 import { MatchingSettings } from "@/components/matching-settings"
 import { cn } from "@/lib/utils"
+import { hasUnseenAmendment } from "@/lib/contract-amendments"
+import { DEFAULT_THRESHOLD } from "@/lib/learning"
+import type { FilterExclusions } from "@/lib/search-filters"
 import type { Contract } from "@/app/page"
+import type {
+  BoostOverrides,
+  ExperimentVariantResults,
+  FeedbackReplayReport,
+  InboxFilters,
+  InboxLearningMetrics,
+  InboxQueryVector,
+  InboxRelevanceModel,
+  PromptRevision,
+  RocchioWeights,
+} from "@/types"
+
+// How long a row must stay on screen to count as seen
+const SEEN_AFTER_MS = 1500
 
 interface ContractListProps {
   contracts: Contract[]
@@ -36,8 +53,10 @@ interface ContractListProps {
   onSaveContract: (contractId: string) => void
   onHideContract: (contractId: string, feedback?: string[]) => void
   onRestoreContract: (contractId: string) => void
+  onContractsSeen?: (contractIds: string[]) => void // Rows that stayed on screen (for 'ignored' feedback)
   onRerunInbox?: () => void
   onDeleteInbox?: () => void
+  onEditInbox?: () => void
   onWidenSearch?: () => void
   currentThreshold?: number
   isAllContractsInbox?: boolean
@@ -59,6 +78,33 @@ interface ContractListProps {
     totalContracts: number
     matchingAtThreshold: number
   }
+  filters?: InboxFilters
+  onFiltersChange?: (filters: InboxFilters) => void
+  filterExclusions?: FilterExclusions
+  lexicalWeight?: number
+  onLexicalWeightChange?: (weight: number) => void
+  promptRevisions?: PromptRevision[]
+  currentRevisionId?: string
+  revisionFeedback?: Record<string, { saved: number; hidden: number }>
+  onRollbackPrompt?: (revisionId: string) => void
+  learningMetrics?: InboxLearningMetrics
+  boostOverrides?: BoostOverrides
+  onBoostOverridesChange?: (overrides: BoostOverrides) => void
+  learnedEmbedding?: InboxQueryVector
+  rocchioWeights?: RocchioWeights
+  onRocchioWeightsChange?: (weights: RocchioWeights) => void
+  onResetLearnedEmbedding?: () => void
+  relevanceModel?: InboxRelevanceModel
+  classifierWeight?: number
+  onClassifierWeightChange?: (weight: number) => void
+  onRetrainModel?: () => void
+  onReleaseThreshold?: (reset: boolean) => void
+  onReplayFeedback?: () => Promise<FeedbackReplayReport>
+  defaultThreshold?: number
+  experimentVariantId?: string
+  onLoadExperimentResults?: () => Promise<ExperimentVariantResults[]>
+  refinementOffered?: boolean
+  onRefinePrompt?: () => void
 }
 
 export function ContractList({
@@ -74,10 +120,12 @@ export function ContractList({
   onSaveContract,
   onHideContract,
   onRestoreContract,
+  onContractsSeen,
   onRerunInbox,
   onDeleteInbox,
+  onEditInbox,
   onWidenSearch,
-  currentThreshold = 50,
+  currentThreshold = DEFAULT_THRESHOLD,
   isAllContractsInbox = false,
   globalThreshold,
   onGlobalThresholdChange,
@@ -86,6 +134,33 @@ export function ContractList({
   learningEnabled,
   onLearningEnabledChange,
   resultStats,
+  filters,
+  onFiltersChange,
+  filterExclusions,
+  lexicalWeight,
+  onLexicalWeightChange,
+  promptRevisions,
+  currentRevisionId,
+  revisionFeedback,
+  onRollbackPrompt,
+  learningMetrics,
+  boostOverrides,
+  onBoostOverridesChange,
+  learnedEmbedding,
+  rocchioWeights,
+  onRocchioWeightsChange,
+  onResetLearnedEmbedding,
+  relevanceModel,
+  classifierWeight,
+  onClassifierWeightChange,
+  onRetrainModel,
+  onReleaseThreshold,
+  onReplayFeedback,
+  defaultThreshold,
+  experimentVariantId,
+  onLoadExperimentResults,
+  refinementOffered = false,
+  onRefinePrompt,
 }: ContractListProps) {
   const [contractToHide, setContractToHide] = useState<Contract | null>(null)
 
@@ -114,6 +189,10 @@ export function ContractList({
   const savedCount = contracts.filter(c => c.isSaved && !isHiddenInInbox(c)).length
   const hiddenCount = contracts.filter(c => isHiddenInInbox(c)).length
 
+  // Saved contracts whose notice changed since they were last opened
+  const isAmendedSinceViewed = (contract: Contract) => contract.isSaved && hasUnseenAmendment(contract)
+  const amendedCount = contracts.filter(c => isAmendedSinceViewed(c) && !isHiddenInInbox(c)).length
+
   const handleSaveClick = (e: React.MouseEvent, contractId: string) => {
     e.stopPropagation()
     onSaveContract(contractId)
@@ -146,6 +225,23 @@ export function ContractList({
     overscan: 5, // Render 5 extra items above and below for smooth scrolling
   })
 
+  // Rows on screen for SEEN_AFTER_MS count as seen (overscan rows aren't visible)
+  const visibleStart = rowVirtualizer.range?.startIndex
+  const visibleEnd = rowVirtualizer.range?.endIndex
+  const seenRef = useRef({ filteredContracts, onContractsSeen })
+  seenRef.current = { filteredContracts, onContractsSeen }
+
+  useEffect(() => {
+    if (visibleStart === undefined || visibleEnd === undefined) return
+
+    const timer = setTimeout(() => {
+      const { filteredContracts, onContractsSeen } = seenRef.current
+      onContractsSeen?.(filteredContracts.slice(visibleStart, visibleEnd + 1).map(c => c.id))
+    }, SEEN_AFTER_MS)
+
+    return () => clearTimeout(timer)
+  }, [visibleStart, visibleEnd, selectedInboxId, activeFilter])
+
   return (
     <>
       <div className="flex-1 border-r border-border bg-background flex flex-col min-w-0">
@@ -187,6 +283,31 @@ export function ContractList({
                   learningEnabled={learningEnabled}
                   onLearningEnabledChange={onLearningEnabledChange}
                   resultStats={resultStats}
+                  filters={filters}
+                  onFiltersChange={onFiltersChange}
+                  filterExclusions={filterExclusions}
+                  lexicalWeight={lexicalWeight}
+                  onLexicalWeightChange={onLexicalWeightChange}
+                  promptRevisions={promptRevisions}
+                  currentRevisionId={currentRevisionId}
+                  revisionFeedback={revisionFeedback}
+                  onRollbackPrompt={onRollbackPrompt}
+                  learningMetrics={learningMetrics}
+                  boostOverrides={boostOverrides}
+                  onBoostOverridesChange={onBoostOverridesChange}
+                  learnedEmbedding={learnedEmbedding}
+                  rocchioWeights={rocchioWeights}
+                  onRocchioWeightsChange={onRocchioWeightsChange}
+                  onResetLearnedEmbedding={onResetLearnedEmbedding}
+                  relevanceModel={relevanceModel}
+                  classifierWeight={classifierWeight}
+                  onClassifierWeightChange={onClassifierWeightChange}
+                  onRetrainModel={onRetrainModel}
+                  onReleaseThreshold={onReleaseThreshold}
+                  onReplayFeedback={onReplayFeedback}
+                  defaultThreshold={defaultThreshold}
+                  experimentVariantId={experimentVariantId}
+                  onLoadExperimentResults={onLoadExperimentResults}
                 />
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -201,6 +322,18 @@ export function ContractList({
                         Re-run Inbox
                       </DropdownMenuItem>
                     )}
+                    {onEditInbox && (
+                      <DropdownMenuItem onClick={onEditInbox}>
+                        <Settings2 className="h-4 w-4 mr-2" />
+                        Inbox Settings
+                      </DropdownMenuItem>
+                    )}
+                    {onRefinePrompt && (
+                      <DropdownMenuItem onClick={onRefinePrompt}>
+                        <History className="h-4 w-4 mr-2" />
+                        Prompt History
+                      </DropdownMenuItem>
+                    )}
                     {onDeleteInbox && selectedInboxId !== "all-contracts" && (
                       <DropdownMenuItem onClick={onDeleteInbox} className="text-destructive">
                         <Trash2 className="h-4 w-4 mr-2" />
@@ -232,6 +365,22 @@ export function ContractList({
                 </button>
               ))}
             </div>
+            {amendedCount > 0 && (
+              <p className="text-xs text-amber-600 mt-2">
+                {amendedCount} saved {amendedCount === 1 ? "contract has" : "contracts have"} been amended since you last viewed {amendedCount === 1 ? "it" : "them"}
+              </p>
+            )}
+            {refinementOffered && onRefinePrompt && (
+              <div className="flex items-center gap-3 mt-3 rounded-md border border-chart-2/30 bg-chart-2/10 px-3 py-2">
+                <Sparkles className="h-4 w-4 text-chart-2 flex-shrink-0" />
+                <p className="text-xs text-foreground flex-1">
+                  You've hidden several high-match contracts. Refining the prompt can keep them out.
+                </p>
+                <Button size="sm" variant="outline" className="h-7 text-xs flex-shrink-0" onClick={onRefinePrompt}>
+                  Refine this inbox
+                </Button>
+              </div>
+            )}
           </div>
         </div>
 
@@ -306,6 +455,11 @@ export function ContractList({
                       HIDDEN
                     </Badge>
                   )}
+                  {isAmendedSinceViewed(contract) && (
+                    <Badge className="bg-amber-500 text-white text-xs px-1.5 py-0 flex-shrink-0">
+                      AMENDED
+                    </Badge>
+                  )}
                   <h3 className={cn(
                     "text-sm leading-tight",
                     contract.isUnread && !contract.isHidden ? "font-semibold text-foreground" : "font-normal text-foreground/80",
@@ -362,6 +516,11 @@ export function ContractList({
                   <Badge variant="secondary" className="text-xs px-2 py-0 bg-chart-2/20 text-chart-2 border-0">
                     {contract.matchScore}% match
                   </Badge>
+                  {debugMode.showRawScores && contract.scoreBreakdown && (
+                    <span className="text-xs text-muted-foreground font-mono">
+                      cos {contract.scoreBreakdown.semantic.toFixed(3)} • bm25 {contract.scoreBreakdown.lexical.toFixed(2)}
+                    </span>
+                  )}
                 </div>
               )}
               {contract.isHidden && contract.hiddenBy && (
@@ -370,7 +529,12 @@ export function ContractList({
                 </p>
               )}
               {!contract.isHidden && (
-                <p className="text-xs text-muted-foreground line-clamp-1">{contract.snippet}</p>
+                <p className={cn(
+                  "text-xs text-muted-foreground",
+                  contract.highlights?.length > 0 ? "line-clamp-2" : "line-clamp-1"
+                )}>
+                  {contract.snippet}
+                </p>
               )}
               </button>
             )})}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { FlaskConical } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { RANKING_EXPERIMENT, getRankingVariant } from "@/lib/experiments"
+import type { ExperimentVariantResults } from "@/types"
+
+interface ExperimentResultsProps {
+  variantId?: string // This inbox's variant (none: not in the experiment)
+  onLoad: () => Promise<ExperimentVariantResults[]>
+}
+
+const formatRate = (rate: number | null) => (rate === null ? "–" : `${Math.round(rate * 100)}%`)
+
+export function ExperimentResults({ variantId, onLoad }: ExperimentResultsProps) {
+  const [results, setResults] = useState<ExperimentVariantResults[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Loaded each time settings open, so outcomes include the latest feedback
+  useEffect(() => {
+    onLoad()
+      .then(setResults)
+      .catch(() => setError("Couldn't load experiment results"))
+  }, [onLoad])
+
+  const variant = variantId ? getRankingVariant(variantId) : undefined
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {RANKING_EXPERIMENT.label}
+        {!RANKING_EXPERIMENT.active && " (ended - all inboxes use the control)"}
+      </p>
+
+      <div className="flex items-start gap-2 text-sm">
+        <FlaskConical className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+        {variant ? (
+          <p>
+            This inbox: <span className="font-medium">{variant.label}</span>
+            <span className="text-muted-foreground"> - {variant.description}</span>
+          </p>
+        ) : (
+          <p className="text-muted-foreground">
+            This inbox isn't in the experiment - only inboxes created since it started are.
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {results && (
+        <div className="text-xs">
+          <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-x-3 gap-y-1.5 items-center">
+            <span className="text-muted-foreground">Variant</span>
+            <span className="text-muted-foreground text-right">Inboxes</span>
+            <span className="text-muted-foreground text-right">Saved</span>
+            <span className="text-muted-foreground text-right">Hidden</span>
+            <span className="text-muted-foreground text-right">Save rate</span>
+
+            {results.map((result) => {
+              const { label, description } = getRankingVariant(result.variantId)
+
+              return [
+                <span key={`${result.variantId}-label`} className="flex items-center gap-1.5 min-w-0">
+                  <span className="truncate" title={description}>{label}</span>
+                  {result.variantId === variantId && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0 flex-shrink-0">This inbox</Badge>
+                  )}
+                </span>,
+                <span key={`${result.variantId}-inboxes`} className="text-right">{result.inboxes}</span>,
+                <span key={`${result.variantId}-saved`} className="text-right font-medium">{result.saved}</span>,
+                <span key={`${result.variantId}-hidden`} className="text-right font-medium">{result.hidden}</span>,
+                <span
+                  key={`${result.variantId}-rate`}
+                  className={cn("text-right font-medium", result.saveRate === null && "text-muted-foreground")}
+                  title={`${result.engagedViews}/${result.viewed} views engaged · ${result.ignored} ignored`}
+                >
+                  {formatRate(result.saveRate)}
+                </span>,
+              ]
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
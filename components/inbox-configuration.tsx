@@ -7,43 +7,83 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Slider } from "@/components/ui/slider"
+import { InboxFiltersEditor } from "@/components/inbox-filters-editor"
 import { cn } from "@/lib/utils"
+import { getInboxThreshold } from "@/lib/learning"
+import type { Inbox, InboxFilters, PromptRevision } from "@/types"
+
+/**
+ * Changes saved from the inbox settings (edit mode)
+ */
+export interface InboxSettingsChanges {
+  name: string
+  prompt: string
+  promptSource: PromptRevision['source']
+  filters: InboxFilters
+  threshold: number
+}
 
 interface InboxConfigurationProps {
   onClose: () => void
-  onCreateInbox: (name: string, prompt: string, invites: string[]) => void
+  onCreateInbox?: (
+    name: string,
+    prompt: string,
+    invites: string[],
+    filters?: InboxFilters,
+    promptSource?: PromptRevision['source']
+  ) => void
+  // Edit mode - prefilled from the inbox, saved through onSaveInbox
+  inbox?: Inbox
+  onSaveInbox?: (changes: InboxSettingsChanges) => void
 }
 
-const promptSuggestions = [
+const promptSuggestions: {
+  id: string
+  icon: typeof Hammer
+  prompt: string
+  explanation: string
+  category: string
+  filters?: InboxFilters
+}[] = [
   {
     id: "construction",
     icon: Hammer,
     prompt: "Construction projects over £100k in the South East",
     explanation: "Based on your focus on commercial construction and regional presence",
-    category: "Construction & Building"
+    category: "Construction & Building",
+    filters: { valueMin: 100000, locations: ["South East"] }
   },
   {
     id: "highways",
     icon: Building2,
     prompt: "Highway maintenance and repair contracts for local councils",
     explanation: "Matches your expertise in public infrastructure and council relationships",
-    category: "Infrastructure"
+    category: "Infrastructure",
+    filters: { buyerTypes: ["Local"] }
   },
   {
     id: "renovation",
     icon: Building2,
     prompt: "Public building renovation opportunities worth £50k-£500k",
     explanation: "Aligns with your project size range and renovation capabilities",
-    category: "Renovation & Refurbishment"
+    category: "Renovation & Refurbishment",
+    filters: { valueMin: 50000, valueMax: 500000 }
   }
 ]
 
-export function InboxConfiguration({ onClose, onCreateInbox }: InboxConfigurationProps) {
-  const [selectedPrompt, setSelectedPrompt] = useState<string | null>(null)
-  const [customPrompt, setCustomPrompt] = useState("")
-  const [inboxName, setInboxName] = useState("")
+export function InboxConfiguration({ onClose, onCreateInbox, inbox, onSaveInbox }: InboxConfigurationProps) {
+  const isEditing = !!inbox
+  const initialSuggestion = inbox ? promptSuggestions.find(p => p.prompt === inbox.prompt) : undefined
+  const initialThreshold = getInboxThreshold(inbox)
+
+  const [selectedPrompt, setSelectedPrompt] = useState<string | null>(initialSuggestion?.id ?? null)
+  const [customPrompt, setCustomPrompt] = useState(inbox && !initialSuggestion ? inbox.prompt : "")
+  const [inboxName, setInboxName] = useState(inbox?.name ?? "")
   const [showInvites, setShowInvites] = useState(false)
   const [inviteEmails, setInviteEmails] = useState("")
+  const [filters, setFilters] = useState<InboxFilters>(inbox?.filters ?? {})
+  const [threshold, setThreshold] = useState(initialThreshold)
 
   const activePrompt = customPrompt || (selectedPrompt ? promptSuggestions.find(p => p.id === selectedPrompt)?.prompt : null)
 
@@ -52,14 +92,16 @@ export function InboxConfiguration({ onClose, onCreateInbox }: InboxConfiguratio
     setCustomPrompt("")
     const suggestion = promptSuggestions.find(p => p.id === id)
     if (suggestion) {
-      setInboxName(generateInboxName(suggestion.prompt))
+      // An existing inbox keeps its name
+      if (!isEditing) setInboxName(generateInboxName(suggestion.prompt))
+      setFilters(suggestion.filters || {})
     }
   }
 
   const handleCustomPromptChange = (value: string) => {
     setCustomPrompt(value)
     setSelectedPrompt(null)
-    if (value) {
+    if (value && !isEditing) {
       setInboxName(generateInboxName(value))
     }
   }
@@ -71,10 +113,30 @@ export function InboxConfiguration({ onClose, onCreateInbox }: InboxConfiguratio
     return "New Contract Inbox"
   }
 
+  const promptSource = customPrompt ? "manual" : "template"
+
+  const hasChanges = !inbox || (
+    inboxName.trim() !== inbox.name ||
+    activePrompt?.trim() !== inbox.prompt ||
+    JSON.stringify(filters) !== JSON.stringify(inbox.filters ?? {}) ||
+    threshold !== initialThreshold
+  )
+
   const handleCreate = () => {
     if (!activePrompt) return
     const emails = inviteEmails.split(",").map(e => e.trim()).filter(Boolean)
-    onCreateInbox(inboxName || generateInboxName(activePrompt), activePrompt, emails)
+    onCreateInbox?.(inboxName || generateInboxName(activePrompt), activePrompt, emails, filters, promptSource)
+  }
+
+  const handleSave = () => {
+    if (!activePrompt || !inbox) return
+    onSaveInbox?.({
+      name: inboxName.trim() || inbox.name,
+      prompt: activePrompt.trim(),
+      promptSource,
+      filters,
+      threshold,
+    })
   }
 
   return (
@@ -91,9 +153,15 @@ export function InboxConfiguration({ onClose, onCreateInbox }: InboxConfiguratio
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back
           </Button>
-          <h1 className="text-3xl font-bold text-foreground mb-2">Create new contract inbox</h1>
+          <h1 className="text-3xl font-bold text-foreground mb-2">
+            {isEditing ? "Inbox settings" : "Create new contract inbox"}
+          </h1>
           <p className="text-muted-foreground">
-            Based on <span className="font-medium text-foreground">BuildCo Construction Ltd</span>'s business, here are some recommended searches
+            {isEditing ? (
+              <>Change the name, prompt and filters of <span className="font-medium text-foreground">{inbox.name}</span>. Saved and hidden contracts and feedback are kept.</>
+            ) : (
+              <>Based on <span className="font-medium text-foreground">BuildCo Construction Ltd</span>'s business, here are some recommended searches</>
+            )}
           </p>
         </div>
 
@@ -161,7 +229,9 @@ export function InboxConfiguration({ onClose, onCreateInbox }: InboxConfiguratio
 
         {/* Custom Prompt */}
         <div className="mb-8">
-          <h2 className="text-lg font-semibold mb-2">Write your own custom prompt</h2>
+          <h2 className="text-lg font-semibold mb-2">
+            {isEditing && !selectedPrompt ? "Prompt" : "Write your own custom prompt"}
+          </h2>
           <Textarea
             placeholder="Describe the contracts you're looking for in plain English..."
             value={customPrompt}
@@ -182,21 +252,54 @@ export function InboxConfiguration({ onClose, onCreateInbox }: InboxConfiguratio
           </div>
         </div>
 
-        {/* Name Your Inbox */}
+        {/* Structured Filters */}
         <div className="mb-8">
           <div className="flex items-center gap-2 mb-2">
-            <h2 className="text-lg font-semibold">Name your inbox</h2>
+            <h2 className="text-lg font-semibold">Filters</h2>
             <Badge variant="secondary" className="text-xs">Optional</Badge>
           </div>
+          <p className="text-sm text-muted-foreground mb-4">
+            Applied exactly before AI matching - use these for value, buyer type and location
+          </p>
+          <InboxFiltersEditor filters={filters} onChange={setFilters} idPrefix="create-filters" />
+        </div>
+
+        {/* Match Threshold (edit mode - new inboxes start at the default) */}
+        {isEditing && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-lg font-semibold">Match threshold</h2>
+              <Badge variant="secondary" className="text-sm font-bold">{threshold}%</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              Minimum match score for a contract to appear in this inbox
+            </p>
+            <Slider
+              value={[threshold]}
+              onValueChange={(value) => setThreshold(value[0])}
+              min={0}
+              max={100}
+              step={5}
+            />
+          </div>
+        )}
+
+        {/* Name Your Inbox */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-2">
+            <h2 className="text-lg font-semibold">{isEditing ? "Inbox name" : "Name your inbox"}</h2>
+            {!isEditing && <Badge variant="secondary" className="text-xs">Optional</Badge>}
+          </div>
           <Input
             placeholder="Auto-generated based on your prompt"
             value={inboxName}
             onChange={(e) => setInboxName(e.target.value)}
           />
-          <p className="text-xs text-muted-foreground mt-1.5">You can change this later</p>
+          {!isEditing && <p className="text-xs text-muted-foreground mt-1.5">You can change this later</p>}
         </div>
 
         {/* Team Members */}
+        {!isEditing && (
         <div className="mb-8">
           <label className="flex items-center gap-2 mb-3 cursor-pointer">
             <input
@@ -224,18 +327,28 @@ export function InboxConfiguration({ onClose, onCreateInbox }: InboxConfiguratio
             </p>
           )}
         </div>
+        )}
 
         {/* Footer Actions */}
         <div className="flex items-center justify-between pt-6 border-t border-border">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button
-            onClick={handleCreate}
-            disabled={!activePrompt}
-          >
-            Create inbox
-          </Button>
+          {isEditing ? (
+            <Button
+              onClick={handleSave}
+              disabled={!activePrompt || !hasChanges}
+            >
+              Save changes
+            </Button>
+          ) : (
+            <Button
+              onClick={handleCreate}
+              disabled={!activePrompt}
+            >
+              Create inbox
+            </Button>
+          )}
         </div>
       </div>
     </div>
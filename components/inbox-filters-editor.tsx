@@ -0,0 +1,148 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { BUYER_TYPES, REGIONS, type FilterExclusions } from "@/lib/search-filters"
+import { cn } from "@/lib/utils"
+import type { InboxFilters } from "@/types"
+
+interface InboxFiltersEditorProps {
+  filters: InboxFilters
+  onChange: (filters: InboxFilters) => void
+  exclusions?: FilterExclusions
+  idPrefix?: string
+}
+
+const parseAmount = (value: string): number | undefined => {
+  const cleaned = value.replace(/[£,\s]/g, "")
+  if (cleaned === "") return undefined
+  const parsed = Number(cleaned)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+export function InboxFiltersEditor({
+  filters,
+  onChange,
+  exclusions,
+  idPrefix = "filters",
+}: InboxFiltersEditorProps) {
+  const toggle = (list: string[] | undefined, item: string) => {
+    const current = list || []
+    const next = current.includes(item)
+      ? current.filter(i => i !== item)
+      : [...current, item]
+    return next.length > 0 ? next : undefined
+  }
+
+  const hasValueFilter = filters.valueMin !== undefined || filters.valueMax !== undefined
+
+  return (
+    <div className="space-y-5">
+      {/* Value range */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Contract value (£)</Label>
+          {exclusions && exclusions.value > 0 && (
+            <span className="text-xs text-muted-foreground">{exclusions.value} excluded</span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            inputMode="numeric"
+            placeholder="Min"
+            value={filters.valueMin ?? ""}
+            onChange={(e) => onChange({ ...filters, valueMin: parseAmount(e.target.value) })}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            inputMode="numeric"
+            placeholder="Max"
+            value={filters.valueMax ?? ""}
+            onChange={(e) => onChange({ ...filters, valueMax: parseAmount(e.target.value) })}
+          />
+        </div>
+        {hasValueFilter && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`${idPrefix}-unspecified-value`}
+              checked={filters.includeUnspecifiedValue ?? true}
+              onCheckedChange={(checked) =>
+                onChange({ ...filters, includeUnspecifiedValue: checked === true })
+              }
+            />
+            <Label
+              htmlFor={`${idPrefix}-unspecified-value`}
+              className="text-xs font-normal text-muted-foreground cursor-pointer"
+            >
+              Include contracts with no published value
+            </Label>
+          </div>
+        )}
+      </div>
+
+      {/* Buyer types */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Buyer types</Label>
+          {exclusions && exclusions.buyerType > 0 && (
+            <span className="text-xs text-muted-foreground">{exclusions.buyerType} excluded</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {BUYER_TYPES.map((type) => {
+            const isSelected = filters.buyerTypes?.includes(type) ?? false
+            return (
+              <button
+                key={type}
+                type="button"
+                onClick={() => onChange({ ...filters, buyerTypes: toggle(filters.buyerTypes, type) })}
+                className={cn(
+                  "px-3 py-1 rounded-md text-xs font-medium transition-colors",
+                  isSelected
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                )}
+              >
+                {type}
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Locations */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium">Locations</Label>
+          {exclusions && exclusions.location > 0 && (
+            <span className="text-xs text-muted-foreground">{exclusions.location} excluded</span>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {REGIONS.map((region) => {
+            const isSelected = filters.locations?.includes(region) ?? false
+            return (
+              <button
+                key={region}
+                type="button"
+                onClick={() => onChange({ ...filters, locations: toggle(filters.locations, region) })}
+                className={cn(
+                  "px-3 py-1 rounded-md text-xs font-medium transition-colors",
+                  isSelected
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                )}
+              >
+                {region}
+              </button>
+            )
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Matched against place names in the buyer, title and description
+        </p>
+      </div>
+    </div>
+  )
+}
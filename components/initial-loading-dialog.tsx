@@ -18,8 +18,13 @@ export function InitialLoadingDialog({
   progress,
   contractCount = 0,
 }: InitialLoadingDialogProps) {
+  // Returning users only see the dialog when the embedding model changed
+  const isMigrating = processingState === 'migrating'
+
   const getStepStatus = (step: ProcessingState) => {
-    const states: ProcessingState[] = ['loading', 'embedding', 'complete']
+    const states: ProcessingState[] = isMigrating
+      ? ['migrating', 'complete']
+      : ['loading', 'embedding', 'complete']
     const currentIndex = states.indexOf(processingState)
     const stepIndex = states.indexOf(step)
 
@@ -28,7 +33,20 @@ export function InitialLoadingDialog({
     return 'pending'
   }
 
-  const steps = [
+  const migrationSteps = [
+    {
+      state: 'migrating' as ProcessingState,
+      label: 'Re-embedding contracts',
+      description: 'Bringing stored contract and inbox embeddings up to date',
+    },
+    {
+      state: 'complete' as ProcessingState,
+      label: 'Rebuilding search index',
+      description: 'Search uses the new embeddings once this finishes',
+    },
+  ]
+
+  const setupSteps = [
     {
       state: 'loading' as ProcessingState,
       label: 'Loading contract data',
@@ -46,6 +64,8 @@ export function InitialLoadingDialog({
     },
   ]
 
+  const steps = isMigrating ? migrationSteps : setupSteps
+
   const progressPercentage =
     progress && progress.total > 0 ? (progress.current / progress.total) * 100 : 0
 
@@ -65,10 +85,14 @@ export function InitialLoadingDialog({
             )}
           </div>
           <div>
-            <h2 className="text-lg font-semibold">Setting Up Your Inbox</h2>
+            <h2 className="text-lg font-semibold">
+              {isMigrating ? 'Updating Embeddings' : 'Setting Up Your Inbox'}
+            </h2>
             <p className="text-sm text-muted-foreground">
               {processingState === 'complete'
                 ? 'Ready to explore contracts'
+                : isMigrating
+                ? 'Search results may be incomplete until this finishes'
                 : 'Preparing your contract inbox...'}
             </p>
           </div>
@@ -114,10 +138,12 @@ export function InitialLoadingDialog({
           </div>
 
           {/* Progress Bar for Embedding State */}
-          {processingState === 'embedding' && progress && progress.total > 0 && (
+          {(processingState === 'embedding' || isMigrating) && progress && progress.total > 0 && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Loading embeddings</span>
+                <span className="text-muted-foreground">
+                  {isMigrating ? 'Re-embedding' : 'Loading embeddings'}
+                </span>
                 <span className="font-medium">
                   {progress.current} / {progress.total}
                 </span>
@@ -127,14 +153,16 @@ export function InitialLoadingDialog({
           )}
 
           {/* Information Box */}
-          <div className="bg-muted/50 rounded-lg p-4 space-y-2">
-            <p className="text-xs font-medium">What's happening?</p>
-            <ul className="text-xs text-muted-foreground space-y-1">
-              <li>• Loading {contractCount > 0 ? contractCount : 'contract'} records from the database</li>
-              <li>• Pre-generated AI embeddings enable instant semantic search</li>
-              <li>• This only happens once - future visits will be instant</li>
-            </ul>
-          </div>
+          {!isMigrating && (
+            <div className="bg-muted/50 rounded-lg p-4 space-y-2">
+              <p className="text-xs font-medium">What's happening?</p>
+              <ul className="text-xs text-muted-foreground space-y-1">
+                <li>• Loading {contractCount > 0 ? contractCount : 'contract'} records from the database</li>
+                <li>• Pre-generated AI embeddings enable instant semantic search</li>
+                <li>• This only happens once - future visits will be instant</li>
+              </ul>
+            </div>
+          )}
 
           {/* Completion Message */}
           {processingState === 'complete' && (
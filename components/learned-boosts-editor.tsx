@@ -0,0 +1,98 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { BoostOverrides } from "@/types"
+
+interface LearnedBoostsEditorProps {
+  authorityBoosts: Record<string, number>
+  classificationBoosts: Record<string, number>
+  overrides: BoostOverrides
+  onChange: (overrides: BoostOverrides) => void
+}
+
+// Manual boosts are allowed further than learned ones, but not enough to swamp the match score
+const MAX_OVERRIDE = 50
+
+const parseBoost = (value: string): number | undefined => {
+  if (value.trim() === "") return undefined
+  const parsed = Math.round(Number(value))
+  return Number.isFinite(parsed) ? Math.max(-MAX_OVERRIDE, Math.min(MAX_OVERRIDE, parsed)) : undefined
+}
+
+const formatBoost = (boost: number) => (boost > 0 ? `+${boost}` : `${boost}`)
+
+export function LearnedBoostsEditor({
+  authorityBoosts,
+  classificationBoosts,
+  overrides,
+  onChange,
+}: LearnedBoostsEditorProps) {
+  const groups = [
+    { key: "authority" as const, label: "Buyers", learned: authorityBoosts },
+    { key: "classification" as const, label: "Buyer types", learned: classificationBoosts },
+  ]
+
+  const setOverride = (kind: keyof BoostOverrides, name: string, value: number | undefined) => {
+    const next = { ...overrides[kind] }
+    if (value === undefined) delete next[name]
+    else next[name] = value
+    onChange({ ...overrides, [kind]: Object.keys(next).length > 0 ? next : undefined })
+  }
+
+  return (
+    <div className="space-y-5">
+      {groups.map(({ key, label, learned }) => {
+        const kindOverrides = overrides[key] ?? {}
+        // Strongest learned boosts first, then override-only entries
+        const names = [...new Set([...Object.keys(learned), ...Object.keys(kindOverrides)])].sort(
+          (a, b) => Math.abs(learned[b] ?? 0) - Math.abs(learned[a] ?? 0) || a.localeCompare(b)
+        )
+
+        return (
+          <div key={key} className="space-y-2">
+            <Label className="text-sm font-medium">{label}</Label>
+            {names.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No patterns learned yet</p>
+            ) : (
+              names.map((name) => {
+                const learnedBoost = learned[name]
+                const override = kindOverrides[name]
+
+                return (
+                  <div key={name} className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 text-sm truncate" title={name}>{name}</span>
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        "text-[10px] px-1.5 py-0 flex-shrink-0",
+                        override !== undefined && "line-through text-muted-foreground",
+                        override === undefined && learnedBoost > 0 && "text-green-600",
+                        override === undefined && learnedBoost < 0 && "text-red-600"
+                      )}
+                    >
+                      {learnedBoost !== undefined ? `Learned ${formatBoost(learnedBoost)}` : "Manual"}
+                    </Badge>
+                    <Input
+                      type="number"
+                      step={1}
+                      min={-MAX_OVERRIDE}
+                      max={MAX_OVERRIDE}
+                      aria-label={`Override boost for ${name}`}
+                      placeholder={learnedBoost !== undefined ? formatBoost(learnedBoost) : "0"}
+                      value={override ?? ""}
+                      onChange={(e) => setOverride(key, name, parseBoost(e.target.value))}
+                      className="h-7 w-16 text-xs flex-shrink-0"
+                    />
+                  </div>
+                )
+              })
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { History } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import type { FeedbackReplayReport } from "@/types"
+
+interface LearningPolicyComparisonProps {
+  onReplay: () => Promise<FeedbackReplayReport>
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+
+export function LearningPolicyComparison({ onReplay }: LearningPolicyComparisonProps) {
+  const [report, setReport] = useState<FeedbackReplayReport | null>(null)
+  const [isReplaying, setIsReplaying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleReplay = async () => {
+    setIsReplaying(true)
+    setError(null)
+    try {
+      setReport(await onReplay())
+    } catch {
+      setError("Couldn't replay feedback")
+    } finally {
+      setIsReplaying(false)
+    }
+  }
+
+  // Most eventual saves surfaced wins; fewer eventual hides shown breaks ties
+  const best = report?.policies.reduce<FeedbackReplayReport['policies'][number] | undefined>(
+    (top, result) =>
+      !top ||
+      result.saved.surfaced > top.saved.surfaced ||
+      (result.saved.surfaced === top.saved.surfaced && result.hidden.filtered > top.hidden.filtered)
+        ? result
+        : top,
+    undefined
+  )
+  const current = report?.policies[0]
+  const hasJudgements = !!current && current.saved.surfaced + current.saved.filtered + current.hidden.surfaced + current.hidden.filtered > 0
+
+  return (
+    <div className="space-y-3">
+      <Button variant="outline" size="sm" className="w-full" onClick={handleReplay} disabled={isReplaying}>
+        <History className="h-3 w-3 mr-2" />
+        {isReplaying ? "Replaying feedback..." : report ? "Replay Again" : "Compare Learning Policies"}
+      </Button>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {report && !hasJudgements && (
+        <p className="text-xs text-muted-foreground">No saves or hides to replay yet.</p>
+      )}
+
+      {report && hasJudgements && (
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            {report.events} feedback events
+            {report.from && report.to && ` · ${formatDate(report.from)} – ${formatDate(report.to)}`}
+          </p>
+
+          <div className="text-xs">
+            <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-3 gap-y-1.5 items-center">
+              <span className="text-muted-foreground">Policy</span>
+              <span className="text-muted-foreground text-right">Saves shown</span>
+              <span className="text-muted-foreground text-right">Hides filtered</span>
+              <span className="text-muted-foreground text-right">Threshold</span>
+
+              {report.policies.map((result) => {
+                const saves = result.saved.surfaced + result.saved.filtered
+                const hides = result.hidden.surfaced + result.hidden.filtered
+
+                return [
+                  <span key={`${result.policy.id}-label`} className="flex items-center gap-1.5 min-w-0">
+                    <span className="truncate" title={result.policy.label}>{result.policy.label}</span>
+                    {result === best && (
+                      <Badge variant="secondary" className="text-[10px] px-1.5 py-0 flex-shrink-0">Best</Badge>
+                    )}
+                  </span>,
+                  <span
+                    key={`${result.policy.id}-saves`}
+                    className={cn("text-right font-medium", result.saved.filtered > 0 && "text-yellow-600")}
+                  >
+                    {result.saved.surfaced}/{saves}
+                  </span>,
+                  <span key={`${result.policy.id}-hides`} className="text-right font-medium">
+                    {result.hidden.filtered}/{hides}
+                  </span>,
+                  <span key={`${result.policy.id}-threshold`} className="text-right">
+                    {result.finalThreshold}%
+                  </span>,
+                ]
+              })}
+            </div>
+          </div>
+
+          {current && current.missedSaves.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Saves the {current.policy.label.toLowerCase()} policy would have filtered</p>
+              {current.missedSaves.map((miss) => (
+                <p key={miss.contractId} className="text-[11px] text-muted-foreground truncate" title={miss.title}>
+                  {miss.matchScore}% ({miss.matchScore < miss.threshold ? `threshold ${miss.threshold}%` : 'outside learned range'}) · {miss.title ?? miss.contractId}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
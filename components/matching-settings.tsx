@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Settings, X, Info } from 'lucide-react'
+import { Settings, X, Info, RotateCcw, RefreshCw } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
@@ -12,7 +12,29 @@ import {
   SheetTrigger,
 } from '@/components/ui/sheet'
 import { Badge } from '@/components/ui/badge'
+import { InboxFiltersEditor } from '@/components/inbox-filters-editor'
+import { PromptRevisionList } from '@/components/prompt-revision-list'
+import { LearnedBoostsEditor } from '@/components/learned-boosts-editor'
+import { LearningPolicyComparison } from '@/components/learning-policy-comparison'
+import { ExperimentResults } from '@/components/experiment-results'
 import { cn } from '@/lib/utils'
+import { DEFAULT_LEXICAL_WEIGHT } from '@/lib/bm25'
+import { DEFAULT_THRESHOLD, MAX_LEARNED_BOOST, hasActiveLearnedBoosts } from '@/lib/learning'
+import { DEFAULT_ROCCHIO_WEIGHTS } from '@/lib/relevance-feedback'
+import { DEFAULT_CLASSIFIER_WEIGHT, MIN_EXAMPLES_PER_CLASS } from '@/lib/relevance-classifier'
+import type { FilterExclusions } from '@/lib/search-filters'
+import type {
+  BoostOverrides,
+  ExperimentVariantResults,
+  FeedbackReplayReport,
+  InboxFilters,
+  InboxLearningMetrics,
+  InboxQueryVector,
+  InboxRelevanceModel,
+  PromptRevision,
+  RocchioWeights,
+  ThresholdChange,
+} from '@/types'
 
 interface MatchingSettingsProps {
   globalThreshold: number
@@ -34,6 +56,31 @@ interface MatchingSettingsProps {
     matchingAtThreshold: number
     scoreDistribution?: { range: string; count: number }[]
   }
+  filters?: InboxFilters
+  onFiltersChange?: (filters: InboxFilters) => void
+  filterExclusions?: FilterExclusions
+  lexicalWeight?: number
+  onLexicalWeightChange?: (weight: number) => void
+  promptRevisions?: PromptRevision[]
+  currentRevisionId?: string
+  revisionFeedback?: Record<string, { saved: number; hidden: number }>
+  onRollbackPrompt?: (revisionId: string) => void
+  learningMetrics?: InboxLearningMetrics
+  boostOverrides?: BoostOverrides
+  onBoostOverridesChange?: (overrides: BoostOverrides) => void
+  learnedEmbedding?: InboxQueryVector // Only when learned for the current prompt
+  rocchioWeights?: RocchioWeights
+  onRocchioWeightsChange?: (weights: RocchioWeights) => void
+  onResetLearnedEmbedding?: () => void
+  relevanceModel?: InboxRelevanceModel
+  classifierWeight?: number
+  onClassifierWeightChange?: (weight: number) => void
+  onRetrainModel?: () => void
+  onReleaseThreshold?: (reset: boolean) => void // reset: back to the default threshold
+  onReplayFeedback?: () => Promise<FeedbackReplayReport>
+  defaultThreshold?: number // Threshold Reset to Defaults returns to (set by the inbox's ranking variant)
+  experimentVariantId?: string
+  onLoadExperimentResults?: () => Promise<ExperimentVariantResults[]>
 }
 
 export function MatchingSettings({
@@ -44,15 +91,81 @@ export function MatchingSettings({
   learningEnabled,
   onLearningEnabledChange,
   resultStats,
+  filters,
+  onFiltersChange,
+  filterExclusions,
+  lexicalWeight = DEFAULT_LEXICAL_WEIGHT,
+  onLexicalWeightChange,
+  promptRevisions,
+  currentRevisionId,
+  revisionFeedback,
+  onRollbackPrompt,
+  learningMetrics,
+  boostOverrides,
+  onBoostOverridesChange,
+  learnedEmbedding,
+  rocchioWeights = DEFAULT_ROCCHIO_WEIGHTS,
+  onRocchioWeightsChange,
+  onResetLearnedEmbedding,
+  relevanceModel,
+  classifierWeight = DEFAULT_CLASSIFIER_WEIGHT,
+  onClassifierWeightChange,
+  onRetrainModel,
+  onReleaseThreshold,
+  onReplayFeedback,
+  defaultThreshold = DEFAULT_THRESHOLD,
+  experimentVariantId,
+  onLoadExperimentResults,
 }: MatchingSettingsProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [localThreshold, setLocalThreshold] = useState(globalThreshold)
+  const [localFilters, setLocalFilters] = useState<InboxFilters>(filters || {})
+  const [localLexicalWeight, setLocalLexicalWeight] = useState(Math.round(lexicalWeight * 100))
+  const [localBoostOverrides, setLocalBoostOverrides] = useState<BoostOverrides>(boostOverrides || {})
+  const [localRocchioWeights, setLocalRocchioWeights] = useState(rocchioWeights)
+  const [localClassifierWeight, setLocalClassifierWeight] = useState(Math.round(classifierWeight * 100))
 
   // Sync localThreshold when globalThreshold prop changes (e.g., switching inboxes)
   useEffect(() => {
     setLocalThreshold(globalThreshold)
   }, [globalThreshold])
 
+  // Sync localFilters when the inbox's filters change
+  useEffect(() => {
+    setLocalFilters(filters || {})
+  }, [filters])
+
+  // Sync localLexicalWeight when the inbox's blend weight changes
+  useEffect(() => {
+    setLocalLexicalWeight(Math.round(lexicalWeight * 100))
+  }, [lexicalWeight])
+
+  // Sync localBoostOverrides when the inbox's overrides change
+  useEffect(() => {
+    setLocalBoostOverrides(boostOverrides || {})
+  }, [boostOverrides])
+
+  // Sync localRocchioWeights when the inbox's weights change
+  useEffect(() => {
+    setLocalRocchioWeights(rocchioWeights)
+  }, [rocchioWeights])
+
+  // Sync localClassifierWeight when the inbox's blend weight changes
+  useEffect(() => {
+    setLocalClassifierWeight(Math.round(classifierWeight * 100))
+  }, [classifierWeight])
+
+  const rocchioWeightsChanged =
+    localRocchioWeights.saved !== rocchioWeights.saved || localRocchioWeights.hidden !== rocchioWeights.hidden
+
+  const filtersChanged = JSON.stringify(localFilters) !== JSON.stringify(filters || {})
+  const boostOverridesChanged = JSON.stringify(localBoostOverrides) !== JSON.stringify(boostOverrides || {})
+  const hasBoostOverrides = !!(boostOverrides?.authority || boostOverrides?.classification)
+
+  const handleApplyFilters = () => {
+    onFiltersChange?.(localFilters)
+  }
+
   const handleThresholdChange = (value: number[]) => {
     setLocalThreshold(value[0])
   }
@@ -62,6 +175,16 @@ export function MatchingSettings({
     setIsOpen(false) // Close sheet after applying
   }
 
+  const thresholdOverride = learningMetrics?.thresholdOverride
+  const recentThresholdChanges = (learningMetrics?.thresholdHistory ?? []).slice(-5).reverse()
+
+  const thresholdSourceLabel: Record<ThresholdChange['source'], string> = {
+    learned: 'Learned',
+    manual: 'Set by you',
+    widen: 'Widened',
+    reset: 'Reset',
+  }
+
   const getThresholdColor = (threshold: number) => {
     if (threshold <= 30) return 'text-green-600'
     if (threshold <= 50) return 'text-yellow-600'
@@ -136,6 +259,41 @@ export function MatchingSettings({
               </Button>
             )}
 
+            {onReleaseThreshold && (
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">
+                  {thresholdOverride
+                    ? `${thresholdSourceLabel[thresholdOverride.source]} - learning paused`
+                    : 'Adjusted by learning'}
+                </span>
+                {thresholdOverride && (
+                  <Button variant="outline" size="sm" onClick={() => onReleaseThreshold(false)}>
+                    Let Learning Adjust
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {recentThresholdChanges.length > 0 && (
+              <div className="space-y-1">
+                {recentThresholdChanges.map(change => (
+                  <div key={change.timestamp} className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span title={change.reason}>
+                      {thresholdSourceLabel[change.source]}: {change.previous}% → {change.threshold}%
+                    </span>
+                    <span>
+                      {new Date(change.timestamp).toLocaleString('en-GB', {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="bg-muted/50 rounded-lg p-3 text-sm">
               <div className="flex items-start gap-2">
                 <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
@@ -147,6 +305,52 @@ export function MatchingSettings({
             </div>
           </div>
 
+          {/* Keyword Matching (hybrid BM25 + semantic) */}
+          {onLexicalWeightChange && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">Keyword Weight</Label>
+                <Badge variant="secondary" className="text-lg font-bold">
+                  {localLexicalWeight}%
+                </Badge>
+              </div>
+
+              <Slider
+                value={[localLexicalWeight]}
+                onValueChange={(value) => setLocalLexicalWeight(value[0])}
+                min={0}
+                max={100}
+                step={5}
+                className="w-full"
+              />
+
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>0% (Meaning only)</span>
+                <span>100% (Exact terms count most)</span>
+              </div>
+
+              {localLexicalWeight !== Math.round(lexicalWeight * 100) && (
+                <Button
+                  onClick={() => onLexicalWeightChange(localLexicalWeight / 100)}
+                  className="w-full"
+                  size="sm"
+                >
+                  Apply Keyword Weight ({localLexicalWeight}%)
+                </Button>
+              )}
+
+              <div className="bg-muted/50 rounded-lg p-3 text-sm">
+                <div className="flex items-start gap-2">
+                  <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <p className="text-muted-foreground">
+                    Boosts contracts whose title or description contains your exact search terms,
+                    such as "pest control" or a framework name.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Results Preview */}
           {resultStats && (
             <div className="space-y-3">
@@ -156,6 +360,12 @@ export function MatchingSettings({
                   <span className="text-muted-foreground">Total contracts:</span>
                   <span className="font-semibold">{resultStats.totalContracts}</span>
                 </div>
+                {filterExclusions && filterExclusions.total > 0 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Excluded by filters:</span>
+                    <span className="font-semibold">{filterExclusions.total}</span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">Matching at {globalThreshold}%:</span>
                   <span className="font-semibold text-primary">{resultStats.matchingAtThreshold}</span>
@@ -181,6 +391,249 @@ export function MatchingSettings({
             </div>
           )}
 
+          {/* Structured Filters */}
+          {onFiltersChange && (
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">Filters</Label>
+              <InboxFiltersEditor
+                filters={localFilters}
+                onChange={setLocalFilters}
+                exclusions={filtersChanged ? undefined : filterExclusions}
+                idPrefix="settings-filters"
+              />
+              {filtersChanged && (
+                <Button onClick={handleApplyFilters} className="w-full" size="sm">
+                  Apply Filters
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Learned Boosts (buyer authority and classification) */}
+          {onBoostOverridesChange && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">Buyer Boosts</Label>
+                <Badge variant="secondary" className="text-xs">
+                  {hasActiveLearnedBoosts(learningMetrics) ? 'Learning active' : 'Learning'}
+                </Badge>
+              </div>
+              <LearnedBoostsEditor
+                authorityBoosts={learningMetrics?.authorityBoosts ?? {}}
+                classificationBoosts={learningMetrics?.classificationBoosts ?? {}}
+                overrides={localBoostOverrides}
+                onChange={setLocalBoostOverrides}
+              />
+              {boostOverridesChanged && (
+                <Button onClick={() => onBoostOverridesChange(localBoostOverrides)} className="w-full" size="sm">
+                  Apply Boosts
+                </Button>
+              )}
+              <div className="bg-muted/50 rounded-lg p-3 text-sm">
+                <div className="flex items-start gap-2">
+                  <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <p className="text-muted-foreground">
+                    Buyers you save from more often than usual score higher, up to ±{MAX_LEARNED_BOOST} points.
+                    {!hasActiveLearnedBoosts(learningMetrics) && ' Learned boosts apply after 10 saves or hides.'}
+                    {' '}Enter a value to override one; 0 turns it off.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Relevance Feedback (Rocchio) */}
+          {onRocchioWeightsChange && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">Relevance Feedback</Label>
+                <Badge variant="secondary" className="text-xs">
+                  {learnedEmbedding ? 'Active' : 'Not learned yet'}
+                </Badge>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {learnedEmbedding
+                  ? `Search is tuned by ${learnedEmbedding.saved} saved and ${learnedEmbedding.hidden} hidden contracts.`
+                  : 'Save or hide contracts to teach this inbox what you mean.'}
+              </p>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>Pull towards saved</span>
+                  <span className="font-medium">{Math.round(localRocchioWeights.saved * 100)}%</span>
+                </div>
+                <Slider
+                  value={[Math.round(localRocchioWeights.saved * 100)]}
+                  onValueChange={(value) => setLocalRocchioWeights({ ...localRocchioWeights, saved: value[0] / 100 })}
+                  min={0}
+                  max={100}
+                  step={5}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>Push away from hidden</span>
+                  <span className="font-medium">{Math.round(localRocchioWeights.hidden * 100)}%</span>
+                </div>
+                <Slider
+                  value={[Math.round(localRocchioWeights.hidden * 100)]}
+                  onValueChange={(value) => setLocalRocchioWeights({ ...localRocchioWeights, hidden: value[0] / 100 })}
+                  min={0}
+                  max={100}
+                  step={5}
+                />
+              </div>
+
+              {rocchioWeightsChanged && (
+                <Button onClick={() => onRocchioWeightsChange(localRocchioWeights)} className="w-full" size="sm">
+                  Apply Feedback Weights
+                </Button>
+              )}
+
+              {onResetLearnedEmbedding && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={!learnedEmbedding}
+                  onClick={onResetLearnedEmbedding}
+                >
+                  <RotateCcw className="h-3 w-3 mr-2" />
+                  Reset to Prompt Only
+                </Button>
+              )}
+
+              <div className="bg-muted/50 rounded-lg p-3 text-sm">
+                <div className="flex items-start gap-2">
+                  <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <p className="text-muted-foreground">
+                    Saved contracts move the search towards similar notices; hidden ones move it away.
+                    Resetting forgets feedback given so far, but keeps your saved and hidden contracts.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Relevance Model (logistic regression on feedback) */}
+          {onClassifierWeightChange && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label className="text-base font-semibold">Relevance Model</Label>
+                <Badge variant="secondary" className="text-xs">
+                  {relevanceModel ? 'Trained' : 'Not trained'}
+                </Badge>
+              </div>
+
+              {relevanceModel ? (
+                <div className="bg-muted/30 rounded-lg p-4 space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Trained on:</span>
+                    <span className="font-semibold">
+                      {relevanceModel.evaluation.saved} saved, {relevanceModel.evaluation.hidden} hidden
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Accuracy:</span>
+                    <span className="font-semibold">{Math.round(relevanceModel.evaluation.accuracy * 100)}%</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">AUC:</span>
+                    <span className="font-semibold">
+                      {relevanceModel.evaluation.auc !== null ? relevanceModel.evaluation.auc.toFixed(2) : '—'}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Log loss:</span>
+                    <span className="font-semibold">{relevanceModel.evaluation.logLoss.toFixed(3)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground pt-1">
+                    {relevanceModel.evaluation.folds}-fold cross-validated · trained{' '}
+                    {new Date(relevanceModel.trainedAt).toLocaleString('en-GB', {
+                      day: 'numeric',
+                      month: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Trains once you have saved and hidden at least {MIN_EXAMPLES_PER_CLASS} contracts each.
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span>Blend weight</span>
+                  <span className="font-medium">{localClassifierWeight}%</span>
+                </div>
+                <Slider
+                  value={[localClassifierWeight]}
+                  onValueChange={(value) => setLocalClassifierWeight(value[0])}
+                  min={0}
+                  max={100}
+                  step={5}
+                />
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>0% (Similarity only)</span>
+                  <span>100% (Model only)</span>
+                </div>
+              </div>
+
+              {localClassifierWeight !== Math.round(classifierWeight * 100) && (
+                <Button
+                  onClick={() => onClassifierWeightChange(localClassifierWeight / 100)}
+                  className="w-full"
+                  size="sm"
+                >
+                  Apply Blend Weight ({localClassifierWeight}%)
+                </Button>
+              )}
+
+              {onRetrainModel && (
+                <Button variant="outline" size="sm" className="w-full" onClick={onRetrainModel}>
+                  <RefreshCw className="h-3 w-3 mr-2" />
+                  Retrain Now
+                </Button>
+              )}
+
+              <div className="bg-muted/50 rounded-lg p-3 text-sm">
+                <div className="flex items-start gap-2">
+                  <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <p className="text-muted-foreground">
+                    Predicts whether you'll save a contract from its content, value, buyer type and
+                    time to close. Retrains after each save or hide.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Prompt Revisions */}
+          {onRollbackPrompt && promptRevisions && promptRevisions.length > 0 && (
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">Prompt Revisions</Label>
+              <PromptRevisionList
+                revisions={promptRevisions}
+                currentRevisionId={currentRevisionId}
+                feedbackByRevision={revisionFeedback}
+                onRollback={onRollbackPrompt}
+              />
+              <div className="bg-muted/50 rounded-lg p-3 text-sm">
+                <div className="flex items-start gap-2">
+                  <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <p className="text-muted-foreground">
+                    Rolling back re-runs the search with an earlier prompt. Feedback stays
+                    with the revision it was given on.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Debug Options */}
           <div className="space-y-3">
             <Label className="text-base font-semibold">Debug Options</Label>
@@ -267,16 +720,67 @@ export function MatchingSettings({
                 </p>
               </div>
             )}
+
+            {onReplayFeedback && (
+              <>
+                <LearningPolicyComparison onReplay={onReplayFeedback} />
+                <div className="bg-muted/50 rounded-lg p-3 text-sm">
+                  <div className="flex items-start gap-2">
+                    <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                    <p className="text-muted-foreground">
+                      Replays your saves and hides in order, showing how many contracts you went on
+                      to save each way of learning would have shown, and how many hides it would have
+                      filtered out.
+                    </p>
+                  </div>
+                </div>
+              </>
+            )}
           </div>
 
+          {/* Ranking Experiment */}
+          {onLoadExperimentResults && (
+            <div className="space-y-4">
+              <Label className="text-base font-semibold">Ranking Experiment</Label>
+
+              <ExperimentResults variantId={experimentVariantId} onLoad={onLoadExperimentResults} />
+
+              <div className="bg-muted/50 rounded-lg p-3 text-sm">
+                <div className="flex items-start gap-2">
+                  <Info className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <p className="text-muted-foreground">
+                    Each inbox created since the experiment started ranks with one variant. Saves and
+                    hides are counted against the variant that ranked the contract, across those inboxes.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Reset Button */}
           <div className="pt-4 border-t">
             <Button
               variant="outline"
               className="w-full"
               onClick={() => {
-                setLocalThreshold(30)
-                onThresholdChange(30)
+                setLocalThreshold(defaultThreshold)
+                if (onReleaseThreshold) {
+                  onReleaseThreshold(true)
+                } else {
+                  onThresholdChange(defaultThreshold)
+                }
+                if (onLexicalWeightChange && lexicalWeight !== DEFAULT_LEXICAL_WEIGHT) {
+                  onLexicalWeightChange(DEFAULT_LEXICAL_WEIGHT)
+                }
+                if (onBoostOverridesChange && hasBoostOverrides) {
+                  onBoostOverridesChange({})
+                }
+                if (onClassifierWeightChange && classifierWeight !== DEFAULT_CLASSIFIER_WEIGHT) {
+                  onClassifierWeightChange(DEFAULT_CLASSIFIER_WEIGHT)
+                }
+                if (onRocchioWeightsChange && JSON.stringify(rocchioWeights) !== JSON.stringify(DEFAULT_ROCCHIO_WEIGHTS)) {
+                  onRocchioWeightsChange(DEFAULT_ROCCHIO_WEIGHTS)
+                }
                 onDebugModeChange({
                   showRawScores: false,
                   showExplanations: false,
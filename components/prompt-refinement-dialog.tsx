@@ -0,0 +1,233 @@
+import { useState, useEffect } from "react"
+import { Sparkles } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Spinner } from "@/components/ui/spinner"
+import { PromptRevisionList } from "@/components/prompt-revision-list"
+import { diffPrompts } from "@/lib/prompt-refinement"
+import { cn } from "@/lib/utils"
+import type { PromptChangePreview, PromptRevision } from "@/types"
+
+interface PromptRefinementDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  inboxName: string
+  currentPrompt: string
+  hideReasons: string[] // Unused high-score hide reasons; empty = history only
+  revisions: PromptRevision[]
+  currentRevisionId?: string
+  onSuggest: () => Promise<string>
+  onPreview: (prompt: string) => Promise<PromptChangePreview>
+  onApply: (prompt: string, resultCount?: number) => Promise<void>
+  onRollback: (revisionId: string) => Promise<void>
+}
+
+export function PromptRefinementDialog({
+  isOpen,
+  onClose,
+  inboxName,
+  currentPrompt,
+  hideReasons,
+  revisions,
+  currentRevisionId,
+  onSuggest,
+  onPreview,
+  onApply,
+  onRollback,
+}: PromptRefinementDialogProps) {
+  const [suggestion, setSuggestion] = useState<string | null>(null)
+  const [preview, setPreview] = useState<PromptChangePreview | null>(null)
+  const [status, setStatus] = useState<"idle" | "suggesting" | "previewing" | "applying">("idle")
+  const [error, setError] = useState<string | null>(null)
+
+  // Generate a suggestion (and its preview) each time the dialog opens with reasons to use
+  useEffect(() => {
+    setSuggestion(null)
+    setPreview(null)
+    setError(null)
+
+    if (!isOpen || hideReasons.length === 0) {
+      setStatus("idle")
+      return
+    }
+
+    let cancelled = false
+
+    const suggest = async () => {
+      try {
+        setStatus("suggesting")
+        const refined = await onSuggest()
+        if (cancelled) return
+        setSuggestion(refined)
+
+        setStatus("previewing")
+        const change = await onPreview(refined)
+        if (cancelled) return
+        setPreview(change)
+      } catch (err) {
+        if (cancelled) return
+        console.error("[PromptRefinementDialog] Error generating refinement:", err)
+        setError(err instanceof Error ? err.message : "Failed to generate a refinement")
+      } finally {
+        if (!cancelled) setStatus("idle")
+      }
+    }
+
+    suggest()
+
+    return () => {
+      cancelled = true
+    }
+    // Suggest once per opening, not when parent callbacks are recreated
+  }, [isOpen])
+
+  const handleApply = async () => {
+    if (!suggestion) return
+    setStatus("applying")
+    try {
+      await onApply(suggestion, preview?.after)
+      onClose()
+    } finally {
+      setStatus("idle")
+    }
+  }
+
+  const handleRollback = async (revisionId: string) => {
+    setStatus("applying")
+    try {
+      await onRollback(revisionId)
+      onClose()
+    } finally {
+      setStatus("idle")
+    }
+  }
+
+  const isUnchanged = suggestion !== null && suggestion.trim() === currentPrompt.trim()
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{hideReasons.length > 0 ? "Refine this inbox" : "Prompt history"}</DialogTitle>
+          <DialogDescription className="pt-2">
+            {hideReasons.length > 0
+              ? `You hid ${hideReasons.length} high-match contracts in "${inboxName}". A refined prompt can exclude what you don't want.`
+              : `Prompt history for "${inboxName}".`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          {hideReasons.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-muted-foreground">Why you hid them</p>
+              <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-0.5">
+                {hideReasons.slice(-5).map((reason, i) => (
+                  <li key={i}>{reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {status === "suggesting" && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Spinner />
+              Generating a refined prompt...
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+
+          {suggestion && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">Before → after</p>
+              <p className="text-sm leading-relaxed rounded-md border border-border p-3">
+                {diffPrompts(currentPrompt, suggestion).map((segment, i) => (
+                  <span
+                    key={i}
+                    className={cn(
+                      segment.change === "added" && "bg-chart-2/20 text-foreground rounded-sm",
+                      segment.change === "removed" && "bg-destructive/10 text-destructive line-through rounded-sm"
+                    )}
+                  >
+                    {segment.text}{" "}
+                  </span>
+                ))}
+              </p>
+              {isUnchanged && (
+                <p className="text-xs text-muted-foreground">The suggestion matches your current prompt.</p>
+              )}
+            </div>
+          )}
+
+          {status === "previewing" && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Spinner />
+              Previewing result changes...
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">
+                Results: {preview.before} → {preview.after}
+                {" "}(<span className="text-chart-2">+{preview.added}</span>,{" "}
+                <span className="text-destructive">−{preview.removed}</span>)
+              </p>
+              {preview.removedTitles.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Would drop out</p>
+                  <ul className="text-xs list-disc pl-4 space-y-0.5">
+                    {preview.removedTitles.map((title, i) => <li key={i} className="truncate">{title}</li>)}
+                  </ul>
+                </div>
+              )}
+              {preview.addedTitles.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Would appear</p>
+                  <ul className="text-xs list-disc pl-4 space-y-0.5">
+                    {preview.addedTitles.map((title, i) => <li key={i} className="truncate">{title}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          {hideReasons.length === 0 && revisions.length <= 1 && (
+            <p className="text-sm text-muted-foreground">
+              This inbox still uses its original prompt. Hide high-match contracts with a reason and a refinement will be offered here.
+            </p>
+          )}
+
+          {revisions.length > 1 && (
+            <div className="space-y-2 border-t border-border pt-4">
+              <p className="text-xs font-medium text-muted-foreground">Prompt history</p>
+              <PromptRevisionList
+                revisions={revisions}
+                currentRevisionId={currentRevisionId}
+                onRollback={handleRollback}
+                disabled={status !== "idle"}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 sm:gap-2">
+          <Button variant="outline" onClick={onClose}>
+            {suggestion ? "Cancel" : "Close"}
+          </Button>
+          {hideReasons.length > 0 && (
+            <Button
+              onClick={handleApply}
+              disabled={!suggestion || isUnchanged || status !== "idle"}
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Apply refinement
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
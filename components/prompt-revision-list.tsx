@@ -0,0 +1,79 @@
+import { RotateCcw } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import type { PromptRevision } from "@/types"
+
+interface PromptRevisionListProps {
+  revisions: PromptRevision[]
+  currentRevisionId?: string
+  feedbackByRevision?: Record<string, { saved: number; hidden: number }>
+  onRollback: (revisionId: string) => void
+  disabled?: boolean
+}
+
+const sourceLabels: Record<PromptRevision['source'], string> = {
+  manual: "Manual",
+  refinement: "AI refinement",
+  template: "Template",
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+export function PromptRevisionList({
+  revisions,
+  currentRevisionId,
+  feedbackByRevision = {},
+  onRollback,
+  disabled = false,
+}: PromptRevisionListProps) {
+  // Newest first
+  const ordered = [...revisions].reverse()
+
+  return (
+    <div className="space-y-3">
+      {ordered.map((revision) => {
+        const isCurrent = revision.id === currentRevisionId
+        const feedback = feedbackByRevision[revision.id]
+
+        return (
+          <div key={revision.id} className="flex items-start gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-0.5 flex-wrap">
+                <Badge variant={isCurrent ? "default" : "outline"} className="text-[10px] px-1.5 py-0">
+                  {isCurrent ? "Current" : sourceLabels[revision.source]}
+                </Badge>
+                <span className="text-xs text-muted-foreground">
+                  {revision.author} · {formatDate(revision.createdAt)}
+                </span>
+              </div>
+              <p className="text-xs line-clamp-2">{revision.prompt}</p>
+              <p className="text-[11px] text-muted-foreground mt-0.5">
+                {isCurrent && `${sourceLabels[revision.source]} · `}
+                {revision.resultCount !== undefined ? `${revision.resultCount} results` : "Not searched yet"}
+                {feedback && ` · ${feedback.saved} saved, ${feedback.hidden} hidden`}
+              </p>
+            </div>
+            {!isCurrent && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs flex-shrink-0"
+                disabled={disabled}
+                onClick={() => onRollback(revision.id)}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Roll back
+              </Button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
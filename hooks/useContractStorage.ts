@@ -6,29 +6,96 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import type { Contract, ProcessingState } from '@/types'
+import type { Contract, IngestionSummary, ProcessingState, UserFeedback } from '@/types'
 import {
-  getAllContracts,
-  saveContracts,
-  hasContracts,
   markContractAsSaved,
+  markContractAsUnsaved,
   markContractAsHidden,
   markContractAsRead,
   restoreContract,
 } from '@/lib/contract-storage'
-import { loadLocalContracts } from '@/lib/csv-loader'
-import { recordFeedback } from '@/lib/feedback-storage'
+import {
+  ingestSourceInWorker,
+  loadContractsInWorker,
+  migrateEmbeddingsInWorker,
+  refreshContractsInWorker,
+  scheduleModelLearningInWorker,
+} from '@/lib/search-client'
+import {
+  implicitSignal,
+  recordFeedback,
+  recordImpressions,
+  recordViewEngagement,
+  retractFeedback,
+} from '@/lib/feedback-storage'
 import { updateInboxLearning } from '@/lib/learning'
 
+// Where feedback was given - inbox, score shown, and the prompt revision in use
+type FeedbackContext = { inboxId?: string; matchScore?: number; promptRevisionId?: string; variantId?: string }
+
+/**
+ * Fold new feedback into the inbox's learning now; its query vector and
+ * relevance model are relearned in the search worker once feedback settles
+ */
+async function relearn(inboxId: string): Promise<void> {
+  await updateInboxLearning(inboxId)
+  scheduleModelLearningInWorker(inboxId)
+}
+
 export function useContractStorage() {
   const [contracts, setContracts] = useState<Contract[]>([])
   const [loading, setLoading] = useState(true)
   const [processingState, setProcessingState] = useState<ProcessingState>('idle')
   const [embeddingProgress, setEmbeddingProgress] = useState({ current: 0, total: 0 })
   const [error, setError] = useState<string | null>(null)
+  const [ingestionSummary, setIngestionSummary] = useState<IngestionSummary | null>(null)
+
+  /**
+   * Ingest the CSV into storage (upsert by Guid, keeping UI state)
+   * Runs in the search worker; shows loading stages only on the first load,
+   * later syncs run in the background
+   */
+  const syncFromSource = useCallback(async (isInitialLoad: boolean) => {
+    const { contracts: ingested, summary } = await ingestSourceInWorker(
+      isInitialLoad
+        ? (current, total) => {
+            setProcessingState('embedding')
+            setEmbeddingProgress({ current, total })
+          }
+        : undefined
+    )
+
+    setContracts(ingested)
+
+    if (!isInitialLoad) {
+      setIngestionSummary(summary)
+    }
+
+    return summary
+  }, [])
+
+  /**
+   * Re-embed anything stored with a previous embedding model
+   * Progress is only shown when there is something to migrate
+   */
+  const migrateEmbeddings = useCallback(async () => {
+    let migrating = false
+
+    const summary = await migrateEmbeddingsInWorker((current, total) => {
+      migrating = true
+      setProcessingState('migrating')
+      setEmbeddingProgress({ current, total })
+    })
+
+    if (migrating) {
+      console.log('[useContractStorage] Embedding migration complete:', summary)
+      setProcessingState('complete')
+    }
+  }, [])
 
   /**
-   * Load contracts from IndexedDB or CSV
+   * Load contracts from IndexedDB, pick up any changes in the CSV, then
+   * migrate embeddings if the embedding model changed
    */
   const loadContracts = useCallback(async () => {
     try {
@@ -36,64 +103,25 @@ export function useContractStorage() {
       setError(null)
 
       // Check if we already have contracts in storage
-      const exists = await hasContracts()
+      const stored = await loadContractsInWorker()
 
-      if (exists) {
-        console.log('[useContractStorage] Loading contracts from storage')
-        const stored = await getAllContracts()
+      if (stored.length > 0) {
+        console.log('[useContractStorage] Loaded', stored.length, 'contracts from storage')
         setContracts(stored)
+        setLoading(false)
+
+        // Upsert any new CSV drop without blocking the UI
+        console.log('[useContractStorage] Checking CSV for changes')
+        await syncFromSource(false)
       } else {
         console.log('[useContractStorage] No contracts in storage, loading from CSV')
         setProcessingState('loading')
 
-        // Load from CSV
-        const loaded = await loadLocalContracts()
-        console.log('[useContractStorage] Loaded', loaded.length, 'contracts from CSV')
-
-        // Load pre-generated embeddings from JSON
-        console.log('[useContractStorage] Loading pre-generated embeddings')
-        setProcessingState('embedding')
-
-        try {
-          const response = await fetch('/data/contract-embeddings.json')
-
-          if (!response.ok) {
-            throw new Error('Failed to load pre-generated embeddings')
-          }
-
-          const embeddings: Array<{ id: string; embedding: number[] }> = await response.json()
-          console.log('[useContractStorage] Loaded', embeddings.length, 'pre-generated embeddings')
-
-          // Create embedding lookup map for fast access
-          const embeddingMap = new Map(embeddings.map(e => [e.id, e.embedding]))
-
-          // Merge embeddings with contracts
-          const contractsWithEmbeddings = loaded.map((contract, index) => {
-            const embedding = embeddingMap.get(contract.id)
-            if (embedding) {
-              setEmbeddingProgress({ current: index + 1, total: loaded.length })
-            }
-            return {
-              ...contract,
-              embedding: embedding || undefined,
-            }
-          })
-
-          console.log('[useContractStorage] Merged embeddings with contracts')
-
-          // Save to IndexedDB
-          await saveContracts(contractsWithEmbeddings)
-          setContracts(contractsWithEmbeddings)
-
-          setProcessingState('complete')
-        } catch (embeddingError) {
-          console.warn('[useContractStorage] Failed to load pre-generated embeddings:', embeddingError)
-          // Fallback: save contracts without embeddings
-          await saveContracts(loaded)
-          setContracts(loaded)
-          setProcessingState('complete')
-        }
+        await syncFromSource(true)
+        setProcessingState('complete')
       }
+
+      await migrateEmbeddings()
     } catch (err) {
       console.error('[useContractStorage] Error loading contracts:', err)
       setError(err instanceof Error ? err.message : 'Failed to load contracts')
@@ -101,45 +129,86 @@ export function useContractStorage() {
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [syncFromSource, migrateEmbeddings])
 
   /**
    * Save a contract
+   * Returns the recorded feedback, so an undo can retract it
    */
   const saveContract = useCallback(async (
     id: string,
-    context?: { inboxId?: string; matchScore?: number }
-  ) => {
+    context?: FeedbackContext
+  ): Promise<UserFeedback | undefined> => {
     try {
       await markContractAsSaved(id)
+      refreshContractsInWorker([id]).catch(console.error)
 
       // Update local state
       setContracts(prev =>
         prev.map(c => (c.id === id ? { ...c, isSaved: true } : c))
       )
 
+      console.log('[useContractStorage] Contract saved:', id)
+
       // Record feedback for learning
       if (context?.inboxId && context?.matchScore !== undefined) {
-        await recordFeedback(context.inboxId, id, 'saved', context.matchScore)
+        const feedback = await recordFeedback(context.inboxId, id, 'saved', context.matchScore, {
+          promptRevisionId: context.promptRevisionId,
+          variantId: context.variantId,
+        })
         // Update learning metrics
-        await updateInboxLearning(context.inboxId)
+        await relearn(context.inboxId)
+        return feedback
       }
-
-      console.log('[useContractStorage] Contract saved:', id)
     } catch (err) {
       console.error('[useContractStorage] Error saving contract:', err)
       setError(err instanceof Error ? err.message : 'Failed to save contract')
     }
   }, [])
 
+  /**
+   * Remove a contract from saved
+   * Returns the recorded feedback, so an undo can retract it
+   */
+  const unsaveContract = useCallback(async (
+    id: string,
+    context?: FeedbackContext
+  ): Promise<UserFeedback | undefined> => {
+    try {
+      await markContractAsUnsaved(id)
+      refreshContractsInWorker([id]).catch(console.error)
+
+      // Update local state
+      setContracts(prev =>
+        prev.map(c => (c.id === id ? { ...c, isSaved: false } : c))
+      )
+
+      console.log('[useContractStorage] Contract unsaved:', id)
+
+      // Record feedback for learning (supersedes the save)
+      if (context?.inboxId && context?.matchScore !== undefined) {
+        const feedback = await recordFeedback(context.inboxId, id, 'unsaved', context.matchScore, {
+          promptRevisionId: context.promptRevisionId,
+          variantId: context.variantId,
+        })
+        await relearn(context.inboxId)
+        return feedback
+      }
+    } catch (err) {
+      console.error('[useContractStorage] Error unsaving contract:', err)
+      setError(err instanceof Error ? err.message : 'Failed to unsave contract')
+    }
+  }, [])
+
   /**
    * Hide a contract (in a specific inbox if context provided)
+   * Returns the recorded feedback, so an undo can retract it
    */
   const hideContract = useCallback(async (
     id: string,
     reason?: string,
-    context?: { inboxId?: string; matchScore?: number }
-  ) => {
+    context?: FeedbackContext
+  ): Promise<UserFeedback | undefined> => {
     try {
       if (!context?.inboxId) {
         console.warn('[useContractStorage] Cannot hide contract without inbox context')
@@ -147,6 +216,7 @@ export function useContractStorage() {
       }
 
       await markContractAsHidden(id, context.inboxId, reason)
+      refreshContractsInWorker([id]).catch(console.error)
 
       // Update local state - add to hiddenInInboxes
       setContracts(prev =>
@@ -169,16 +239,19 @@ export function useContractStorage() {
         })
       )
 
+      console.log('[useContractStorage] Contract hidden in inbox:', id, context.inboxId)
+
       // Record feedback for learning
       if (context.matchScore !== undefined) {
-        await recordFeedback(context.inboxId, id, 'hidden', context.matchScore, {
+        const feedback = await recordFeedback(context.inboxId, id, 'hidden', context.matchScore, {
           hideReason: reason,
+          promptRevisionId: context.promptRevisionId,
+          variantId: context.variantId,
         })
         // Update learning metrics
-        await updateInboxLearning(context.inboxId)
+        await relearn(context.inboxId)
+        return feedback
       }
-
-      console.log('[useContractStorage] Contract hidden in inbox:', id, context.inboxId)
     } catch (err) {
       console.error('[useContractStorage] Error hiding contract:', err)
       setError(err instanceof Error ? err.message : 'Failed to hide contract')
@@ -187,36 +260,84 @@ export function useContractStorage() {
 
   /**
    * Mark contract as read
+   * Returns the recorded 'viewed' feedback, for recordEngagement when the contract closes
    */
   const markAsRead = useCallback(async (
     id: string,
-    context?: { inboxId?: string; matchScore?: number }
-  ) => {
+    context?: FeedbackContext
+  ): Promise<UserFeedback | undefined> => {
     try {
       await markContractAsRead(id)
+      refreshContractsInWorker([id]).catch(console.error)
 
       // Update local state
       setContracts(prev =>
-        prev.map(c => (c.id === id ? { ...c, isUnread: false, isNew: false } : c))
+        prev.map(c => (
+          c.id === id
+            ? { ...c, isUnread: false, isNew: false, lastViewedAt: new Date().toISOString() }
+            : c
+        ))
       )
 
+      console.log('[useContractStorage] Contract marked as read:', id)
+
       // Record feedback for learning
       if (context?.inboxId && context?.matchScore !== undefined) {
-        await recordFeedback(context.inboxId, id, 'viewed', context.matchScore)
+        return await recordFeedback(context.inboxId, id, 'viewed', context.matchScore, {
+          promptRevisionId: context.promptRevisionId,
+          variantId: context.variantId,
+        })
       }
-
-      console.log('[useContractStorage] Contract marked as read:', id)
     } catch (err) {
       console.error('[useContractStorage] Error marking contract as read:', err)
     }
   }, [])
 
+  /**
+   * Add dwell time and link clicks to a 'viewed' event once the contract closes
+   * Relearns only when the view turned out to be a signal (long enough, or link followed)
+   */
+  const recordEngagement = useCallback(async (
+    feedback: UserFeedback,
+    engagement: { viewDuration: number; externalLinkClicked: boolean }
+  ) => {
+    try {
+      const updated = await recordViewEngagement(feedback.id, engagement)
+      if (updated && implicitSignal(updated) && !implicitSignal(feedback)) {
+        await relearn(feedback.inboxId)
+      }
+    } catch (err) {
+      console.error('[useContractStorage] Error recording engagement:', err)
+    }
+  }, [])
+
+  /**
+   * Count contracts seen in an inbox's list; relearns if any became 'ignored'
+   */
+  const recordSeen = useCallback(async (
+    inboxId: string,
+    seen: Array<{ contractId: string; matchScore: number; variantId?: string }>,
+    promptRevisionId?: string
+  ) => {
+    const ignored = await recordImpressions(inboxId, seen, promptRevisionId)
+    if (ignored.length > 0) {
+      console.log('[useContractStorage] Contracts ignored in inbox:', inboxId, ignored.length)
+      await relearn(inboxId).catch(console.error)
+    }
+  }, [])
+
   /**
    * Restore a hidden contract (unhide in a specific inbox)
+   * With a match score in the context, records a 'restored' event that supersedes the hide
    */
-  const unhideContract = useCallback(async (id: string, inboxId: string) => {
+  const unhideContract = useCallback(async (
+    id: string,
+    inboxId: string,
+    context?: Omit<FeedbackContext, 'inboxId'>
+  ) => {
     try {
       await restoreContract(id, inboxId)
+      refreshContractsInWorker([id]).catch(console.error)
 
       // Update local state - remove from hiddenInInboxes
       setContracts(prev =>
@@ -239,6 +360,15 @@ export function useContractStorage() {
         })
       )
 
+      // Record feedback for learning
+      if (context?.matchScore !== undefined) {
+        await recordFeedback(inboxId, id, 'restored', context.matchScore, {
+          promptRevisionId: context.promptRevisionId,
+          variantId: context.variantId,
+        })
+        await relearn(inboxId)
+      }
+
       console.log('[useContractStorage] Contract restored in inbox:', id, inboxId)
     } catch (err) {
       console.error('[useContractStorage] Error restoring contract:', err)
@@ -246,12 +376,24 @@ export function useContractStorage() {
     }
   }, [])
 
+  /**
+   * Retract feedback the user undid, and relearn without it
+   */
+  const undoFeedback = useCallback(async (feedback: UserFeedback) => {
+    try {
+      await retractFeedback(feedback.id)
+      await relearn(feedback.inboxId)
+    } catch (err) {
+      console.error('[useContractStorage] Error undoing feedback:', err)
+    }
+  }, [])
+
   /**
    * Refresh contracts from storage
    */
   const refreshContracts = useCallback(async () => {
     try {
-      const stored = await getAllContracts()
+      const stored = await loadContractsInWorker({ reload: true })
       setContracts(stored)
     } catch (err) {
       console.error('[useContractStorage] Error refreshing contracts:', err)
@@ -269,10 +411,15 @@ export function useContractStorage() {
     processingState,
     embeddingProgress,
     error,
+    ingestionSummary,
     saveContract,
+    unsaveContract,
     hideContract,
     markAsRead,
+    recordEngagement,
+    recordSeen,
     unhideContract,
+    undoFeedback,
     refreshContracts,
   }
 }
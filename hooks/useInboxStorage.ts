@@ -5,14 +5,18 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import type { Inbox } from '@/types'
+import type { Inbox, InboxFilters, PromptRevision } from '@/types'
 import {
   getAllInboxes,
+  getInboxById,
   createInbox,
+  updateInbox,
+  updateInboxWith,
   deleteInbox,
   ensureDefaultInbox,
   updateUnreadCount,
 } from '@/lib/inbox-storage'
+import { onModelsLearned } from '@/lib/search-client'
 
 export function useInboxStorage() {
   const [inboxes, setInboxes] = useState<Inbox[]>([])
@@ -51,9 +55,14 @@ export function useInboxStorage() {
   /**
    * Create a new inbox
    */
-  const addInbox = useCallback(async (name: string, prompt: string) => {
+  const addInbox = useCallback(async (
+    name: string,
+    prompt: string,
+    filters?: InboxFilters,
+    promptSource?: PromptRevision['source']
+  ) => {
     try {
-      const inbox = await createInbox(name, prompt)
+      const inbox = await createInbox(name, prompt, false, filters, promptSource)
 
       setInboxes(prev => [...prev, inbox])
       setActiveInboxId(inbox.id)
@@ -67,6 +76,47 @@ export function useInboxStorage() {
     }
   }, [])
 
+  /**
+   * Update an existing inbox (e.g. filters) and sync local state
+   */
+  const editInbox = useCallback(async (id: string, updates: Partial<Inbox>) => {
+    try {
+      const updated = await updateInbox(id, updates)
+
+      if (updated) {
+        setInboxes(prev => prev.map(inbox => (inbox.id === id ? updated : inbox)))
+      }
+
+      console.log('[useInboxStorage] Updated inbox:', id)
+      return updated
+    } catch (err) {
+      console.error('[useInboxStorage] Error updating inbox:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update inbox')
+      throw err
+    }
+  }, [])
+
+  /**
+   * Update an inbox from its stored state and sync local state
+   * For changes derived from learning metrics, which feedback updates in storage
+   */
+  const editInboxWith = useCallback(async (id: string, update: (inbox: Inbox) => Partial<Inbox>) => {
+    try {
+      const updated = await updateInboxWith(id, update)
+
+      if (updated) {
+        setInboxes(prev => prev.map(inbox => (inbox.id === id ? updated : inbox)))
+      }
+
+      console.log('[useInboxStorage] Updated inbox from stored state:', id)
+      return updated
+    } catch (err) {
+      console.error('[useInboxStorage] Error updating inbox:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update inbox')
+      throw err
+    }
+  }, [])
+
   /**
    * Remove an inbox
    */
@@ -114,6 +164,15 @@ export function useInboxStorage() {
     loadInboxes()
   }, [loadInboxes])
 
+  // Models relearned in the background are stored on the inbox - reload it so
+  // searches use them (and the learning folded in since it was loaded)
+  useEffect(() => onModelsLearned(async id => {
+    const updated = await getInboxById(id)
+    if (updated) {
+      setInboxes(prev => prev.map(inbox => (inbox.id === id ? updated : inbox)))
+    }
+  }), [])
+
   return {
     inboxes,
     activeInbox,
@@ -122,6 +181,8 @@ export function useInboxStorage() {
     error,
     setActiveInboxId,
     addInbox,
+    editInbox,
+    editInboxWith,
     removeInbox,
     setUnreadCount,
     refreshInboxes: loadInboxes,
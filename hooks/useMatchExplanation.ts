@@ -0,0 +1,70 @@
+/**
+ * useMatchExplanation - Loads the "why this matches" text for an opened contract
+ * Explanations are fetched lazily (only for contracts the user opens) and
+ * cached in IndexedDB per inbox prompt, so reopening is instant and free
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { Contract, ExplanationSource } from '@/types'
+import { generateMatchExplanation } from '@/lib/vector-store'
+import { getCachedExplanation, saveCachedExplanation } from '@/lib/explanation-storage'
+
+export function useMatchExplanation(prompt: string | null, contract: Contract | null) {
+  const [explanation, setExplanation] = useState<string | null>(null)
+  const [source, setSource] = useState<ExplanationSource | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setExplanation(null)
+    setSource(null)
+
+    if (!prompt || !contract) {
+      setLoading(false)
+      return
+    }
+
+    // The user may open another contract before this one resolves
+    let cancelled = false
+    setLoading(true)
+
+    const load = async () => {
+      try {
+        const cached = await getCachedExplanation(prompt, contract)
+        if (cached) {
+          if (cancelled) return
+          setExplanation(cached.explanation)
+          setSource(cached.source)
+          return
+        }
+
+        const generated = await generateMatchExplanation(prompt, contract, contract.highlights)
+
+        // A template standing in for a failed request isn't cached, so the next open retries the LLM
+        if (!generated.fallback) {
+          await saveCachedExplanation(prompt, contract, generated.explanation, generated.source).catch(() => {
+            // Not cached - regenerated next time it's opened
+          })
+        }
+
+        if (cancelled) return
+        setExplanation(generated.explanation)
+        setSource(generated.source)
+      } catch (err) {
+        console.error('[useMatchExplanation] Error loading explanation:', err)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+
+    return () => {
+      cancelled = true
+    }
+    // Re-run only when a different contract or prompt is opened, not on every re-render
+  }, [prompt, contract?.id, contract?.description])
+
+  return { explanation, source, loading }
+}
@@ -1,13 +1,37 @@
 /**
  * useSemanticSearch - Hook for performing semantic search
+ * Ranking runs in the search worker; this hook only tracks request state
  */
 
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import type { Contract, SearchResult, Inbox } from '@/types'
-import { semanticSearch, isAPIKeyConfigured } from '@/lib/vector-store'
-import { applyLearning } from '@/lib/learning'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { Contract, SearchOptions, SearchResult, Inbox } from '@/types'
+import { isAPIKeyConfigured } from '@/lib/vector-store'
+import { searchInWorker } from '@/lib/search-client'
+import { buildHighlightSnippet } from '@/lib/highlights'
+import { isQueryVectorCurrent } from '@/lib/relevance-feedback'
+import { DEFAULT_THRESHOLD, getInboxThreshold } from '@/lib/learning'
+import { RANKING_EXPERIMENT, isInExperiment } from '@/lib/experiments'
+
+/**
+ * Search options for an inbox
+ */
+function getSearchOptions(inbox: Inbox | null): SearchOptions {
+  return {
+    limit: 1000, // Effectively unlimited for our dataset (623 contracts)
+    // Learned or user-set threshold, else the inbox's default (DEFAULT_THRESHOLD unless its variant sets one)
+    minScore: getInboxThreshold(inbox), // Adaptive threshold based on user behavior (30-70)
+    filters: inbox?.filters, // Structured filters applied before scoring
+    lexicalWeight: inbox?.matchingConfig?.lexicalWeight, // Keyword (BM25) blend weight
+    boostOverrides: inbox?.matchingConfig?.boostOverrides, // Manual authority/classification boosts
+    queryVector: inbox && isQueryVectorCurrent(inbox) ? inbox.learnedEmbedding : undefined, // Relevance feedback
+    relevanceModel: inbox?.relevanceModel, // Save/hide classifier blended into scores
+    classifierWeight: inbox?.matchingConfig?.classifierWeight,
+    // Ranking experiment variant, only while the experiment runs (inactive: everyone ranks with the control)
+    variantId: RANKING_EXPERIMENT.active && isInExperiment(inbox) ? inbox.experimentAssignment.variantId : undefined,
+  }
+}
 
 export function useSemanticSearch(
   query: string | null,
@@ -15,15 +39,36 @@ export function useSemanticSearch(
   enabled: boolean = true
 ) {
   const [results, setResults] = useState<SearchResult[]>([])
+  const [resultsQuery, setResultsQuery] = useState<string | null>(null)
   const [searching, setSearching] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  // Only the latest search may update state (earlier ones can resolve later)
+  const latestSearch = useRef(0)
+
+  // Read at search time, so editing inbox metadata (name, prompt history)
+  // doesn't re-run the search - only changes to searchKey do
+  const inboxRef = useRef(inbox)
+  inboxRef.current = inbox
+  const currentOptions = getSearchOptions(inbox)
+  const searchKey = JSON.stringify([
+    inbox?.id,
+    {
+      ...currentOptions,
+      // Versions rather than whole vectors and weights
+      queryVector: currentOptions.queryVector?.updatedAt,
+      relevanceModel: currentOptions.relevanceModel?.trainedAt,
+    },
+    inbox?.learningMetrics,
+  ])
+
   /**
    * Perform semantic search
    */
   const search = useCallback(async (searchQuery: string) => {
     if (!searchQuery || !enabled) {
       setResults([])
+      setResultsQuery(null)
       return
     }
 
@@ -32,51 +77,67 @@ export function useSemanticSearch(
       return
     }
 
+    const searchId = ++latestSearch.current
+
     try {
       setSearching(true)
       setError(null)
 
       console.log('[useSemanticSearch] Searching for:', searchQuery)
 
-      // Use dynamic threshold if available, otherwise default to 30 (lowered from 50 for better recall)
-      const dynamicThreshold = inbox?.learningMetrics?.dynamicMinScore ?? 30
+      const inbox = inboxRef.current
+      const options = getSearchOptions(inbox)
 
-      if (dynamicThreshold !== 30) {
-        console.log('[useSemanticSearch] Using dynamic threshold:', dynamicThreshold)
+      if (options.minScore !== DEFAULT_THRESHOLD) {
+        console.log('[useSemanticSearch] Using dynamic threshold:', options.minScore)
       }
 
-      const matches = await semanticSearch(searchQuery, {
-        limit: 1000, // Effectively unlimited for our dataset (623 contracts)
-        minScore: dynamicThreshold, // Adaptive threshold based on user behavior (30-70)
-        generateExplanations: true, // Generate explanations for top matches
-        explanationLimit: 10, // Only top 10 to save API costs
-      })
+      const improved = await searchInWorker(
+        searchQuery,
+        options,
+        inbox?.learningMetrics // Learning is applied in the worker
+      )
 
-      // Apply learning if inbox has metrics
-      const improved = applyLearning(matches, inbox?.learningMetrics)
+      if (searchId !== latestSearch.current) return
 
       setResults(improved)
+      setResultsQuery(searchQuery)
 
-      console.log('[useSemanticSearch] Found', matches.length, 'matches, applied learning:', improved.length, 'results')
+      console.log('[useSemanticSearch] Received', improved.length, 'results')
     } catch (err) {
+      if (searchId !== latestSearch.current) return
+
       console.error('[useSemanticSearch] Search error:', err)
       setError(err instanceof Error ? err.message : 'Search failed')
       setResults([])
+      setResultsQuery(null)
     } finally {
-      setSearching(false)
+      if (searchId === latestSearch.current) {
+        setSearching(false)
+      }
     }
-  }, [enabled, inbox])
+  }, [enabled])
+
+  /**
+   * Run a query with this inbox's options without touching the current results
+   * Used to preview how results would change with a different prompt
+   */
+  const preview = useCallback(async (previewQuery: string): Promise<SearchResult[]> => {
+    const inbox = inboxRef.current
+    return searchInWorker(previewQuery, getSearchOptions(inbox), inbox?.learningMetrics)
+  }, [])
 
   /**
-   * Search when query changes
+   * Search when the query or anything affecting ranking changes
    */
   useEffect(() => {
     if (query && enabled) {
       search(query)
     } else {
       setResults([])
+      setResultsQuery(null)
     }
-  }, [query, enabled, search])
+  }, [query, enabled, search, searchKey])
 
   /**
    * Get contracts from results (for compatibility with existing UI)
@@ -85,13 +146,19 @@ export function useSemanticSearch(
     ...r.contract,
     matchScore: r.matchScore,
     explanation: r.explanation,
+    scoreBreakdown: r.scoreBreakdown,
+    highlights: r.highlights,
+    variantId: r.variantId,
+    snippet: buildHighlightSnippet(r.contract.description, r.highlights) ?? r.contract.snippet,
   }))
 
   return {
     results,
+    resultsQuery,
     contracts,
     searching,
     error,
     search,
+    preview,
   }
 }
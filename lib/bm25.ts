@@ -0,0 +1,170 @@
+/**
+ * BM25 - Lexical (keyword) index over contract title and description
+ * Complements vector search: exact terms like "pest control" or framework
+ * names should not be outranked by loosely related contracts
+ */
+
+import type { Contract, LexicalIndex } from '@/types'
+import { tokenize } from './embedding-providers'
+
+export const LEXICAL_INDEX_ID = 'bm25'
+export const LEXICAL_INDEX_VERSION = 1
+
+// Default weight of the keyword score in hybrid ranking (0 = pure semantic)
+export const DEFAULT_LEXICAL_WEIGHT = 0.3
+
+// Standard BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+// Title terms count double - titles are short and highly descriptive
+const TITLE_WEIGHT = 2
+
+/**
+ * Normalise a token to an index term (light plural stripping)
+ */
+function toTerm(token: string): string {
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1)
+  }
+  return token
+}
+
+/**
+ * Extract index terms from text
+ */
+export function toTerms(text: string): string[] {
+  return tokenize(text).map(toTerm)
+}
+
+/**
+ * Build a BM25 index for a set of contracts
+ */
+export function buildLexicalIndex(contracts: Contract[]): LexicalIndex {
+  const docLengths: Record<string, number> = {}
+  const postings: Record<string, Array<[string, number]>> = {}
+  let totalLength = 0
+
+  for (const contract of contracts) {
+    const termFrequencies = new Map<string, number>()
+
+    for (const term of toTerms(contract.title)) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + TITLE_WEIGHT)
+    }
+    for (const term of toTerms(contract.description)) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1)
+    }
+
+    let length = 0
+    termFrequencies.forEach((tf, term) => {
+      length += tf
+      if (!postings[term]) postings[term] = []
+      postings[term].push([contract.id, tf])
+    })
+
+    docLengths[contract.id] = length
+    totalLength += length
+  }
+
+  const docCount = contracts.length
+
+  console.log('[BM25] Built index:', docCount, 'documents,', Object.keys(postings).length, 'terms')
+
+  return {
+    id: LEXICAL_INDEX_ID,
+    version: LEXICAL_INDEX_VERSION,
+    docCount,
+    avgDocLength: docCount > 0 ? totalLength / docCount : 0,
+    docLengths,
+    postings,
+    builtAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Score every matching document for a query
+ * Returns raw BM25 scores plus the fraction of query terms each document matched
+ */
+export function scoreLexical(
+  index: LexicalIndex,
+  query: string
+): Map<string, { score: number; coverage: number }> {
+  const queryTerms = Array.from(new Set(toTerms(query)))
+  const scores = new Map<string, { score: number; matched: number }>()
+
+  // Only terms present in the corpus count towards coverage
+  const knownTerms = queryTerms.filter(term => index.postings[term])
+
+  for (const term of knownTerms) {
+    const postings = index.postings[term]
+    const df = postings.length
+    const idf = Math.log(1 + (index.docCount - df + 0.5) / (df + 0.5))
+
+    for (const [docId, tf] of postings) {
+      const docLength = index.docLengths[docId] || 0
+      const norm = 1 - B + B * (docLength / (index.avgDocLength || 1))
+      const termScore = idf * ((tf * (K1 + 1)) / (tf + K1 * norm))
+
+      const entry = scores.get(docId) || { score: 0, matched: 0 }
+      entry.score += termScore
+      entry.matched += 1
+      scores.set(docId, entry)
+    }
+  }
+
+  const result = new Map<string, { score: number; coverage: number }>()
+  scores.forEach(({ score, matched }, docId) => {
+    result.set(docId, { score, coverage: matched / knownTerms.length })
+  })
+
+  return result
+}
+
+/**
+ * Normalise BM25 scores to 0-1 for blending with cosine similarity
+ * Scores are scaled by the best match for the query, then by term coverage
+ * so a document matching one of four query terms can't reach 1.0
+ */
+export function normaliseLexicalScores(
+  raw: Map<string, { score: number; coverage: number }>
+): Map<string, number> {
+  let max = 0
+  raw.forEach(({ score }) => {
+    if (score > max) max = score
+  })
+
+  const normalised = new Map<string, number>()
+  if (max === 0) return normalised
+
+  raw.forEach(({ score, coverage }, docId) => {
+    normalised.set(docId, (score / max) * coverage)
+  })
+
+  return normalised
+}
+
+/**
+ * Blend semantic similarity (0-1) with a normalised lexical score (0-1)
+ *
+ * The lexical score pulls similarity towards 1 in proportion to the weight,
+ * so keyword matches are lifted but semantic-only matches are never penalised.
+ * lexicalWeight 0 = pure semantic search.
+ */
+export function blendScores(
+  similarity: number,
+  lexicalScore: number,
+  lexicalWeight: number
+): number {
+  const base = Math.max(0, Math.min(1, similarity))
+  return base + lexicalWeight * lexicalScore * (1 - base)
+}
+
+/**
+ * Check whether a stored index is usable for the current contracts
+ */
+export function isLexicalIndexCurrent(
+  index: LexicalIndex | undefined,
+  contractCount: number
+): index is LexicalIndex {
+  return !!index && index.version === LEXICAL_INDEX_VERSION && index.docCount === contractCount
+}
@@ -0,0 +1,115 @@
+/**
+ * Chunking - Splits long notice descriptions into overlapping passages
+ * Each passage is embedded separately, so a requirement buried deep in a long
+ * tender still matches instead of being diluted by (or truncated from) one
+ * whole-notice vector. Contract scores aggregate the passage scores.
+ *
+ * Shared by the app and scripts/generate-embeddings.ts - no browser or Node APIs
+ */
+
+import type { ChunkAggregation, Contract, TextChunk } from '@/types'
+
+// Characters of description per chunk, and how much consecutive chunks share
+export const CHUNK_SIZE = 1000
+export const CHUNK_OVERLAP = 200
+
+// Longer descriptions are truncated - keeps one contract within a single
+// /api/embed batch
+export const MAX_CHUNKS = 32
+
+// Passages averaged by the 'top-k-mean' aggregation
+export const CHUNK_TOP_K = 3
+
+// How far back from the window edge to look for a sentence or word break
+const BOUNDARY_SEARCH = 200
+
+/**
+ * Best place to end a chunk at or before `end`: a sentence break if there's
+ * one nearby, otherwise a word break
+ */
+function findChunkEnd(text: string, start: number, end: number): number {
+  if (end >= text.length) return text.length
+
+  const floor = Math.max(start + 1, end - BOUNDARY_SEARCH)
+  const window = text.slice(floor, end)
+
+  const sentenceBreak = Math.max(
+    window.lastIndexOf('. '),
+    window.lastIndexOf('.\n'),
+    window.lastIndexOf('\n'),
+  )
+  if (sentenceBreak >= 0) return floor + sentenceBreak + 1
+
+  const wordBreak = window.lastIndexOf(' ')
+  if (wordBreak >= 0) return floor + wordBreak
+
+  return end
+}
+
+/**
+ * Split a description into overlapping [start, end) spans
+ * Short descriptions give a single span covering everything
+ */
+export function chunkDescription(description: string): Array<{ start: number; end: number }> {
+  if (description.length <= CHUNK_SIZE) {
+    return [{ start: 0, end: description.length }]
+  }
+
+  const spans: Array<{ start: number; end: number }> = []
+  let start = 0
+
+  while (start < description.length && spans.length < MAX_CHUNKS) {
+    const end = findChunkEnd(description, start, start + CHUNK_SIZE)
+    spans.push({ start, end })
+
+    if (end >= description.length) break
+
+    // Step back for overlap, then forward to the start of a word
+    let next = Math.max(start + 1, end - CHUNK_OVERLAP)
+    const wordStart = description.indexOf(' ', next)
+    if (wordStart >= 0 && wordStart < end) next = wordStart + 1
+    start = next
+  }
+
+  return spans
+}
+
+/**
+ * Chunks embedded for a contract
+ * Every chunk is prefixed with the title so passages keep their context.
+ * A single-chunk contract embeds exactly getEmbeddingText (title + description).
+ */
+export function getEmbeddingChunks(contract: Pick<Contract, 'title' | 'description'>): TextChunk[] {
+  const description = contract.description || ''
+
+  return chunkDescription(description).map(({ start, end }, index) => ({
+    index,
+    start,
+    end,
+    text: `${contract.title}\n\n${description.slice(start, end)}`,
+  }))
+}
+
+/**
+ * Combine per-chunk similarities into one contract similarity
+ * Also returns the best chunk, which is what the UI shows as the match
+ */
+export function aggregateChunkScores(
+  similarities: ArrayLike<number>,
+  aggregation: ChunkAggregation = 'max'
+): { similarity: number; chunk: number } {
+  let chunk = 0
+  for (let i = 1; i < similarities.length; i++) {
+    if (similarities[i] > similarities[chunk]) chunk = i
+  }
+
+  if (aggregation === 'max' || similarities.length === 1) {
+    return { similarity: similarities[chunk] ?? 0, chunk }
+  }
+
+  const top = Array.from(similarities)
+    .sort((a, b) => b - a)
+    .slice(0, CHUNK_TOP_K)
+
+  return { similarity: top.reduce((sum, s) => sum + s, 0) / top.length, chunk }
+}
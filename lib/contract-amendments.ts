@@ -0,0 +1,141 @@
+/**
+ * Contract Amendments - Version history of material notice changes
+ * Recorded during ingestion so deadline extensions and scope changes aren't missed
+ */
+
+import type { Contract, ContractAmendment, ContractFieldChange } from '@/types'
+
+/**
+ * Notice fields whose changes matter to a bidder
+ */
+export const MATERIAL_FIELDS = [
+  'title',
+  'description',
+  'value',
+  'closeDate',
+  'startDate',
+  'awardDate',
+  'expiryDate',
+  'stage',
+  'framework',
+  'suppliers',
+] as const
+
+type MaterialField = typeof MATERIAL_FIELDS[number]
+
+const FIELD_LABELS: Record<MaterialField, string> = {
+  title: 'Title',
+  description: 'Description',
+  value: 'Value',
+  closeDate: 'Close date',
+  startDate: 'Start date',
+  awardDate: 'Award date',
+  expiryDate: 'Expiry date',
+  stage: 'Stage',
+  framework: 'Framework',
+  suppliers: 'Suppliers',
+}
+
+const DATE_FIELDS = new Set<string>(['closeDate', 'startDate', 'awardDate', 'expiryDate'])
+
+/**
+ * Compare material fields between the stored and incoming version of a contract
+ */
+export function diffMaterialFields(stored: Contract, incoming: Contract): ContractFieldChange[] {
+  const changes: ContractFieldChange[] = []
+
+  for (const field of MATERIAL_FIELDS) {
+    const before = stored[field] ?? null
+    const after = incoming[field] ?? null
+
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, before, after })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Append an amendment to a contract's history if anything material changed
+ * Returns the contract unchanged when there is nothing to record
+ */
+export function recordAmendment(
+  stored: Contract,
+  incoming: Contract,
+  timestamp: string = new Date().toISOString()
+): Contract {
+  const changes = diffMaterialFields(stored, incoming)
+  if (changes.length === 0) {
+    return { ...incoming, amendments: stored.amendments, lastAmendedAt: stored.lastAmendedAt }
+  }
+
+  const amendment: ContractAmendment = { timestamp, changes }
+
+  return {
+    ...incoming,
+    amendments: [...(stored.amendments || []), amendment],
+    lastAmendedAt: timestamp,
+  }
+}
+
+/**
+ * Whether a contract was amended after the user last opened it
+ */
+export function hasUnseenAmendment(contract: Pick<Contract, 'lastAmendedAt' | 'lastViewedAt'>): boolean {
+  if (!contract.lastAmendedAt) return false
+  if (!contract.lastViewedAt) return true
+  return new Date(contract.lastAmendedAt).getTime() > new Date(contract.lastViewedAt).getTime()
+}
+
+function formatShortDate(value: unknown): string {
+  if (typeof value !== 'string') return 'none'
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+}
+
+function formatMoney(value: unknown, currency: string): string {
+  if (typeof value !== 'number') return 'not specified'
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 0,
+  }).format(value)
+}
+
+/**
+ * Human-readable description of a single field change
+ * e.g. "Close date moved from 21 Nov to 5 Dec"
+ */
+export function describeChange(change: ContractFieldChange, currency: string = 'GBP'): string {
+  const label = FIELD_LABELS[change.field as MaterialField] || change.field
+
+  if (DATE_FIELDS.has(change.field)) {
+    if (change.before === null) return `${label} set to ${formatShortDate(change.after)}`
+    if (change.after === null) return `${label} removed (was ${formatShortDate(change.before)})`
+
+    const direction = new Date(change.after as string) > new Date(change.before as string)
+      ? 'moved'
+      : 'brought forward'
+    return `${label} ${direction} from ${formatShortDate(change.before)} to ${formatShortDate(change.after)}`
+  }
+
+  if (change.field === 'value') {
+    return `Value changed from ${formatMoney(change.before, currency)} to ${formatMoney(change.after, currency)}`
+  }
+
+  if (change.field === 'title' || change.field === 'description') {
+    return `${label} updated`
+  }
+
+  if (change.field === 'framework') {
+    const name = (change.after as { name?: string } | null)?.name
+    return name ? `Framework changed to ${name}` : 'Framework removed'
+  }
+
+  if (change.field === 'suppliers') {
+    const suppliers = (change.after as string[] | null) || []
+    return suppliers.length > 0 ? `Suppliers updated: ${suppliers.join(', ')}` : 'Suppliers removed'
+  }
+
+  return `${label} changed from ${change.before ?? 'none'} to ${change.after ?? 'none'}`
+}
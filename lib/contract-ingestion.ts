@@ -0,0 +1,271 @@
+/**
+ * Contract Ingestion - Incremental upsert of CSV drops into IndexedDB
+ * Matches incoming rows by Guid, keeps per-user UI state, and only
+ * re-embeds contracts whose title or description text changed
+ */
+
+import type { Contract, EmbeddingModelInfo, IngestionSummary } from '@/types'
+import {
+  deleteContracts,
+  getAllContracts,
+  getAllEmbeddings,
+  getEmbeddedContractIds,
+  saveContractEmbeddings,
+  saveContracts,
+} from './contract-storage'
+import { recordAmendment } from './contract-amendments'
+import { buildEmbeddingMatrix } from './embedding-matrix'
+import { getEmbeddingChunks } from './chunking'
+import { embeddingModelKey, isSameEmbeddingModel } from './embedding-providers'
+import {
+  fetchEmbeddingFile,
+  getEmbeddingFileModel,
+  getFileVectors,
+  hashEmbeddingText,
+  type EmbeddingFile,
+} from './embedding-format'
+import {
+  ensureLexicalIndex,
+  ensureVectorIndex,
+  getActiveEmbeddingModel,
+  getEmbeddingText,
+  precomputeAllEmbeddings,
+} from './vector-store'
+
+/**
+ * Fields owned by the user/UI rather than the source CSV
+ * These are never overwritten by ingestion
+ */
+const UI_STATE_FIELDS = [
+  'isNew',
+  'isSaved',
+  'isUnread',
+  'lastViewedAt',
+  'hiddenInInboxes',
+  'hiddenMetadata',
+] as const
+
+/**
+ * Display and derived fields that are not part of the notice itself
+ */
+const NON_NOTICE_FIELDS = new Set<string>([
+  ...UI_STATE_FIELDS,
+  'amendments',
+  'lastAmendedAt',
+  'matchScore',
+  'snippet',
+  'deadline',
+  'explanation',
+  'scoreBreakdown',
+])
+
+/**
+ * Names of notice fields that differ between a stored and an incoming contract
+ */
+export function getChangedNoticeFields(existing: Contract, incoming: Contract): string[] {
+  const keys = new Set([...Object.keys(existing), ...Object.keys(incoming)])
+
+  return Array.from(keys).filter(key => {
+    if (NON_NOTICE_FIELDS.has(key)) return false
+    const before = (existing as unknown as Record<string, unknown>)[key] ?? null
+    const after = (incoming as unknown as Record<string, unknown>)[key] ?? null
+    return JSON.stringify(before) !== JSON.stringify(after)
+  })
+}
+
+/**
+ * Load pre-generated embeddings (built by scripts/generate-embeddings.ts)
+ * Returns null if the file is missing, unreadable, or from a different model
+ */
+export async function loadPrecomputedEmbeddings(
+  activeModel?: EmbeddingModelInfo | null
+): Promise<EmbeddingFile | null> {
+  try {
+    const file = await fetchEmbeddingFile('/data/contract-embeddings.bin')
+    const { ids, model, encoding } = file.header
+    console.log('[Contract Ingestion] Loaded', ids.length, 'pre-generated embeddings:', { model, encoding })
+
+    const fileModel = getEmbeddingFileModel(file)
+    if (activeModel && !isSameEmbeddingModel(fileModel, activeModel)) {
+      console.warn(
+        '[Contract Ingestion] Ignoring pre-generated embeddings from',
+        embeddingModelKey(fileModel),
+        '- active model is',
+        embeddingModelKey(activeModel)
+      )
+      return null
+    }
+
+    return file
+  } catch (error) {
+    console.warn('[Contract Ingestion] Pre-generated embeddings unavailable:', error)
+    return null
+  }
+}
+
+/**
+ * A contract's vectors from the pre-generated file, if they were embedded
+ * from its current text with the current chunking
+ */
+export function getPrecomputedVectors(
+  file: EmbeddingFile,
+  contract: Pick<Contract, 'id' | 'title' | 'description'>
+): Float32Array[] | undefined {
+  const entry = file.entries.get(contract.id)
+  if (!entry || entry.textHash !== hashEmbeddingText(getEmbeddingText(contract))) return undefined
+  if (entry.chunks !== getEmbeddingChunks(contract).length) return undefined
+
+  return getFileVectors(file, contract.id)
+}
+
+/**
+ * Upsert incoming contracts into storage
+ *
+ * - New Guids are added with isNew = true
+ * - Existing Guids get changed notice fields; saved/hidden/read state is kept
+ * - Guids missing from the drop are removed, unless the contract is saved
+ * - Only contracts whose embedding text changed are re-embedded
+ */
+export async function ingestContracts(
+  incoming: Contract[],
+  options: {
+    onStage?: (stage: 'embedding') => void
+    onProgress?: (current: number, total: number) => void
+  } = {}
+): Promise<{ contracts: Contract[]; summary: IngestionSummary }> {
+  const { onStage, onProgress } = options
+
+  const existing = await getAllContracts()
+  const embeddedIds = await getEmbeddedContractIds()
+  const activeModel = await getActiveEmbeddingModel()
+  const existingById = new Map(existing.map(c => [c.id, c]))
+  const incomingIds = new Set(incoming.map(c => c.id))
+
+  const summary: IngestionSummary = {
+    added: [],
+    updated: [],
+    removed: [],
+    retained: [],
+    unchanged: 0,
+    reembedded: 0,
+    timestamp: new Date().toISOString(),
+  }
+
+  const toSave: Contract[] = []
+  const needsEmbedding: Contract[] = []
+
+  for (const contract of incoming) {
+    const stored = existingById.get(contract.id)
+
+    if (!stored) {
+      summary.added.push(contract.id)
+      const added = { ...contract, isNew: true }
+      toSave.push(added)
+      needsEmbedding.push(added)
+      continue
+    }
+
+    const changedFields = getChangedNoticeFields(stored, contract)
+
+    if (changedFields.length === 0) {
+      summary.unchanged++
+      continue
+    }
+
+    summary.updated.push({ id: contract.id, fields: changedFields })
+
+    // Keep version history of material changes (close date, value, scope...)
+    const merged = recordAmendment(stored, contract, summary.timestamp)
+    for (const field of UI_STATE_FIELDS) {
+      (merged as unknown as Record<string, unknown>)[field] = stored[field]
+    }
+
+    toSave.push(merged)
+
+    if (getEmbeddingText(stored) !== getEmbeddingText(contract) || !embeddedIds.has(contract.id)) {
+      needsEmbedding.push(merged)
+    }
+  }
+
+  // Removed from the source: drop unless a user saved it
+  for (const stored of existing) {
+    if (incomingIds.has(stored.id)) continue
+
+    if (stored.isSaved) {
+      summary.retained.push(stored.id)
+    } else {
+      summary.removed.push(stored.id)
+    }
+  }
+
+  // Use pre-generated embeddings where their text still matches
+  const stale = new Set(needsEmbedding.map(c => c.id))
+  const fromFile: Array<{ id: string; text: string; embeddings: Float32Array[] }> = []
+  let fileModel: EmbeddingModelInfo | undefined
+
+  if (needsEmbedding.length > 0) {
+    onStage?.('embedding')
+    const precomputed = await loadPrecomputedEmbeddings(activeModel)
+    fileModel = precomputed ? getEmbeddingFileModel(precomputed) : undefined
+
+    needsEmbedding.forEach((contract, index) => {
+      const embeddings = precomputed && getPrecomputedVectors(precomputed, contract)
+
+      if (embeddings) {
+        fromFile.push({ id: contract.id, text: getEmbeddingText(contract), embeddings })
+        stale.delete(contract.id)
+      }
+      onProgress?.(index + 1, needsEmbedding.length)
+    })
+  }
+
+  if (toSave.length > 0) {
+    await saveContracts(toSave)
+  }
+
+  if (fromFile.length > 0) {
+    await saveContractEmbeddings(fromFile, fileModel)
+  }
+
+  if (summary.removed.length > 0) {
+    await deleteContracts(summary.removed)
+  }
+
+  // Embed anything still missing a vector (new or edited text)
+  if (stale.size > 0) {
+    console.log('[Contract Ingestion] Re-embedding', stale.size, 'contracts with changed text')
+    try {
+      summary.reembedded = await precomputeAllEmbeddings(onProgress, Array.from(stale))
+    } catch (error) {
+      // Search falls back to on-the-fly embedding for anything left over
+      console.warn('[Contract Ingestion] Re-embedding failed:', error)
+    }
+  }
+
+  const contracts = await getAllContracts()
+
+  const hasChanges = summary.added.length > 0 || summary.updated.length > 0 || summary.removed.length > 0
+  if (hasChanges) {
+    await ensureLexicalIndex(contracts, { rebuild: true })
+
+    // Re-embedded contracts move in vector space, so re-link them in the graph
+    try {
+      const matrix = buildEmbeddingMatrix(await getAllEmbeddings(activeModel ?? undefined), activeModel)
+      await ensureVectorIndex(matrix, { changedIds: needsEmbedding.map(c => c.id) })
+    } catch (error) {
+      // Search falls back to a linear scan without the index
+      console.warn('[Contract Ingestion] Vector index update failed:', error)
+    }
+  }
+
+  console.log('[Contract Ingestion] Complete:', {
+    added: summary.added.length,
+    updated: summary.updated.length,
+    removed: summary.removed.length,
+    retained: summary.retained.length,
+    unchanged: summary.unchanged,
+    reembedded: summary.reembedded,
+  })
+
+  return { contracts, summary }
+}
@@ -4,24 +4,51 @@
  */
 
 import { openDB, type IDBPDatabase } from 'idb'
-import type { Contract, EmbeddingCache } from '@/types'
+import type {
+  Contract,
+  EmbeddingCache,
+  EmbeddingModelInfo,
+  LexicalIndex,
+  VectorIndex,
+  VectorIndexNode,
+} from '@/types'
+import { isSameEmbeddingModel } from './embedding-providers'
 
 const DB_NAME = 'contract-storage'
-const DB_VERSION = 1
+const DB_VERSION = 5
 
 const CONTRACTS_STORE = 'contracts'
 const EMBEDDINGS_STORE = 'embeddings'
+const SEARCH_INDEX_STORE = 'search-index'
+const VECTOR_NODES_STORE = 'vector-index-nodes'
 
 type ContractDB = IDBPDatabase<{
   contracts: {
     key: string
     value: Contract
-    indexes: { authority: string; buyerClassification: string; closeDate: string }
+    indexes: {
+      authority: string
+      buyerClassification: string
+      closeDate: string
+      stage: string
+      country: string
+      expiryDate: string
+      cpvCodes: string
+      frameworkName: string
+    }
   }
   embeddings: {
     key: string
     value: EmbeddingCache
   }
+  'search-index': {
+    key: string
+    value: LexicalIndex | VectorIndex
+  }
+  'vector-index-nodes': {
+    key: string
+    value: VectorIndexNode & { id: string }
+  }
 }>
 
 /**
@@ -30,7 +57,7 @@ type ContractDB = IDBPDatabase<{
 export async function initContractDB(): Promise<ContractDB> {
   try {
     const db = await openDB<any>(DB_NAME, DB_VERSION, {
-      upgrade(db, oldVersion) {
+      upgrade(db, oldVersion, _newVersion, transaction) {
         console.log('[Contract Storage] Upgrading database from version', oldVersion, 'to', DB_VERSION)
 
         // Create contracts store
@@ -50,6 +77,36 @@ export async function initContractDB(): Promise<ContractDB> {
           db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'id' })
           console.log('[Contract Storage] Created embeddings store')
         }
+
+        // Indexes for the full CSV schema (v3)
+        if (oldVersion < 3) {
+          const contractStore = transaction.objectStore(CONTRACTS_STORE)
+
+          contractStore.createIndex('stage', 'stage', { unique: false })
+          contractStore.createIndex('country', 'country', { unique: false })
+          contractStore.createIndex('expiryDate', 'expiryDate', { unique: false })
+          contractStore.createIndex('cpvCodes', 'cpvCodes', { unique: false, multiEntry: true })
+          contractStore.createIndex('frameworkName', 'framework.name', { unique: false })
+
+          console.log('[Contract Storage] Created indexes for stage, country, expiry, CPV and framework')
+        }
+
+        // Create lexical (BM25) search index store (v2)
+        if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE)) {
+          db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: 'id' })
+          console.log('[Contract Storage] Created search index store')
+        }
+
+        // Vectors live only in the embeddings store, as Float32Array (v4)
+        if (oldVersion > 0 && oldVersion < 4) {
+          migrateEmbeddingsOutOfContracts(transaction)
+        }
+
+        // HNSW graph nodes, one record each so updates only write what changed (v5)
+        if (!db.objectStoreNames.contains(VECTOR_NODES_STORE)) {
+          db.createObjectStore(VECTOR_NODES_STORE, { keyPath: 'id' })
+          console.log('[Contract Storage] Created vector index nodes store')
+        }
       },
     })
 
@@ -61,6 +118,44 @@ export async function initContractDB(): Promise<ContractDB> {
   }
 }
 
+/**
+ * Move vectors off contract records into the embeddings store
+ * Earlier versions kept a number[] on each contract and another in the cache
+ */
+function migrateEmbeddingsOutOfContracts(transaction: any): void {
+  const contractStore = transaction.objectStore(CONTRACTS_STORE)
+  const embeddingStore = transaction.objectStore(EMBEDDINGS_STORE)
+
+  const migrate = async () => {
+    let migrated = 0
+    let cursor = await contractStore.openCursor()
+
+    while (cursor) {
+      const { embedding, ...contract } = cursor.value
+
+      if (embedding) {
+        const cached = await embeddingStore.get(contract.id)
+        await embeddingStore.put({
+          id: contract.id,
+          text: cached?.text ?? `${contract.title}\n\n${contract.description}`,
+          embedding: Float32Array.from(cached?.embedding ?? embedding),
+          createdAt: cached?.createdAt ?? new Date().toISOString(),
+        })
+        await cursor.update(contract)
+        migrated++
+      }
+
+      cursor = await cursor.continue()
+    }
+
+    console.log('[Contract Storage] Moved', migrated, 'embeddings out of contract records')
+  }
+
+  migrate().catch(error => {
+    console.error('[Contract Storage] Error migrating embeddings:', error)
+  })
+}
+
 /**
  * Migrate contract from old structure to new structure
  * Converts isHidden boolean to hiddenInInboxes array
@@ -90,6 +185,25 @@ function migrateContract(contract: any): Contract {
     contract.hiddenInInboxes = []
   }
 
+  // Contracts stored before the full CSV schema was imported lack these fields
+  if (!('cpvCodes' in contract)) {
+    return {
+      currency: null,
+      startDate: null,
+      awardDate: null,
+      expiryDate: null,
+      buyerCategory: null,
+      country: null,
+      stage: null,
+      cpvCodes: [],
+      framework: null,
+      suppliers: [],
+      smeSupplier: null,
+      contact: null,
+      ...contract,
+    } as Contract
+  }
+
   return contract as Contract
 }
 
@@ -122,6 +236,20 @@ export async function getAllContracts(): Promise<Contract[]> {
   }
 }
 
+/**
+ * Get contracts with a given CPV code (uses multi-entry index)
+ */
+export async function getContractsByCpvCode(cpvCode: string): Promise<Contract[]> {
+  try {
+    const db = await initContractDB()
+    const contracts = await db.getAllFromIndex(CONTRACTS_STORE, 'cpvCodes', cpvCode)
+    return contracts.map(migrateContract)
+  } catch (error) {
+    console.error('[Contract Storage] Error getting contracts by CPV code:', error)
+    return []
+  }
+}
+
 /**
  * Get a single contract by ID
  */
@@ -213,6 +341,27 @@ export async function deleteContract(id: string): Promise<void> {
   }
 }
 
+/**
+ * Delete multiple contracts and their cached embeddings (bulk operation)
+ */
+export async function deleteContracts(ids: string[]): Promise<void> {
+  try {
+    const db = await initContractDB()
+    const tx = db.transaction([CONTRACTS_STORE, EMBEDDINGS_STORE], 'readwrite')
+
+    const promises = ids.flatMap(id => [
+      tx.objectStore(CONTRACTS_STORE).delete(id),
+      tx.objectStore(EMBEDDINGS_STORE).delete(id),
+    ])
+    await Promise.all([...promises, tx.done])
+
+    console.log('[Contract Storage] Deleted', ids.length, 'contracts')
+  } catch (error) {
+    console.error('[Contract Storage] Error deleting contracts:', error)
+    throw error
+  }
+}
+
 /**
  * Mark contract as saved
  */
@@ -220,6 +369,13 @@ export async function markContractAsSaved(id: string): Promise<void> {
   await updateContract(id, { isSaved: true })
 }
 
+/**
+ * Remove contract from saved
+ */
+export async function markContractAsUnsaved(id: string): Promise<void> {
+  await updateContract(id, { isSaved: false })
+}
+
 /**
  * Mark contract as hidden in a specific inbox
  */
@@ -259,7 +415,7 @@ export async function markContractAsHidden(
  * Mark contract as read
  */
 export async function markContractAsRead(id: string): Promise<void> {
-  await updateContract(id, { isUnread: false, isNew: false })
+  await updateContract(id, { isUnread: false, isNew: false, lastViewedAt: new Date().toISOString() })
 }
 
 /**
@@ -292,12 +448,44 @@ export async function restoreContract(id: string, inboxId: string): Promise<void
 // ========== Embedding Storage ==========
 
 /**
- * Save contract embedding to cache
+ * Whether a cached vector was produced by the given model
+ * Vectors stored before model tagging are adopted when their dimensions match
+ */
+function isEmbeddingFromModel(cache: EmbeddingCache, model: EmbeddingModelInfo): boolean {
+  if (!cache.model) return cache.embedding.length / (cache.chunks ?? 1) === model.dimensions
+  return isSameEmbeddingModel(cache.model, model)
+}
+
+/**
+ * Pack chunk vectors into one Float32Array for storage
+ */
+function packChunks(embeddings: ArrayLike<number>[]): Float32Array {
+  const dimensions = embeddings[0]?.length ?? 0
+  const packed = new Float32Array(embeddings.length * dimensions)
+  embeddings.forEach((embedding, chunk) => packed.set(embedding, chunk * dimensions))
+  return packed
+}
+
+/**
+ * Views of the chunk vectors packed in a cache entry (no copy)
+ */
+function unpackChunks(cache: EmbeddingCache): Float32Array[] {
+  const count = cache.chunks ?? 1
+  const dimensions = cache.embedding.length / count
+  return Array.from({ length: count }, (_, chunk) =>
+    cache.embedding.subarray(chunk * dimensions, (chunk + 1) * dimensions)
+  )
+}
+
+/**
+ * Save a contract's chunk embeddings to cache
+ * This is the only copy of the vectors - contracts don't carry them
  */
 export async function saveContractEmbedding(
   contractId: string,
   text: string,
-  embedding: number[]
+  embeddings: ArrayLike<number>[],
+  model?: EmbeddingModelInfo
 ): Promise<void> {
   try {
     const db = await initContractDB()
@@ -305,15 +493,14 @@ export async function saveContractEmbedding(
     const cache: EmbeddingCache = {
       id: contractId,
       text,
-      embedding,
+      embedding: packChunks(embeddings),
+      chunks: embeddings.length,
+      model,
       createdAt: new Date().toISOString(),
     }
 
     await db.put(EMBEDDINGS_STORE, cache)
     console.log('[Contract Storage] Saved embedding for contract:', contractId)
-
-    // Also update the contract with the embedding
-    await updateContract(contractId, { embedding })
   } catch (error) {
     console.error('[Contract Storage] Error saving embedding:', error)
     throw error
@@ -321,15 +508,49 @@ export async function saveContractEmbedding(
 }
 
 /**
- * Get cached embedding for a contract
+ * Save many contract embeddings in one transaction
+ */
+export async function saveContractEmbeddings(
+  entries: Array<{ id: string; text: string; embeddings: ArrayLike<number>[] }>,
+  model?: EmbeddingModelInfo
+): Promise<void> {
+  try {
+    const db = await initContractDB()
+    const tx = db.transaction(EMBEDDINGS_STORE, 'readwrite')
+    const createdAt = new Date().toISOString()
+
+    const promises = entries.map(entry =>
+      tx.store.put({
+        id: entry.id,
+        text: entry.text,
+        embedding: packChunks(entry.embeddings),
+        chunks: entry.embeddings.length,
+        model,
+        createdAt,
+      })
+    )
+    await Promise.all([...promises, tx.done])
+
+    console.log('[Contract Storage] Saved', entries.length, 'embeddings')
+  } catch (error) {
+    console.error('[Contract Storage] Error saving embeddings:', error)
+    throw error
+  }
+}
+
+/**
+ * Get cached chunk embeddings for a contract
+ * With a model, vectors from any other model count as missing
  */
 export async function getContractEmbedding(
-  contractId: string
-): Promise<number[] | undefined> {
+  contractId: string,
+  model?: EmbeddingModelInfo
+): Promise<Float32Array[] | undefined> {
   try {
     const db = await initContractDB()
     const cache = await db.get(EMBEDDINGS_STORE, contractId)
-    return cache?.embedding
+    if (!cache || (model && !isEmbeddingFromModel(cache, model))) return undefined
+    return unpackChunks(cache)
   } catch (error) {
     console.error('[Contract Storage] Error getting embedding:', error)
     return undefined
@@ -337,16 +558,20 @@ export async function getContractEmbedding(
 }
 
 /**
- * Get all cached embeddings
+ * Get all cached embeddings (Contract ID → chunk vectors)
+ * With a model, only vectors from that model are returned
  */
-export async function getAllEmbeddings(): Promise<Map<string, number[]>> {
+export async function getAllEmbeddings(
+  model?: EmbeddingModelInfo
+): Promise<Map<string, Float32Array[]>> {
   try {
     const db = await initContractDB()
     const caches = await db.getAll(EMBEDDINGS_STORE)
 
-    const map = new Map<string, number[]>()
+    const map = new Map<string, Float32Array[]>()
     caches.forEach(cache => {
-      map.set(cache.id, cache.embedding)
+      if (model && !isEmbeddingFromModel(cache, model)) return
+      map.set(cache.id, unpackChunks(cache))
     })
 
     console.log('[Contract Storage] Retrieved', map.size, 'cached embeddings')
@@ -357,6 +582,115 @@ export async function getAllEmbeddings(): Promise<Map<string, number[]>> {
   }
 }
 
+/**
+ * IDs of contracts that have a cached embedding (without loading vectors)
+ */
+export async function getEmbeddedContractIds(): Promise<Set<string>> {
+  try {
+    const db = await initContractDB()
+    const keys = await db.getAllKeys(EMBEDDINGS_STORE)
+    return new Set(keys as string[])
+  } catch (error) {
+    console.error('[Contract Storage] Error getting embedding keys:', error)
+    return new Set()
+  }
+}
+
+/**
+ * IDs of contracts whose cached embedding came from a different model
+ */
+export async function getStaleEmbeddingIds(model: EmbeddingModelInfo): Promise<Set<string>> {
+  try {
+    const db = await initContractDB()
+    const caches = await db.getAll(EMBEDDINGS_STORE)
+    return new Set(caches.filter(cache => !isEmbeddingFromModel(cache, model)).map(cache => cache.id))
+  } catch (error) {
+    console.error('[Contract Storage] Error checking embedding models:', error)
+    return new Set()
+  }
+}
+
+// ========== Search Index Storage ==========
+
+/**
+ * Save the lexical search index
+ */
+export async function saveSearchIndex(index: LexicalIndex): Promise<void> {
+  try {
+    const db = await initContractDB()
+    await db.put(SEARCH_INDEX_STORE, index)
+    console.log('[Contract Storage] Saved search index:', index.id, index.docCount, 'documents')
+  } catch (error) {
+    console.error('[Contract Storage] Error saving search index:', error)
+    throw error
+  }
+}
+
+/**
+ * Get the stored lexical search index
+ */
+export async function getSearchIndex(id: string): Promise<LexicalIndex | undefined> {
+  try {
+    const db = await initContractDB()
+    return (await db.get(SEARCH_INDEX_STORE, id)) as LexicalIndex | undefined
+  } catch (error) {
+    console.error('[Contract Storage] Error getting search index:', error)
+    return undefined
+  }
+}
+
+/**
+ * Save the HNSW vector index (graph only - vectors stay in the embeddings store)
+ * Nodes are stored one per record: pass changedIds to write just those nodes,
+ * or omit it to replace the whole graph
+ */
+export async function saveVectorIndex(index: VectorIndex, changedIds?: string[]): Promise<void> {
+  try {
+    const db = await initContractDB()
+    const tx = db.transaction([SEARCH_INDEX_STORE, VECTOR_NODES_STORE], 'readwrite')
+    const nodeStore = tx.objectStore(VECTOR_NODES_STORE)
+
+    if (!changedIds) {
+      await nodeStore.clear()
+    }
+
+    const promises = (changedIds ?? Object.keys(index.nodes)).map(id => {
+      const node = index.nodes[id]
+      return node ? nodeStore.put({ id, ...node }) : nodeStore.delete(id)
+    })
+    await Promise.all([
+      tx.objectStore(SEARCH_INDEX_STORE).put({ ...index, nodes: {} }),
+      ...promises,
+      tx.done,
+    ])
+
+    console.log('[Contract Storage] Saved vector index:', promises.length, 'of', Object.keys(index.nodes).length, 'nodes')
+  } catch (error) {
+    console.error('[Contract Storage] Error saving vector index:', error)
+    throw error
+  }
+}
+
+/**
+ * Get the stored HNSW vector index
+ */
+export async function getVectorIndex(id: string): Promise<VectorIndex | undefined> {
+  try {
+    const db = await initContractDB()
+    const index = (await db.get(SEARCH_INDEX_STORE, id)) as VectorIndex | undefined
+    if (!index) return undefined
+
+    const nodes = await db.getAll(VECTOR_NODES_STORE)
+    return {
+      ...index,
+      nodes: Object.fromEntries(nodes.map(({ id: nodeId, ...node }) => [nodeId, node])),
+    }
+  } catch (error) {
+    console.error('[Contract Storage] Error getting vector index:', error)
+    return undefined
+  }
+}
+
 // ========== Bulk Operations ==========
 
 /**
@@ -367,7 +701,9 @@ export async function clearAllContracts(): Promise<void> {
     const db = await initContractDB()
     await db.clear(CONTRACTS_STORE)
     await db.clear(EMBEDDINGS_STORE)
-    console.log('[Contract Storage] Cleared all contracts and embeddings')
+    await db.clear(SEARCH_INDEX_STORE)
+    await db.clear(VECTOR_NODES_STORE)
+    console.log('[Contract Storage] Cleared all contracts, embeddings and search index')
   } catch (error) {
     console.error('[Contract Storage] Error clearing contracts:', error)
     throw error
@@ -1,10 +1,10 @@
 /**
  * CSV Loader - Parse and transform contract data from CSV
- * Maps 30-column CSV to simplified Contract type
+ * Maps the 30-column Stotles CSV to the Contract type
  */
 
 import { parse } from 'csv-parse/browser/esm/sync'
-import type { Contract, RawContractCSV } from '@/types'
+import type { Contract, ContractContact, ContractFramework, RawContractCSV } from '@/types'
 
 /**
  * Parse contract value from string to number
@@ -21,18 +21,83 @@ function parseValue(value: string | undefined): number | null {
 }
 
 /**
- * Parse date from CSV format (YYYY-MM-DD) to ISO string
+ * Parse date from CSV format (YYYY-MM-DD) to ISO string (null when empty or invalid)
+ * Missing dates stay null rather than defaulting to today, which would read as
+ * a change on every ingest
  */
-function parseDate(date: string | undefined): string {
-  if (!date || date.trim() === '') {
-    return new Date().toISOString()
+function parseDate(date: string | undefined): string | null {
+  if (!date || date.trim() === '') return null
+
+  const parsed = new Date(date)
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString()
+}
+
+/**
+ * Trim a text field, returning null when empty
+ */
+function parseText(value: string | undefined): string | null {
+  const trimmed = cleanDescription(value)
+  return trimmed === '' ? null : trimmed
+}
+
+/**
+ * Split a multi-valued column (comma, semicolon or newline separated)
+ */
+function parseList(value: string | undefined): string[] {
+  if (!value) return []
+
+  return value
+    .split(/[;,\n]/)
+    .map(item => cleanDescription(item))
+    .filter(Boolean)
+}
+
+/**
+ * Parse CPV codes, keeping the 8-digit code and dropping check digits/labels
+ * e.g. "90922000-6 Pest-control services; 90923000" → ["90922000", "90923000"]
+ */
+function parseCpvCodes(value: string | undefined): string[] {
+  if (!value) return []
+
+  const codes = value.match(/\b\d{8}\b/g) || []
+  return Array.from(new Set(codes))
+}
+
+/**
+ * Parse a yes/no column
+ */
+function parseBoolean(value: string | undefined): boolean | null {
+  const normalised = value?.trim().toLowerCase()
+  if (normalised === 'yes' || normalised === 'true') return true
+  if (normalised === 'no' || normalised === 'false') return false
+  return null
+}
+
+/**
+ * Parse framework columns (null when the notice isn't under a framework)
+ */
+function parseFramework(raw: Partial<RawContractCSV>): ContractFramework | null {
+  const name = parseText(raw['Framework Name'])
+  if (!name) return null
+
+  return {
+    name,
+    url: parseText(raw['Framework Link']),
+    relationship: parseText(raw['Framework relationship']),
   }
+}
 
-  try {
-    return new Date(date).toISOString()
-  } catch {
-    return new Date().toISOString()
+/**
+ * Parse contact columns (null when no contact details are published)
+ */
+function parseContact(raw: Partial<RawContractCSV>): ContractContact | null {
+  const contact: ContractContact = {
+    name: parseText(raw['Contact Name']),
+    phone: parseText(raw['Contact Phone']),
+    email: parseText(raw['Contact Email']),
   }
+
+  return contact.name || contact.phone || contact.email ? contact : null
 }
 
 /**
@@ -54,7 +119,7 @@ function cleanDescription(text: string | undefined): string {
 /**
  * Transform raw CSV row to Contract type
  */
-function transformContract(raw: any): Contract {
+function transformContract(raw: Partial<RawContractCSV>): Contract {
   const id = raw.Guid || `contract-${Date.now()}-${Math.random()}`
 
   return {
@@ -63,10 +128,22 @@ function transformContract(raw: any): Contract {
     description: cleanDescription(raw.Description),
     authority: raw['Buyer name'] || 'Unknown Authority',
     value: parseValue(raw.Value),
+    currency: parseText(raw.Currency),
     closeDate: parseDate(raw['Close date']),
     publishDate: parseDate(raw['Publish date']),
+    startDate: parseDate(raw['Start date']),
+    awardDate: parseDate(raw['Award date']),
+    expiryDate: parseDate(raw['Expiry date']),
     url: raw.URL || '',
     buyerClassification: raw['Buyer Classification'] || 'Other',
+    buyerCategory: parseText(raw['Buyer Category']),
+    country: parseText(raw.Country),
+    stage: parseText(raw.Stage),
+    cpvCodes: parseCpvCodes(raw['CPV codes']),
+    framework: parseFramework(raw),
+    suppliers: parseList(raw.Suppliers),
+    smeSupplier: parseBoolean(raw['SME Supplier?']),
+    contact: parseContact(raw),
 
     // UI state - defaults for new contracts
     isNew: true,
@@ -76,6 +153,26 @@ function transformContract(raw: any): Contract {
   }
 }
 
+/**
+ * Parse CSV text into contracts
+ * Also used by Node scripts, which read the file themselves
+ */
+export function parseContractsCSV(csvText: string): Contract[] {
+  const records = parse(csvText, {
+    columns: true, // Use first row as column names
+    skip_empty_lines: true,
+    trim: true,
+  })
+
+  console.log('[CSV Loader] Parsed', records.length, 'raw records')
+
+  // Transform to Contract type
+  const contracts = (records as Partial<RawContractCSV>[]).map(transformContract)
+
+  console.log('[CSV Loader] Transformed', contracts.length, 'contracts')
+  return contracts
+}
+
 /**
  * Load and parse contracts from CSV file
  * Returns array of Contract objects ready for IndexedDB
@@ -93,19 +190,7 @@ export async function loadContractsFromCSV(csvPath: string): Promise<Contract[]>
     const csvText = await response.text()
     console.log('[CSV Loader] CSV file loaded, size:', csvText.length, 'bytes')
 
-    // Parse CSV
-    const records = parse(csvText, {
-      columns: true, // Use first row as column names
-      skip_empty_lines: true,
-      trim: true,
-    })
-
-    console.log('[CSV Loader] Parsed', records.length, 'raw records')
-
-    // Transform to Contract type
-    const contracts = records.map(transformContract)
-
-    console.log('[CSV Loader] Transformed', contracts.length, 'contracts')
+    const contracts = parseContractsCSV(csvText)
 
     // Log sample for debugging
     if (contracts.length > 0) {
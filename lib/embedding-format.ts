@@ -0,0 +1,246 @@
+/**
+ * Embedding Format - Packed binary file for pre-generated contract embeddings
+ * Replaces pretty-printed JSON floats (~20 bytes per dimension) with Float32
+ * (4 bytes) or int8 with a per-vector scale (1 byte)
+ *
+ * Layout (little-endian):
+ *   0   "CEMB" magic
+ *   4   u16  format version
+ *   6   u8   encoding (0 = float32, 1 = int8)
+ *   7   u8   reserved
+ *   8   u32  dimensions
+ *   12  u32  vector count (chunk vectors across all contracts)
+ *   16  u32  header length in bytes
+ *   20  header JSON (UTF-8) - provider, model, id table, chunk counts, text hashes
+ *       padded with spaces to a 4-byte boundary
+ *   ..  float32: values[count × dimensions]
+ *       int8:    scales[count] (float32), then values[count × dimensions] (int8)
+ *
+ * A contract's chunk vectors (see chunking.ts) are stored in consecutive rows.
+ * Version 1 files have one vector per contract and no chunk counts.
+ *
+ * Decoding yields one Float32Array for all vectors, so loaders never hold
+ * a second per-contract copy. Works in the browser, the search worker and Node.
+ */
+
+import type { EmbeddingModelInfo } from '@/types'
+import { fnv1a } from './embedding-providers'
+
+export const EMBEDDING_FILE_MAGIC = 'CEMB'
+export const EMBEDDING_FILE_VERSION = 2
+
+const PREAMBLE_BYTES = 20
+
+export type EmbeddingEncoding = 'float32' | 'int8'
+
+const ENCODING_CODES: Record<EmbeddingEncoding, number> = { float32: 0, int8: 1 }
+
+export interface EmbeddingFileHeader {
+  provider: string
+  model: string
+  dimensions: number
+  encoding: EmbeddingEncoding
+  createdAt: string
+  ids: string[]
+  chunks: number[] // Chunk vectors per id (all 1 in version 1 files)
+  textHashes: string[] // hashEmbeddingText of each contract's full embedding text
+}
+
+export interface EmbeddingFileEntry {
+  row: number // First row of the contract's vectors
+  chunks: number
+  textHash: string
+}
+
+export interface EmbeddingFile {
+  header: EmbeddingFileHeader
+  vectors: Float32Array // vector count × dimensions, row-major
+  entries: Map<string, EmbeddingFileEntry> // Contract ID → where its vectors are
+}
+
+/**
+ * Short stable hash of embedded text, used to detect stale vectors
+ */
+export function hashEmbeddingText(text: string): string {
+  return fnv1a(text).toString(16).padStart(8, '0')
+}
+
+/**
+ * Pack embeddings into the binary format
+ */
+export function encodeEmbeddings(
+  entries: Array<{ id: string; text: string; embeddings: ArrayLike<number>[] }>,
+  options: { provider: string; model: string; encoding?: EmbeddingEncoding }
+): Uint8Array {
+  const encoding = options.encoding ?? 'int8'
+  const dimensions = entries[0]?.embeddings[0]?.length ?? 0
+  const rows = entries.flatMap(entry => entry.embeddings.map(embedding => ({ id: entry.id, embedding })))
+  const count = rows.length
+
+  const header: EmbeddingFileHeader = {
+    provider: options.provider,
+    model: options.model,
+    dimensions,
+    encoding,
+    createdAt: new Date().toISOString(),
+    ids: entries.map(e => e.id),
+    chunks: entries.map(e => e.embeddings.length),
+    textHashes: entries.map(e => hashEmbeddingText(e.text)),
+  }
+
+  let headerBytes = new TextEncoder().encode(JSON.stringify(header))
+  const paddedLength = Math.ceil(headerBytes.length / 4) * 4
+  if (paddedLength !== headerBytes.length) {
+    const padded = new Uint8Array(paddedLength).fill(0x20)
+    padded.set(headerBytes)
+    headerBytes = padded
+  }
+
+  const dataOffset = PREAMBLE_BYTES + headerBytes.length
+  const dataBytes = encoding === 'float32'
+    ? count * dimensions * 4
+    : count * 4 + count * dimensions
+
+  const buffer = new ArrayBuffer(dataOffset + dataBytes)
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+
+  for (let i = 0; i < 4; i++) view.setUint8(i, EMBEDDING_FILE_MAGIC.charCodeAt(i))
+  view.setUint16(4, EMBEDDING_FILE_VERSION, true)
+  view.setUint8(6, ENCODING_CODES[encoding])
+  view.setUint32(8, dimensions, true)
+  view.setUint32(12, count, true)
+  view.setUint32(16, headerBytes.length, true)
+  bytes.set(headerBytes, PREAMBLE_BYTES)
+
+  rows.forEach((entry, row) => {
+    if (entry.embedding.length !== dimensions) {
+      throw new Error(`Embedding for ${entry.id} has ${entry.embedding.length} dimensions, expected ${dimensions}`)
+    }
+
+    if (encoding === 'float32') {
+      new Float32Array(buffer, dataOffset + row * dimensions * 4, dimensions).set(entry.embedding)
+      return
+    }
+
+    // Symmetric int8 quantisation: scale maps the largest component to ±127
+    let maxAbs = 0
+    for (let i = 0; i < dimensions; i++) {
+      maxAbs = Math.max(maxAbs, Math.abs(entry.embedding[i]))
+    }
+    const scale = maxAbs / 127 || 1
+
+    view.setFloat32(dataOffset + row * 4, scale, true)
+
+    const values = new Int8Array(buffer, dataOffset + count * 4 + row * dimensions, dimensions)
+    for (let i = 0; i < dimensions; i++) {
+      values[i] = Math.round(entry.embedding[i] / scale)
+    }
+  })
+
+  return bytes
+}
+
+/**
+ * Read the binary format into a single Float32Array of vectors
+ */
+export function decodeEmbeddings(input: ArrayBuffer | Uint8Array): EmbeddingFile {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  const magic = String.fromCharCode(...Array.from(bytes.subarray(0, 4)))
+  if (magic !== EMBEDDING_FILE_MAGIC) {
+    throw new Error('Not an embedding file (bad magic)')
+  }
+
+  const version = view.getUint16(4, true)
+  if (version < 1 || version > EMBEDDING_FILE_VERSION) {
+    throw new Error(`Unsupported embedding file version ${version}`)
+  }
+
+  const encodingCode = view.getUint8(6)
+  const dimensions = view.getUint32(8, true)
+  const count = view.getUint32(12, true)
+  const headerLength = view.getUint32(16, true)
+
+  const header: EmbeddingFileHeader = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(PREAMBLE_BYTES, PREAMBLE_BYTES + headerLength))
+  )
+
+  // Version 1: one vector per contract
+  header.chunks = header.chunks ?? header.ids.map(() => 1)
+
+  const chunkTotal = header.chunks.reduce((sum, chunks) => sum + chunks, 0)
+  if (header.dimensions !== dimensions || chunkTotal !== count) {
+    throw new Error('Embedding file header does not match its data')
+  }
+
+  const dataOffset = PREAMBLE_BYTES + headerLength
+  let vectors: Float32Array
+
+  if (encodingCode === ENCODING_CODES.float32) {
+    const absoluteOffset = bytes.byteOffset + dataOffset
+    // Zero-copy view when aligned (always true for fetched/read-whole-file buffers)
+    vectors = absoluteOffset % 4 === 0
+      ? new Float32Array(bytes.buffer, absoluteOffset, count * dimensions)
+      : new Float32Array(bytes.slice(dataOffset, dataOffset + count * dimensions * 4).buffer)
+  } else if (encodingCode === ENCODING_CODES.int8) {
+    vectors = new Float32Array(count * dimensions)
+    const values = new Int8Array(bytes.buffer, bytes.byteOffset + dataOffset + count * 4, count * dimensions)
+
+    for (let row = 0; row < count; row++) {
+      const scale = view.getFloat32(dataOffset + row * 4, true)
+      const offset = row * dimensions
+      for (let i = 0; i < dimensions; i++) {
+        vectors[offset + i] = values[offset + i] * scale
+      }
+    }
+  } else {
+    throw new Error(`Unknown embedding encoding ${encodingCode}`)
+  }
+
+  const entries = new Map<string, EmbeddingFileEntry>()
+  let row = 0
+  header.ids.forEach((id, i) => {
+    entries.set(id, { row, chunks: header.chunks[i], textHash: header.textHashes[i] })
+    row += header.chunks[i]
+  })
+
+  return { header, vectors, entries }
+}
+
+/**
+ * Model the file's vectors were generated with
+ */
+export function getEmbeddingFileModel(file: EmbeddingFile): EmbeddingModelInfo {
+  const { provider, model, dimensions } = file.header
+  return { provider, model, dimensions }
+}
+
+/**
+ * Views of a contract's chunk vectors in a decoded file (no copy)
+ */
+export function getFileVectors(file: EmbeddingFile, id: string): Float32Array[] | undefined {
+  const entry = file.entries.get(id)
+  if (!entry) return undefined
+
+  const { dimensions } = file.header
+  const { row } = entry
+
+  return Array.from({ length: entry.chunks }, (_, chunk) =>
+    file.vectors.subarray((row + chunk) * dimensions, (row + chunk + 1) * dimensions)
+  )
+}
+
+/**
+ * Fetch and decode an embedding file (browser and worker)
+ */
+export async function fetchEmbeddingFile(url: string): Promise<EmbeddingFile> {
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    throw new Error(`Failed to load embeddings from ${url}: ${response.status}`)
+  }
+
+  return decodeEmbeddings(await response.arrayBuffer())
+}
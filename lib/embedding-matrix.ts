@@ -0,0 +1,190 @@
+/**
+ * Embedding Matrix - Contract vectors packed into a single Float32Array
+ * One contiguous buffer scores far faster than hundreds of number[] arrays
+ * and halves memory. Built and owned by the search worker.
+ * Long contracts have one row per description chunk (see chunking.ts).
+ */
+
+import type { EmbeddingMatrix, EmbeddingModelInfo } from '@/types'
+
+/**
+ * Pack contract embeddings (Contract ID → chunk vectors) into a matrix
+ * Vectors with mismatched dimensions are skipped
+ * Pass the model the vectors came from so queries can be checked against it
+ */
+export function buildEmbeddingMatrix(
+  embeddings: Map<string, ArrayLike<number>[]>,
+  model: EmbeddingModelInfo | null = null
+): EmbeddingMatrix {
+  const first = embeddings.values().next().value as ArrayLike<number>[] | undefined
+  const dimensions = model?.dimensions ?? first?.[0]?.length ?? 0
+  const embedded = Array.from(embeddings).filter(
+    ([, vectors]) => vectors.length > 0 && vectors.every(vector => vector.length === dimensions)
+  )
+  const rowCount = embedded.reduce((sum, [, vectors]) => sum + vectors.length, 0)
+
+  const matrix: EmbeddingMatrix = {
+    model,
+    dimensions,
+    ids: [],
+    rows: new Map(),
+    chunkCounts: new Map(),
+    data: new Float32Array(rowCount * dimensions),
+    norms: new Float32Array(rowCount),
+  }
+
+  for (const [id, vectors] of embedded) {
+    matrix.rows.set(id, matrix.ids.length)
+    matrix.chunkCounts.set(id, vectors.length)
+
+    for (const vector of vectors) {
+      const row = matrix.ids.length
+      matrix.data.set(vector, row * dimensions)
+      matrix.norms[row] = vectorNorm(vector)
+      matrix.ids.push(id)
+    }
+  }
+
+  return matrix
+}
+
+/**
+ * L2 norm of a vector
+ */
+export function vectorNorm(vector: ArrayLike<number>): number {
+  let sum = 0
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * vector[i]
+  return Math.sqrt(sum)
+}
+
+/**
+ * One vector for a whole contract: the mean of its unit-length chunk vectors
+ */
+export function meanChunkVector(chunks: ArrayLike<number>[]): number[] {
+  const dimensions = chunks[0]?.length ?? 0
+  const mean = new Array<number>(dimensions).fill(0)
+  for (const chunk of chunks) {
+    const norm = vectorNorm(chunk) || 1
+    for (let i = 0; i < dimensions; i++) mean[i] += chunk[i] / norm / chunks.length
+  }
+  return mean
+}
+
+/**
+ * Mean chunk vector of a contract in the matrix, or undefined if it has none
+ */
+export function getContractRowMean(matrix: EmbeddingMatrix, id: string): number[] | undefined {
+  const count = matrix.chunkCounts.get(id) ?? 0
+  if (count === 0) return undefined
+
+  const chunks: Float32Array[] = []
+  for (let chunk = 0; chunk < count; chunk++) chunks.push(getEmbeddingRow(matrix, id, chunk)!)
+  return meanChunkVector(chunks)
+}
+
+/**
+ * Key of one chunk row in the vector index, e.g. "abc-123#2"
+ */
+export function chunkRowKey(id: string, chunk: number): string {
+  return `${id}#${chunk}`
+}
+
+/**
+ * Contract ID and chunk from a chunk row key
+ */
+export function parseChunkRowKey(key: string): { id: string; chunk: number } {
+  const separator = key.lastIndexOf('#')
+  return { id: key.slice(0, separator), chunk: Number(key.slice(separator + 1)) }
+}
+
+/**
+ * View of one chunk vector (no copy), or undefined if the contract has none
+ */
+export function getEmbeddingRow(
+  matrix: EmbeddingMatrix,
+  id: string,
+  chunk: number = 0
+): Float32Array | undefined {
+  const first = matrix.rows.get(id)
+  if (first === undefined || chunk >= (matrix.chunkCounts.get(id) ?? 0)) return undefined
+
+  const row = first + chunk
+  return matrix.data.subarray(row * matrix.dimensions, (row + 1) * matrix.dimensions)
+}
+
+/**
+ * Add or replace a contract's chunk vectors
+ * Adding rows reallocates the buffer - fine for the odd on-the-fly embedding.
+ * Replaced rows of a different chunk count are left unused until the next build.
+ */
+export function setEmbeddingRows(
+  matrix: EmbeddingMatrix,
+  id: string,
+  embeddings: ArrayLike<number>[]
+): void {
+  if (matrix.dimensions === 0) {
+    matrix.dimensions = embeddings[0]?.length ?? 0
+  }
+
+  if (embeddings.some(embedding => embedding.length !== matrix.dimensions)) {
+    throw new Error(`Embedding dimensions don't match the matrix (${matrix.dimensions})`)
+  }
+
+  let first = matrix.rows.get(id)
+
+  if (first === undefined || matrix.chunkCounts.get(id) !== embeddings.length) {
+    first = matrix.ids.length
+    const rowCount = first + embeddings.length
+
+    const data = new Float32Array(rowCount * matrix.dimensions)
+    data.set(matrix.data)
+    const norms = new Float32Array(rowCount)
+    norms.set(matrix.norms)
+
+    matrix.data = data
+    matrix.norms = norms
+    matrix.ids.push(...embeddings.map(() => id))
+    matrix.rows.set(id, first)
+    matrix.chunkCounts.set(id, embeddings.length)
+  }
+
+  embeddings.forEach((embedding, chunk) => {
+    matrix.data.set(embedding, (first + chunk) * matrix.dimensions)
+    matrix.norms[first + chunk] = vectorNorm(embedding)
+  })
+}
+
+/**
+ * Cosine similarity between a query vector and each of a contract's chunks
+ * Returns null if the contract has no vectors
+ */
+export function chunkSimilarities(
+  matrix: EmbeddingMatrix,
+  id: string,
+  query: Float32Array,
+  queryNorm: number = vectorNorm(query)
+): Float32Array | null {
+  const first = matrix.rows.get(id)
+  if (first === undefined) return null
+
+  if (query.length !== matrix.dimensions) {
+    throw new Error('Vectors must have the same length')
+  }
+
+  const count = matrix.chunkCounts.get(id) ?? 1
+  const similarities = new Float32Array(count)
+
+  for (let chunk = 0; chunk < count; chunk++) {
+    const row = first + chunk
+    const offset = row * matrix.dimensions
+    let dot = 0
+    for (let i = 0; i < matrix.dimensions; i++) {
+      dot += matrix.data[offset + i] * query[i]
+    }
+
+    const magnitude = matrix.norms[row] * queryNorm
+    similarities[chunk] = magnitude === 0 ? 0 : dot / magnitude
+  }
+
+  return similarities
+}
@@ -0,0 +1,138 @@
+/**
+ * Embedding Migration - Re-embeds vectors left over from a previous model
+ * Runs in the search worker after load, whenever the server's embedding
+ * provider, model or dimensions differ from what produced stored vectors,
+ * or a contract's vectors predate its current chunking (see chunking.ts)
+ *
+ * Contracts are filled from the pre-generated file when it matches the new
+ * model, otherwise re-embedded via /api/embed. Inbox prompts are re-embedded too.
+ */
+
+import type { EmbeddingMigrationSummary, EmbeddingModelInfo, Inbox } from '@/types'
+import {
+  getAllContracts,
+  getAllEmbeddings,
+  getStaleEmbeddingIds,
+  saveContractEmbeddings,
+} from './contract-storage'
+import { getAllInboxes, saveInboxEmbedding } from './inbox-storage'
+import { buildEmbeddingMatrix } from './embedding-matrix'
+import { embeddingModelKey, isSameEmbeddingModel } from './embedding-providers'
+import { getEmbeddingFileModel } from './embedding-format'
+import { getEmbeddingChunks } from './chunking'
+import { getPrecomputedVectors, loadPrecomputedEmbeddings } from './contract-ingestion'
+import {
+  computeEmbeddingWithModel,
+  ensureVectorIndex,
+  getActiveEmbeddingModel,
+  getEmbeddingText,
+  precomputeAllEmbeddings,
+} from './vector-store'
+
+/**
+ * Whether an inbox's prompt embedding needs redoing for a model
+ * Embeddings saved before model tagging are kept if their dimensions match
+ */
+function isInboxEmbeddingStale(inbox: Inbox, model: EmbeddingModelInfo): boolean {
+  if (!inbox.embedding) return false
+  if (!inbox.embeddingModel) return inbox.embedding.length !== model.dimensions
+  return !isSameEmbeddingModel(inbox.embeddingModel, model)
+}
+
+/**
+ * Bring every stored vector onto the active embedding model
+ * onProgress is called once with (0, total) when there's work to do, then as it completes
+ * Returns null if the active model can't be determined (nothing is touched)
+ */
+export async function migrateEmbeddings(
+  onProgress?: (current: number, total: number) => void
+): Promise<EmbeddingMigrationSummary | null> {
+  const model = await getActiveEmbeddingModel()
+  if (!model) return null
+
+  const staleIds = await getStaleEmbeddingIds(model)
+
+  // Whole-notice vectors from before chunking, for contracts that now split
+  const embeddings = await getAllEmbeddings(model)
+  for (const contract of await getAllContracts()) {
+    const vectors = embeddings.get(contract.id)
+    if (vectors && vectors.length !== getEmbeddingChunks(contract).length) {
+      staleIds.add(contract.id)
+    }
+  }
+  const staleInboxes = (await getAllInboxes()).filter(inbox => isInboxEmbeddingStale(inbox, model))
+
+  const summary: EmbeddingMigrationSummary = { model, contracts: 0, inboxes: 0, failed: 0 }
+  const total = staleIds.size + staleInboxes.length
+
+  if (total === 0) return summary
+
+  console.log('[Embedding Migration] Migrating to', embeddingModelKey(model), {
+    contracts: staleIds.size,
+    inboxes: staleInboxes.length,
+  })
+  onProgress?.(0, total)
+
+  if (staleIds.size > 0) {
+    const contracts = (await getAllContracts()).filter(c => staleIds.has(c.id))
+    const remaining = new Set(contracts.map(c => c.id))
+
+    // Pre-generated vectors are free if the file was built with the new model
+    const precomputed = await loadPrecomputedEmbeddings(model)
+    if (precomputed) {
+      const fromFile = contracts.flatMap(contract => {
+        const vectors = getPrecomputedVectors(precomputed, contract)
+        if (!vectors) return []
+
+        remaining.delete(contract.id)
+        return [{ id: contract.id, text: getEmbeddingText(contract), embeddings: vectors }]
+      })
+
+      if (fromFile.length > 0) {
+        await saveContractEmbeddings(fromFile, getEmbeddingFileModel(precomputed))
+        summary.contracts += fromFile.length
+        onProgress?.(summary.contracts, total)
+      }
+    }
+
+    if (remaining.size > 0) {
+      const offset = summary.contracts
+      try {
+        summary.contracts += await precomputeAllEmbeddings(
+          current => onProgress?.(offset + current, total),
+          Array.from(remaining)
+        )
+      } catch (error) {
+        // Left on the old model - search ignores them and the next load retries
+        console.warn('[Embedding Migration] Re-embedding contracts failed:', error)
+      }
+    }
+
+    summary.failed = contracts.length - summary.contracts
+  }
+
+  for (const [index, inbox] of staleInboxes.entries()) {
+    try {
+      const { embedding, model: inboxModel } = await computeEmbeddingWithModel(inbox.prompt)
+      await saveInboxEmbedding(inbox.id, embedding, inboxModel)
+      summary.inboxes++
+    } catch (error) {
+      console.warn('[Embedding Migration] Re-embedding inbox failed:', inbox.id, error)
+    }
+    onProgress?.(staleIds.size + index + 1, total)
+  }
+
+  // The graph was built from the old model's vectors
+  if (summary.contracts > 0) {
+    try {
+      const matrix = buildEmbeddingMatrix(await getAllEmbeddings(model), model)
+      await ensureVectorIndex(matrix, { rebuild: true })
+    } catch (error) {
+      // Search falls back to a linear scan without the index
+      console.warn('[Embedding Migration] Vector index rebuild failed:', error)
+    }
+  }
+
+  console.log('[Embedding Migration] Complete:', summary)
+  return summary
+}
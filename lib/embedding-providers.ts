@@ -0,0 +1,249 @@
+/**
+ * Embedding Providers - Pluggable backends for turning text into vectors
+ * Used by the /api/embed route, the build-time embedding script and the client
+ *
+ * Providers:
+ * - openai: OpenAI text-embedding-3-small (requires OPENAI_API_KEY)
+ * - local: Deterministic hashed n-gram vectors (no network, no API key)
+ *
+ * Selection: EMBEDDING_PROVIDER=openai|local
+ * If unset, OpenAI is used when OPENAI_API_KEY is present, otherwise local
+ */
+
+import type { EmbeddingModelInfo } from '@/types'
+
+export type EmbeddingProviderName = 'openai' | 'local'
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName
+  model: string
+  dimensions: number
+  embed(text: string): Promise<number[]>
+  embedBatch(texts: string[]): Promise<number[][]>
+}
+
+const OPENAI_MODEL = 'text-embedding-3-small'
+const OPENAI_DIMENSIONS = 1536
+
+const LOCAL_MODEL = 'hashed-ngram-v1'
+const DEFAULT_LOCAL_DIMENSIONS = 512
+
+// ========== OpenAI Provider ==========
+
+/**
+ * Create an OpenAI-backed embedding provider
+ * The OpenAI SDK is loaded lazily so local-only setups never touch it
+ */
+export function createOpenAIEmbeddingProvider(
+  options: { apiKey?: string; model?: string } = {}
+): EmbeddingProvider {
+  const { apiKey = process.env.OPENAI_API_KEY, model = OPENAI_MODEL } = options
+
+  let client: import('openai').default | null = null
+
+  const getClient = async () => {
+    if (!client) {
+      const { default: OpenAI } = await import('openai')
+      client = new OpenAI({ apiKey })
+    }
+    return client
+  }
+
+  const embedBatch = async (texts: string[]): Promise<number[][]> => {
+    if (texts.length === 0) return []
+
+    const openai = await getClient()
+    const response = await openai.embeddings.create({
+      model,
+      input: texts,
+      encoding_format: 'float',
+    })
+
+    // Responses carry an index per input; sort to be safe
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding)
+  }
+
+  return {
+    name: 'openai',
+    model,
+    dimensions: OPENAI_DIMENSIONS,
+    embed: async text => (await embedBatch([text]))[0],
+    embedBatch,
+  }
+}
+
+// ========== Local Provider ==========
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'that', 'the', 'this', 'to',
+  'was', 'we', 'will', 'with', 'which', 'who', 'all', 'any', 'been', 'can', 'me',
+  'show', 'such', 'their', 'they', 'these', 'those', 'us', 'within', 'would',
+])
+
+/**
+ * FNV-1a 32-bit hash (deterministic across browser and Node)
+ */
+export function fnv1a(input: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Split text into lowercase word tokens, dropping stop words and single characters
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&amp;/g, ' ')
+    .split(/[^a-z0-9£]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+}
+
+/**
+ * Hash n-gram features of a text into a fixed-size, L2-normalised vector
+ *
+ * Features (weights):
+ * - word unigrams (1.0) - topical overlap
+ * - word bigrams (0.75) - phrases like "pest control"
+ * - character trigrams (0.25) - tolerance for plurals and spelling variants
+ */
+export function hashedNgramEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const tokens = tokenize(text)
+
+  const add = (feature: string, weight: number) => {
+    vector[fnv1a(feature) % dimensions] += weight
+  }
+
+  tokens.forEach((token, i) => {
+    add(`w:${token}`, 1)
+
+    if (i + 1 < tokens.length) {
+      add(`b:${token} ${tokens[i + 1]}`, 0.75)
+    }
+
+    const padded = `#${token}#`
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.substring(j, j + 3)}`, 0.25)
+    }
+  })
+
+  // Dampen repeated terms so long descriptions don't drown out the title
+  let norm = 0
+  for (let i = 0; i < dimensions; i++) {
+    vector[i] = Math.sqrt(vector[i])
+    norm += vector[i] * vector[i]
+  }
+
+  norm = Math.sqrt(norm)
+  if (norm === 0) return vector
+
+  return vector.map(v => v / norm)
+}
+
+/**
+ * Create a deterministic local embedding provider
+ * Same text always produces the same vector - suitable for air-gapped demos and tests
+ */
+export function createLocalEmbeddingProvider(
+  options: { dimensions?: number } = {}
+): EmbeddingProvider {
+  const { dimensions = DEFAULT_LOCAL_DIMENSIONS } = options
+
+  return {
+    name: 'local',
+    model: LOCAL_MODEL,
+    dimensions,
+    embed: async text => hashedNgramEmbedding(text, dimensions),
+    embedBatch: async texts => texts.map(text => hashedNgramEmbedding(text, dimensions)),
+  }
+}
+
+// ========== Configuration ==========
+
+/**
+ * Resolve which provider is configured
+ */
+export function getConfiguredProviderName(): EmbeddingProviderName {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase()
+
+  if (configured === 'openai' || configured === 'local') {
+    return configured
+  }
+
+  if (configured) {
+    console.warn('[Embedding Providers] Unknown EMBEDDING_PROVIDER:', configured, '- falling back to default')
+  }
+
+  return process.env.OPENAI_API_KEY ? 'openai' : 'local'
+}
+
+/**
+ * Return a configuration problem for the selected provider, or null if it is usable
+ */
+export function getProviderConfigError(
+  name: EmbeddingProviderName = getConfiguredProviderName()
+): string | null {
+  if (name === 'openai' && !process.env.OPENAI_API_KEY) {
+    return 'OpenAI API key not configured on server.'
+  }
+  return null
+}
+
+let cachedProvider: EmbeddingProvider | null = null
+
+/**
+ * Get the configured embedding provider (cached per process)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const name = getConfiguredProviderName()
+
+  if (cachedProvider && cachedProvider.name === name) {
+    return cachedProvider
+  }
+
+  if (name === 'local') {
+    const dimensions = parseInt(process.env.LOCAL_EMBEDDING_DIMENSIONS || '', 10)
+    cachedProvider = createLocalEmbeddingProvider({
+      dimensions: Number.isFinite(dimensions) && dimensions > 0 ? dimensions : undefined,
+    })
+  } else {
+    cachedProvider = createOpenAIEmbeddingProvider()
+  }
+
+  console.log('[Embedding Providers] Using provider:', cachedProvider.name, cachedProvider.model)
+  return cachedProvider
+}
+
+// ========== Model Provenance ==========
+
+/**
+ * Provenance of a provider's vectors
+ */
+export function getEmbeddingModelInfo(provider: EmbeddingProvider): EmbeddingModelInfo {
+  return { provider: provider.name, model: provider.model, dimensions: provider.dimensions }
+}
+
+/**
+ * Stable key for a model, e.g. "openai/text-embedding-3-small/1536"
+ */
+export function embeddingModelKey(info: EmbeddingModelInfo): string {
+  return `${info.provider}/${info.model}/${info.dimensions}`
+}
+
+/**
+ * Whether two vectors' models match (so their similarity means something)
+ */
+export function isSameEmbeddingModel(
+  a: EmbeddingModelInfo | null | undefined,
+  b: EmbeddingModelInfo | null | undefined
+): boolean {
+  return !!a && !!b && embeddingModelKey(a) === embeddingModelKey(b)
+}
@@ -0,0 +1,167 @@
+/**
+ * Experiments - Ranking variants compared on live feedback
+ *
+ * Each variant is a named ranking pipeline: how blended similarity maps to a
+ * match score, the threshold a new inbox starts at, and which learning steps
+ * run. Inboxes created while the experiment is active are assigned a variant
+ * by hashing their ID, stamped on the inbox (Inbox.experimentAssignment).
+ * Results carry the variant that produced them, and feedback records it
+ * (UserFeedback.variantId), so outcomes can be compared per variant in
+ * matching settings.
+ *
+ * Inboxes created before the experiment have no assignment and stay on the
+ * control: their thresholds, relevance range and boosts were learned on the
+ * control's scores, and switching scoring underneath them would invalidate it.
+ *
+ * To start a new experiment, change its ID (only inboxes created from then on
+ * take part) and give new variants new IDs.
+ */
+
+import type { ExperimentAssignment, ExperimentVariantResults, Inbox, UserFeedback } from '@/types'
+import { fnv1a } from './embedding-providers'
+import { getAllFeedback, implicitSignal, isActiveFeedback } from './feedback-storage'
+import { getAllInboxes } from './inbox-storage'
+
+export interface RankingVariant {
+  id: string
+  label: string
+  description: string
+  defaultThreshold?: number // Threshold a new inbox starts at (default DEFAULT_THRESHOLD)
+  scoreFromSimilarity?: (similarity: number) => number // Blended similarity (0-1) → match score (default linear)
+  learnedBoosts?: boolean // Learned buyer/classification boosts (default true)
+  learnedRange?: boolean // Learned min relevance / max irrelevance filter (default true)
+}
+
+export interface RankingExperiment {
+  id: string
+  label: string
+  active: boolean // Inactive: every inbox ranks with the control, and new ones aren't assigned
+  variants: RankingVariant[] // First is the control
+}
+
+/**
+ * Spread the similarities embeddings actually produce (~0.2-0.8) over 0-100
+ */
+function stretchedScore(similarity: number): number {
+  return Math.round(Math.max(0, Math.min(1, (similarity - 0.2) / 0.6)) * 100)
+}
+
+export const RANKING_EXPERIMENT: RankingExperiment = {
+  id: 'ranking-2026-10',
+  label: 'Score mapping, starting threshold and learned range',
+  active: true,
+  variants: [
+    {
+      id: 'control',
+      label: 'Control',
+      description: 'Linear score, 30% starting threshold, all learning',
+    },
+    {
+      id: 'threshold-50',
+      label: '50% start',
+      description: 'New inboxes start at a 50% threshold',
+      defaultThreshold: 50,
+    },
+    {
+      id: 'stretched-score',
+      label: 'Stretched score',
+      description: 'Similarity 0.2-0.8 spread over 0-100%',
+      scoreFromSimilarity: stretchedScore,
+    },
+    {
+      id: 'no-learned-range',
+      label: 'No learned range',
+      description: 'Learning adjusts the threshold and boosts but never filters by learned range',
+      learnedRange: false,
+    },
+  ],
+}
+
+/**
+ * Look up a variant by ID (unknown or missing IDs get the control)
+ */
+export function getRankingVariant(id: string | undefined): RankingVariant {
+  const { variants } = RANKING_EXPERIMENT
+  return variants.find(v => v.id === id) ?? variants[0]
+}
+
+type ExperimentInbox = Pick<Inbox, 'id' | 'isAllContractsInbox' | 'experimentAssignment'>
+
+/**
+ * Assignment to stamp on a new inbox (undefined while the experiment is inactive)
+ * The All Contracts inbox isn't ranked, so it's never assigned
+ */
+export function assignRankingVariant(
+  inbox: Pick<Inbox, 'id' | 'isAllContractsInbox'>
+): ExperimentAssignment | undefined {
+  const { id, active, variants } = RANKING_EXPERIMENT
+  if (!active || inbox.isAllContractsInbox) return undefined
+
+  return {
+    experimentId: id,
+    variantId: variants[fnv1a(`${id}:${inbox.id}`) % variants.length].id,
+    assignedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Whether an inbox was assigned a variant of the current experiment
+ */
+export function isInExperiment(
+  inbox: ExperimentInbox | null | undefined
+): inbox is ExperimentInbox & { experimentAssignment: ExperimentAssignment } {
+  return !!inbox && !inbox.isAllContractsInbox && inbox.experimentAssignment?.experimentId === RANKING_EXPERIMENT.id
+}
+
+/**
+ * Variant an inbox ranks with - the control unless it was assigned one
+ * of the current experiment and the experiment is still active
+ */
+export function getInboxVariant(inbox: ExperimentInbox | null | undefined): RankingVariant {
+  if (!RANKING_EXPERIMENT.active || !isInExperiment(inbox)) return RANKING_EXPERIMENT.variants[0]
+  return getRankingVariant(inbox.experimentAssignment.variantId)
+}
+
+/**
+ * Feedback outcomes per variant, in registry order
+ * Only inboxes assigned in this experiment count
+ */
+export function summarizeExperiment(
+  feedback: UserFeedback[],
+  inboxes: ExperimentInbox[]
+): ExperimentVariantResults[] {
+  const participants = inboxes.filter(isInExperiment)
+  const participantIds = new Set(participants.map(inbox => inbox.id))
+  const active = feedback.filter(f => isActiveFeedback(f) && participantIds.has(f.inboxId))
+
+  return RANKING_EXPERIMENT.variants.map(variant => {
+    const events = active.filter(f => f.variantId === variant.id)
+    const count = (action: UserFeedback['action']) => events.filter(f => f.action === action).length
+    const saved = count('saved')
+    const hidden = count('hidden')
+
+    return {
+      variantId: variant.id,
+      inboxes: participants.filter(inbox => inbox.experimentAssignment.variantId === variant.id).length,
+      saved,
+      hidden,
+      viewed: count('viewed'),
+      engagedViews: events.filter(f => f.action === 'viewed' && implicitSignal(f)).length,
+      ignored: count('ignored'),
+      saveRate: saved + hidden > 0 ? saved / (saved + hidden) : null,
+    }
+  })
+}
+
+/**
+ * Feedback outcomes per variant across all inboxes
+ */
+export async function getExperimentResults(): Promise<ExperimentVariantResults[]> {
+  try {
+    const [feedback, inboxes] = await Promise.all([getAllFeedback(), getAllInboxes()])
+    return summarizeExperiment(feedback, inboxes)
+  } catch (error) {
+    console.error('[Experiments] Error summarising experiment results:', error)
+    throw error
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Explanation Storage - IndexedDB cache for match explanations
+ * Explanations are keyed by inbox prompt hash + contract ID, so reopening a
+ * contract never re-calls /api/explain and editing a prompt invalidates them
+ */
+
+import { openDB, type IDBPDatabase } from 'idb'
+import type { Contract, ExplanationCacheEntry, ExplanationSource } from '@/types'
+import { hashEmbeddingText } from './embedding-format'
+
+const DB_NAME = 'explanation-cache'
+const DB_VERSION = 1
+
+const EXPLANATIONS_STORE = 'explanations'
+
+type ExplanationDB = IDBPDatabase<{
+  explanations: {
+    key: string
+    value: ExplanationCacheEntry
+    indexes: { promptHash: string; contractId: string }
+  }
+}>
+
+/**
+ * Initialize IndexedDB for explanations
+ */
+export async function initExplanationDB(): Promise<ExplanationDB> {
+  try {
+    const db = await openDB<any>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion) {
+        console.log('[Explanation Storage] Upgrading database from version', oldVersion, 'to', DB_VERSION)
+
+        if (!db.objectStoreNames.contains(EXPLANATIONS_STORE)) {
+          const store = db.createObjectStore(EXPLANATIONS_STORE, { keyPath: 'id' })
+          store.createIndex('promptHash', 'promptHash', { unique: false })
+          store.createIndex('contractId', 'contractId', { unique: false })
+          console.log('[Explanation Storage] Created explanations store')
+        }
+      },
+    })
+
+    return db
+  } catch (error) {
+    console.error('[Explanation Storage] Error initializing database:', error)
+    throw error
+  }
+}
+
+/**
+ * Hash of an inbox prompt (whitespace at the ends is ignored)
+ */
+export function hashPrompt(prompt: string): string {
+  return hashEmbeddingText(prompt.trim())
+}
+
+/**
+ * Hash of the notice text an explanation was written from
+ */
+function hashContract(contract: Pick<Contract, 'title' | 'description'>): string {
+  return hashEmbeddingText(`${contract.title}\n\n${contract.description}`)
+}
+
+function explanationKey(promptHash: string, contractId: string): string {
+  return `${promptHash}:${contractId}`
+}
+
+/**
+ * Cached explanation for a prompt and contract
+ * Returns undefined if there's none, or the notice has changed since
+ */
+export async function getCachedExplanation(
+  prompt: string,
+  contract: Pick<Contract, 'id' | 'title' | 'description'>
+): Promise<ExplanationCacheEntry | undefined> {
+  try {
+    const db = await initExplanationDB()
+    const entry = await db.get(EXPLANATIONS_STORE, explanationKey(hashPrompt(prompt), contract.id))
+
+    if (!entry || entry.contractHash !== hashContract(contract)) return undefined
+    return entry
+  } catch (error) {
+    console.error('[Explanation Storage] Error getting explanation:', error)
+    return undefined
+  }
+}
+
+/**
+ * Cache an explanation for a prompt and contract
+ */
+export async function saveCachedExplanation(
+  prompt: string,
+  contract: Pick<Contract, 'id' | 'title' | 'description'>,
+  explanation: string,
+  source: ExplanationSource
+): Promise<ExplanationCacheEntry> {
+  try {
+    const promptHash = hashPrompt(prompt)
+    const entry: ExplanationCacheEntry = {
+      id: explanationKey(promptHash, contract.id),
+      promptHash,
+      contractId: contract.id,
+      contractHash: hashContract(contract),
+      explanation,
+      source,
+      createdAt: new Date().toISOString(),
+    }
+
+    const db = await initExplanationDB()
+    await db.put(EXPLANATIONS_STORE, entry)
+
+    return entry
+  } catch (error) {
+    console.error('[Explanation Storage] Error saving explanation:', error)
+    throw error
+  }
+}
+
+/**
+ * Clear all cached explanations
+ */
+export async function clearExplanationCache(): Promise<void> {
+  try {
+    const db = await initExplanationDB()
+    await db.clear(EXPLANATIONS_STORE)
+    console.log('[Explanation Storage] Cleared explanation cache')
+  } catch (error) {
+    console.error('[Explanation Storage] Error clearing explanation cache:', error)
+    throw error
+  }
+}
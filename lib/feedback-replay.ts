@@ -0,0 +1,204 @@
+/**
+ * Feedback Replay - Counterfactual comparison of learning policies
+ *
+ * Replays an inbox's feedback in time order. At each contract's first save or
+ * hide, the learning state is rebuilt from the feedback given before it, and
+ * each policy decides whether the contract would have been shown: the recorded
+ * match score against the policy's threshold, then its boosts and learned
+ * relevance range (the order search applies them). Counting the eventual saves
+ * each policy surfaces, and the eventual hides it filters, shows whether a
+ * different policy would have served the inbox better.
+ *
+ * Scores are replayed as recorded, so they include any boosts live at the time,
+ * and only contracts the user was actually shown have feedback to replay.
+ */
+
+import type {
+  Contract,
+  FeedbackReplayReport,
+  Inbox,
+  LearningPolicy,
+  LearningPolicyResult,
+  UserFeedback,
+} from '@/types'
+import { getContractById } from './contract-storage'
+import { getFeedbackForInbox } from './feedback-storage'
+import { getInboxById } from './inbox-storage'
+import {
+  DEFAULT_THRESHOLD,
+  calculateLearnedBoosts,
+  getActiveBoosts,
+  getDefaultThreshold,
+  initialLearningState,
+  learningReducer,
+  shouldApplyLearning,
+} from './learning'
+import { latestJudgements } from './relevance-feedback'
+
+export const DEFAULT_LEARNING_POLICIES: LearningPolicy[] = [
+  { id: 'current', label: 'Current', threshold: 'learned', boosts: true, relevanceRange: true },
+  { id: 'no-range', label: 'No relevance range', threshold: 'learned', boosts: true, relevanceRange: false },
+  { id: 'threshold-only', label: 'Learned threshold only', threshold: 'learned', boosts: false, relevanceRange: false },
+  { id: 'boosts-only', label: `Boosts at ${DEFAULT_THRESHOLD}%`, threshold: DEFAULT_THRESHOLD, boosts: true, relevanceRange: false },
+  { id: 'no-learning', label: `No learning (${DEFAULT_THRESHOLD}%)`, threshold: DEFAULT_THRESHOLD, boosts: false, relevanceRange: false },
+]
+
+// Missed saves listed per policy
+const MAX_MISSED_SAVES = 5
+
+type ReplayContract = Pick<Contract, 'title' | 'authority' | 'buyerClassification'>
+
+/**
+ * Feedback as it stood just before a moment: later events dropped, and undo
+ * or supersession that hadn't happened yet reversed
+ */
+function feedbackAsOf(feedback: UserFeedback[], byId: Map<string, UserFeedback>, at: string): UserFeedback[] {
+  return feedback
+    .filter(f => f.timestamp < at)
+    .map(f => {
+      const supersededLater = !!f.supersededBy && (byId.get(f.supersededBy)?.timestamp ?? '') >= at
+      const retractedLater = !!f.retractedAt && f.retractedAt >= at
+      if (!supersededLater && !retractedLater) return f
+
+      return {
+        ...f,
+        supersededBy: supersededLater ? undefined : f.supersededBy,
+        retractedAt: retractedLater ? undefined : f.retractedAt,
+      }
+    })
+}
+
+/**
+ * Replay feedback through each policy
+ *
+ * @param inbox Inbox the feedback belongs to
+ * @param feedback All feedback for the inbox
+ * @param contracts Contract ID → contract, for boosts and missed-save titles
+ * @param policies Policies to compare, side by side
+ * @param now End of the replay (final thresholds are learned up to here)
+ */
+export function replayFeedback(
+  inbox: Pick<Inbox, 'id' | 'isAllContractsInbox' | 'experimentAssignment'>,
+  feedback: UserFeedback[],
+  contracts: Map<string, ReplayContract>,
+  policies: LearningPolicy[] = DEFAULT_LEARNING_POLICIES,
+  now: string = new Date().toISOString()
+): FeedbackReplayReport {
+  const events = [...feedback].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  const byId = new Map(events.map(f => [f.id, f]))
+
+  // What the user made of each contract in the end
+  const outcomes = latestJudgements(events)
+
+  // Each contract is replayed at its first save or hide, on the score shown then
+  const firstJudgements = new Map<string, UserFeedback>()
+  for (const f of events) {
+    if ((f.action === 'saved' || f.action === 'hidden') && !firstJudgements.has(f.contractId)) {
+      firstJudgements.set(f.contractId, f)
+    }
+  }
+
+  // Learned thresholds start where the inbox's ranking variant starts them
+  const startThreshold = getDefaultThreshold(inbox)
+
+  const results: LearningPolicyResult[] = policies.map(policy => ({
+    policy,
+    saved: { surfaced: 0, filtered: 0 },
+    hidden: { surfaced: 0, filtered: 0 },
+    finalThreshold: typeof policy.threshold === 'number' ? policy.threshold : startThreshold,
+    missedSaves: [],
+  }))
+
+  // Policies share the learning state - they differ only in which parts they apply
+  let state = initialLearningState(inbox.id, events[0]?.timestamp ?? now, startThreshold)
+
+  for (const judgement of firstJudgements.values()) {
+    const outcome = outcomes.get(judgement.contractId)
+    if (!outcome) continue // Undone since
+
+    const at = judgement.timestamp
+    const history = feedbackAsOf(events, byId, at)
+    state = learningReducer(state, { type: 'feedback', events: history }, at)
+    const metrics = { ...state, ...calculateLearnedBoosts(history, contracts, new Date(at).getTime()) }
+    const boosts = getActiveBoosts(metrics, undefined)
+    const contract = contracts.get(judgement.contractId)
+
+    for (const result of results) {
+      const { policy } = result
+      const threshold = policy.threshold === 'learned' ? metrics.dynamicMinScore : policy.threshold
+      let score = judgement.matchScore
+      let shown = score >= threshold
+
+      if (shown && policy.boosts && contract) {
+        const boost = (boosts.authority[contract.authority] || 0) + (boosts.classification[contract.buyerClassification] || 0)
+        score = Math.max(0, Math.min(100, Math.round(score + boost)))
+      }
+
+      if (shown && policy.relevanceRange && shouldApplyLearning(metrics)) {
+        shown = score >= metrics.minRelevanceScore && score <= metrics.maxIrrelevanceScore
+      }
+
+      const tally = outcome.action === 'saved' ? result.saved : result.hidden
+      if (shown) {
+        tally.surfaced++
+      } else {
+        tally.filtered++
+        if (outcome.action === 'saved') {
+          result.missedSaves.push({ contractId: judgement.contractId, title: contract?.title, matchScore: judgement.matchScore, threshold })
+        }
+      }
+    }
+  }
+
+  // Where each learned threshold would stand today
+  const finalState = learningReducer(state, { type: 'feedback', events }, now)
+
+  for (const result of results) {
+    if (result.policy.threshold === 'learned') result.finalThreshold = finalState.dynamicMinScore
+    result.missedSaves = result.missedSaves
+      .sort((a, b) => b.matchScore - a.matchScore)
+      .slice(0, MAX_MISSED_SAVES)
+  }
+
+  return {
+    inboxId: inbox.id,
+    replayedAt: now,
+    events: events.length,
+    from: events[0]?.timestamp,
+    to: events[events.length - 1]?.timestamp,
+    policies: results,
+  }
+}
+
+/**
+ * Replay an inbox's stored feedback through each policy
+ */
+export async function replayInboxFeedback(
+  inboxId: string,
+  policies: LearningPolicy[] = DEFAULT_LEARNING_POLICIES
+): Promise<FeedbackReplayReport> {
+  try {
+    const [inbox, feedback] = await Promise.all([getInboxById(inboxId), getFeedbackForInbox(inboxId)])
+
+    const contracts = new Map<string, ReplayContract>()
+    for (const { contractId } of feedback) {
+      if (contracts.has(contractId)) continue
+      const contract = await getContractById(contractId)
+      if (contract) contracts.set(contractId, contract)
+    }
+
+    const report = replayFeedback(inbox ?? { id: inboxId }, feedback, contracts, policies)
+
+    console.log('[Feedback Replay] Replayed', report.events, 'events for inbox:', inboxId, report.policies.map(r => ({
+      policy: r.policy.id,
+      savesSurfaced: r.saved.surfaced,
+      savesFiltered: r.saved.filtered,
+      hidesFiltered: r.hidden.filtered,
+    })))
+
+    return report
+  } catch (error) {
+    console.error('[Feedback Replay] Error replaying feedback:', error)
+    throw error
+  }
+}
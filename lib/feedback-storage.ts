@@ -4,13 +4,38 @@
  */
 
 import { openDB, type IDBPDatabase } from 'idb'
-import type { UserFeedback, InboxLearningMetrics } from '@/types'
-import { calculateDynamicThreshold } from './learning'
+import type { ContractImpression, UserFeedback, InboxLearningMetrics } from '@/types'
+import { initialLearningState, learningReducer } from './learning'
 
 const DB_NAME = 'feedback-storage'
-const DB_VERSION = 1
+const DB_VERSION = 2
 
 const FEEDBACK_STORE = 'feedback'
+const IMPRESSIONS_STORE = 'impressions'
+
+// Actions that state (or reverse) a judgement on a contract - a new one supersedes the last
+const JUDGEMENT_ACTIONS: UserFeedback['action'][] = ['saved', 'hidden', 'unsaved', 'restored']
+
+// Feedback this old counts half as much in learning
+export const FEEDBACK_HALF_LIFE_DAYS = 90
+
+// Implicit signals count for a fraction of an explicit save (positive) or hide (negative)
+export const IMPLICIT_FEEDBACK_WEIGHTS = {
+  view: 0.25, // Opened, nothing more
+  dwell: 0.35, // Stayed open for ENGAGED_DWELL_SECONDS
+  externalLink: 0.5, // Followed the notice link
+  ignored: 0.2, // Scrolled past IGNORE_AFTER_IMPRESSIONS times without opening
+}
+
+export const ENGAGED_DWELL_SECONDS = 30
+
+// Visits a contract can be scrolled past before it counts as ignored
+export const IGNORE_AFTER_IMPRESSIONS = 3
+
+// Sightings closer together than this are the same visit
+const IMPRESSION_GAP = 30 * 60 * 1000
+
+const DAY = 24 * 60 * 60 * 1000
 
 type FeedbackDB = IDBPDatabase<{
   feedback: {
@@ -18,6 +43,11 @@ type FeedbackDB = IDBPDatabase<{
     value: UserFeedback
     indexes: { inboxId: string; contractId: string; action: string; timestamp: string }
   }
+  impressions: {
+    key: string
+    value: ContractImpression
+    indexes: { inboxId: string }
+  }
 }>
 
 /**
@@ -40,6 +70,14 @@ export async function initFeedbackDB(): Promise<FeedbackDB> {
 
           console.log('[Feedback Storage] Created feedback store with indexes')
         }
+
+        // Version 2: list impressions, for 'ignored' implicit feedback
+        if (!db.objectStoreNames.contains(IMPRESSIONS_STORE)) {
+          const impressionsStore = db.createObjectStore(IMPRESSIONS_STORE, { keyPath: 'id' })
+          impressionsStore.createIndex('inboxId', 'inboxId', { unique: false })
+
+          console.log('[Feedback Storage] Created impressions store')
+        }
       },
     })
 
@@ -62,6 +100,10 @@ export async function recordFeedback(
   options: {
     hideReason?: string
     viewDuration?: number
+    externalLinkClicked?: boolean
+    impressions?: number
+    promptRevisionId?: string
+    variantId?: string
   } = {}
 ): Promise<UserFeedback> {
   try {
@@ -76,9 +118,27 @@ export async function recordFeedback(
     }
 
     const db = await initFeedbackDB()
-    await db.put(FEEDBACK_STORE, feedback)
 
-    console.log('[Feedback Storage] Recorded feedback:', feedback.id, action, `score: ${matchScore}%`)
+    // A save/hide/unsave/restore replaces the contract's previous one in this inbox
+    let previous: UserFeedback | undefined
+    if (JUDGEMENT_ACTIONS.includes(action)) {
+      const forContract = await db.getAllFromIndex(FEEDBACK_STORE, 'contractId', contractId)
+      previous = forContract
+        .filter(f => f.inboxId === inboxId && JUDGEMENT_ACTIONS.includes(f.action) && isActiveFeedback(f))
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .pop()
+      if (previous) feedback.supersedes = previous.id
+    }
+
+    const tx = db.transaction(FEEDBACK_STORE, 'readwrite')
+    await Promise.all([
+      tx.store.put(feedback),
+      ...(previous ? [tx.store.put({ ...previous, supersededBy: feedback.id })] : []),
+      tx.done,
+    ])
+
+    console.log('[Feedback Storage] Recorded feedback:', feedback.id, action, `score: ${matchScore}%`,
+      previous ? `(supersedes ${previous.action} ${previous.id})` : '')
 
     return feedback
   } catch (error) {
@@ -87,6 +147,165 @@ export async function recordFeedback(
   }
 }
 
+/**
+ * Retract feedback the user undid
+ * The row is kept (marked retractedAt) and whatever it superseded counts again
+ */
+export async function retractFeedback(feedbackId: string): Promise<UserFeedback | undefined> {
+  try {
+    const db = await initFeedbackDB()
+    const feedback = await db.get(FEEDBACK_STORE, feedbackId)
+    if (!feedback) {
+      console.warn('[Feedback Storage] Feedback not found for retraction:', feedbackId)
+      return undefined
+    }
+
+    const retracted: UserFeedback = { ...feedback, retractedAt: new Date().toISOString() }
+    const superseded = feedback.supersedes ? await db.get(FEEDBACK_STORE, feedback.supersedes) : undefined
+
+    const tx = db.transaction(FEEDBACK_STORE, 'readwrite')
+    await Promise.all([
+      tx.store.put(retracted),
+      ...(superseded?.supersededBy === feedback.id ? [tx.store.put({ ...superseded, supersededBy: undefined })] : []),
+      tx.done,
+    ])
+
+    console.log('[Feedback Storage] Retracted feedback:', feedbackId, feedback.action)
+    return retracted
+  } catch (error) {
+    console.error('[Feedback Storage] Error retracting feedback:', error)
+    throw error
+  }
+}
+
+/**
+ * Complete a 'viewed' event with how long the contract stayed open and whether its link was followed
+ */
+export async function recordViewEngagement(
+  feedbackId: string,
+  engagement: { viewDuration: number; externalLinkClicked: boolean }
+): Promise<UserFeedback | undefined> {
+  try {
+    const db = await initFeedbackDB()
+    const feedback = await db.get(FEEDBACK_STORE, feedbackId)
+    if (!feedback) return undefined
+
+    const updated: UserFeedback = {
+      ...feedback,
+      viewDuration: (feedback.viewDuration ?? 0) + engagement.viewDuration,
+      externalLinkClicked: feedback.externalLinkClicked || engagement.externalLinkClicked || undefined,
+    }
+    await db.put(FEEDBACK_STORE, updated)
+
+    console.log('[Feedback Storage] Recorded view engagement:', feedbackId, `${updated.viewDuration}s`,
+      updated.externalLinkClicked ? '(link followed)' : '')
+    return updated
+  } catch (error) {
+    console.error('[Feedback Storage] Error recording view engagement:', error)
+    throw error
+  }
+}
+
+/**
+ * Count contracts seen in an inbox's list (once per visit)
+ * Ones seen on IGNORE_AFTER_IMPRESSIONS visits with no feedback at all become 'ignored' events
+ *
+ * @returns The 'ignored' events recorded
+ */
+export async function recordImpressions(
+  inboxId: string,
+  seen: Array<{ contractId: string; matchScore: number; variantId?: string }>,
+  promptRevisionId?: string
+): Promise<UserFeedback[]> {
+  try {
+    const db = await initFeedbackDB()
+    const now = Date.now()
+    const ignored: UserFeedback[] = []
+
+    for (const { contractId, matchScore, variantId } of seen) {
+      const id = `${inboxId}:${contractId}`
+      const impression: ContractImpression = (await db.get(IMPRESSIONS_STORE, id)) ?? {
+        id,
+        inboxId,
+        contractId,
+        count: 0,
+        lastSeenAt: '',
+      }
+
+      if (impression.ignoredFeedbackId) continue
+      if (impression.lastSeenAt && now - new Date(impression.lastSeenAt).getTime() < IMPRESSION_GAP) continue
+
+      impression.count++
+      impression.lastSeenAt = new Date(now).toISOString()
+
+      if (impression.count >= IGNORE_AFTER_IMPRESSIONS) {
+        // Opened, saved or hidden at some point means it wasn't ignored
+        const forContract = await db.getAllFromIndex(FEEDBACK_STORE, 'contractId', contractId)
+        if (!forContract.some(f => f.inboxId === inboxId && !f.retractedAt)) {
+          const feedback = await recordFeedback(inboxId, contractId, 'ignored', matchScore, {
+            impressions: impression.count,
+            promptRevisionId,
+            variantId,
+          })
+          impression.ignoredFeedbackId = feedback.id
+          ignored.push(feedback)
+        }
+      }
+
+      await db.put(IMPRESSIONS_STORE, impression)
+    }
+
+    return ignored
+  } catch (error) {
+    console.error('[Feedback Storage] Error recording impressions:', error)
+    return []
+  }
+}
+
+/**
+ * What an implicit event says about a contract, and how much it counts
+ * Undefined for explicit actions and for views too brief to mean anything
+ */
+export function implicitSignal(
+  feedback: Pick<UserFeedback, 'action' | 'viewDuration' | 'externalLinkClicked'>
+): { action: 'saved' | 'hidden'; weight: number } | undefined {
+  if (feedback.action === 'ignored') {
+    return { action: 'hidden', weight: IMPLICIT_FEEDBACK_WEIGHTS.ignored }
+  }
+  if (feedback.action !== 'viewed') return undefined
+
+  if (feedback.externalLinkClicked) {
+    return { action: 'saved', weight: IMPLICIT_FEEDBACK_WEIGHTS.externalLink }
+  }
+  if ((feedback.viewDuration ?? 0) >= ENGAGED_DWELL_SECONDS) {
+    return { action: 'saved', weight: IMPLICIT_FEEDBACK_WEIGHTS.dwell }
+  }
+  return undefined
+}
+
+/**
+ * How much an event counts towards learning confidence - explicit actions 1, implicit less
+ */
+export function signalWeight(feedback: Pick<UserFeedback, 'action' | 'viewDuration' | 'externalLinkClicked'>): number {
+  if (feedback.action !== 'viewed' && feedback.action !== 'ignored') return 1
+  return implicitSignal(feedback)?.weight ?? IMPLICIT_FEEDBACK_WEIGHTS.view
+}
+
+/**
+ * Whether feedback still counts (not retracted or superseded)
+ */
+export function isActiveFeedback(feedback: Pick<UserFeedback, 'retractedAt' | 'supersededBy'>): boolean {
+  return !feedback.retractedAt && !feedback.supersededBy
+}
+
+/**
+ * Learning weight for feedback given at a time - halves every FEEDBACK_HALF_LIFE_DAYS
+ */
+export function recencyWeight(timestamp: string, now: number = Date.now()): number {
+  const age = Math.max(0, now - new Date(timestamp).getTime())
+  return Number.isFinite(age) ? Math.pow(0.5, age / (FEEDBACK_HALF_LIFE_DAYS * DAY)) : 1
+}
+
 /**
  * Get all feedback for an inbox
  */
@@ -120,108 +339,40 @@ export async function getFeedbackForContract(contractId: string): Promise<UserFe
   }
 }
 
+/**
+ * Get feedback across all inboxes (for experiment results)
+ */
+export async function getAllFeedback(): Promise<UserFeedback[]> {
+  try {
+    const db = await initFeedbackDB()
+    return await db.getAll(FEEDBACK_STORE)
+  } catch (error) {
+    console.error('[Feedback Storage] Error getting all feedback:', error)
+    return []
+  }
+}
+
 /**
  * Analyze feedback patterns and calculate learning metrics
+ * A from-scratch fold of all the inbox's feedback; updateInboxLearning folds
+ * into the stored metrics instead, keeping threshold overrides and history
  */
 export async function analyzeFeedbackPatterns(inboxId: string): Promise<InboxLearningMetrics> {
   try {
     const feedback = await getFeedbackForInbox(inboxId)
-
-    if (feedback.length === 0) {
-      // No feedback yet, return defaults
-      return {
-        inboxId,
-        minRelevanceScore: 0,
-        maxIrrelevanceScore: 100,
-        dynamicMinScore: 30, // Start at lower baseline for better recall (changed from 50)
-        thresholdAdjustments: {
-          expandedCount: 0,
-          narrowedCount: 0,
-          lastAdjustment: new Date().toISOString(),
-        },
-        promptRefinements: [],
-        pendingPromptUpdate: false,
-        totalFeedback: 0,
-        savedContracts: 0,
-        hiddenContracts: 0,
-        viewedContracts: 0,
-        authorityBoosts: {},
-        classificationBoosts: {},
-        confidenceLevel: 0,
-        lastUpdated: new Date().toISOString(),
-      }
-    }
-
-    // Separate by action
-    const saved = feedback.filter(f => f.action === 'saved')
-    const hidden = feedback.filter(f => f.action === 'hidden')
-    const viewed = feedback.filter(f => f.action === 'viewed')
-
-    // Calculate thresholds
-    const savedScores = saved.map(f => f.matchScore)
-    const hiddenScores = hidden.map(f => f.matchScore)
-
-    let minRelevanceScore = 0
-    let maxIrrelevanceScore = 100
-
-    if (savedScores.length > 0) {
-      // Set min threshold 10% below lowest saved score
-      const minSaved = Math.min(...savedScores)
-      minRelevanceScore = Math.max(0, minSaved - 10)
-    }
-
-    if (hiddenScores.length > 0) {
-      // Set max threshold 5% above highest hidden score
-      const maxHidden = Math.max(...hiddenScores)
-      maxIrrelevanceScore = Math.min(100, maxHidden + 5)
-    }
-
-    // Calculate confidence based on amount of feedback
-    // More feedback = higher confidence in adjustments
-    const confidenceLevel = Math.min(100, (feedback.length / 20) * 100)
-
-    // Calculate dynamic threshold based on user behavior
-    const currentThreshold = 50 // Start with moderate baseline
-    const { threshold: dynamicMinScore, reason: thresholdReason } = calculateDynamicThreshold(
-      feedback,
-      currentThreshold
-    )
-
-    // Track threshold adjustments
-    const thresholdAdjustments = {
-      expandedCount: dynamicMinScore < currentThreshold ? 1 : 0,
-      narrowedCount: dynamicMinScore > currentThreshold ? 1 : 0,
-      lastAdjustment: new Date().toISOString(),
-    }
+    const metrics = learningReducer(initialLearningState(inboxId), { type: 'feedback', events: feedback })
 
     console.log('[Feedback Storage] Analyzed patterns:', {
-      totalFeedback: feedback.length,
-      saved: saved.length,
-      hidden: hidden.length,
-      minRelevanceScore,
-      maxIrrelevanceScore,
-      dynamicMinScore,
-      thresholdReason,
-      confidenceLevel: Math.round(confidenceLevel),
+      totalFeedback: metrics.totalFeedback,
+      saved: metrics.savedContracts,
+      hidden: metrics.hiddenContracts,
+      minRelevanceScore: metrics.minRelevanceScore,
+      maxIrrelevanceScore: metrics.maxIrrelevanceScore,
+      dynamicMinScore: metrics.dynamicMinScore,
+      confidenceLevel: metrics.confidenceLevel,
     })
 
-    return {
-      inboxId,
-      minRelevanceScore: Math.round(minRelevanceScore),
-      maxIrrelevanceScore: Math.round(maxIrrelevanceScore),
-      dynamicMinScore,
-      thresholdAdjustments,
-      promptRefinements: [], // Managed separately in app logic
-      pendingPromptUpdate: false,
-      totalFeedback: feedback.length,
-      savedContracts: saved.length,
-      hiddenContracts: hidden.length,
-      viewedContracts: viewed.length,
-      authorityBoosts: {}, // TODO: Implement in Phase 4
-      classificationBoosts: {}, // TODO: Implement in Phase 4
-      confidenceLevel: Math.round(confidenceLevel),
-      lastUpdated: new Date().toISOString(),
-    }
+    return metrics
   } catch (error) {
     console.error('[Feedback Storage] Error analyzing patterns:', error)
     throw error
@@ -235,10 +386,12 @@ export async function clearInboxFeedback(inboxId: string): Promise<void> {
   try {
     const db = await initFeedbackDB()
     const feedback = await getFeedbackForInbox(inboxId)
+    const impressionIds = await db.getAllKeysFromIndex(IMPRESSIONS_STORE, 'inboxId', inboxId)
 
-    const tx = db.transaction(FEEDBACK_STORE, 'readwrite')
+    const tx = db.transaction([FEEDBACK_STORE, IMPRESSIONS_STORE], 'readwrite')
     await Promise.all([
-      ...feedback.map(f => tx.store.delete(f.id)),
+      ...feedback.map(f => tx.objectStore(FEEDBACK_STORE).delete(f.id)),
+      ...impressionIds.map(id => tx.objectStore(IMPRESSIONS_STORE).delete(id)),
       tx.done,
     ])
 
@@ -256,6 +409,7 @@ export async function clearAllFeedback(): Promise<void> {
   try {
     const db = await initFeedbackDB()
     await db.clear(FEEDBACK_STORE)
+    await db.clear(IMPRESSIONS_STORE)
     console.log('[Feedback Storage] Cleared all feedback')
   } catch (error) {
     console.error('[Feedback Storage] Error clearing all feedback:', error)
@@ -268,7 +422,7 @@ export async function clearAllFeedback(): Promise<void> {
  */
 export async function getFeedbackStats(inboxId: string) {
   try {
-    const feedback = await getFeedbackForInbox(inboxId)
+    const feedback = (await getFeedbackForInbox(inboxId)).filter(isActiveFeedback)
 
     const saved = feedback.filter(f => f.action === 'saved')
     const hidden = feedback.filter(f => f.action === 'hidden')
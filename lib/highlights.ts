@@ -0,0 +1,122 @@
+/**
+ * Highlights - Finds the passage of a description that made a contract match
+ * Sentences inside the best-matching chunk (see chunking.ts) are ranked by
+ * overlap with the query's terms, so reviewers can triage without reading
+ * the whole notice. Pure text processing - no extra embedding calls.
+ */
+
+import type { TextSpan } from '@/types'
+import { toTerms } from './bm25'
+
+// Sentences highlighted per result
+const MAX_HIGHLIGHTS = 2
+
+// Card snippets are clamped to one line anyway
+const SNIPPET_LENGTH = 160
+
+/**
+ * Split a range of text into sentence spans
+ * Breaks after . ! ? followed by whitespace, and at line breaks
+ */
+export function splitSentences(text: string, range: TextSpan = { start: 0, end: text.length }): TextSpan[] {
+  const sentences: TextSpan[] = []
+  const pattern = /[.!?](?=\s)|\n+/g
+  pattern.lastIndex = range.start
+
+  let start = range.start
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(text)) && match.index < range.end) {
+    const end = match.index + (match[0].startsWith('\n') ? 0 : 1)
+    sentences.push({ start, end })
+    start = match.index + match[0].length
+  }
+  sentences.push({ start, end: range.end })
+
+  // Trim surrounding whitespace and drop empty pieces
+  return sentences
+    .map(({ start, end }) => {
+      while (start < end && /\s/.test(text[start])) start++
+      while (end > start && /\s/.test(text[end - 1])) end--
+      return { start, end }
+    })
+    .filter(({ start, end }) => end > start)
+}
+
+/**
+ * Best-matching sentences of a description for a query, in reading order
+ *
+ * Searches the matched chunk when given. If no sentence shares a term with
+ * the query (a purely semantic match), a chunk narrower than the description
+ * is highlighted as a whole; otherwise there's nothing to point at.
+ */
+export function findHighlights(description: string, query: string, chunk?: TextSpan): TextSpan[] {
+  if (!description) return []
+
+  const range = chunk ?? { start: 0, end: description.length }
+  const queryTerms = new Set(toTerms(query))
+
+  const scored = splitSentences(description, range)
+    .map(sentence => {
+      const terms = new Set(toTerms(description.slice(sentence.start, sentence.end)))
+      let overlap = 0
+      queryTerms.forEach(term => {
+        if (terms.has(term)) overlap++
+      })
+      // Favour dense matches over long sentences that mention a term in passing
+      return { sentence, score: overlap / Math.sqrt(terms.size || 1) }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  if (scored.length === 0) {
+    const isWholeDescription = range.start === 0 && range.end === description.length
+    return isWholeDescription ? [] : [range]
+  }
+
+  return scored
+    .slice(0, MAX_HIGHLIGHTS)
+    .map(({ sentence }) => sentence)
+    .sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Split text into plain and highlighted segments for rendering
+ * Overlapping or out-of-range spans are merged/clamped
+ */
+export function segmentHighlights(
+  text: string,
+  highlights: TextSpan[] = []
+): Array<{ text: string; highlighted: boolean }> {
+  const segments: Array<{ text: string; highlighted: boolean }> = []
+  let position = 0
+
+  for (const span of [...highlights].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(position, Math.min(span.start, text.length))
+    const end = Math.min(span.end, text.length)
+    if (end <= start) continue
+
+    if (start > position) segments.push({ text: text.slice(position, start), highlighted: false })
+    segments.push({ text: text.slice(start, end), highlighted: true })
+    position = end
+  }
+
+  if (position < text.length) segments.push({ text: text.slice(position), highlighted: false })
+  return segments
+}
+
+/**
+ * One-line card snippet built from the first highlight
+ * Returns undefined when there's no highlight, so callers keep their default
+ */
+export function buildHighlightSnippet(description: string, highlights: TextSpan[] = []): string | undefined {
+  const first = highlights[0]
+  if (!first) return undefined
+
+  let snippet = description.slice(first.start, first.end).replace(/\s+/g, ' ').trim()
+  if (snippet.length > SNIPPET_LENGTH) {
+    snippet = snippet.slice(0, SNIPPET_LENGTH).replace(/\s+\S*$/, '') + '…'
+  }
+
+  return first.start > 0 ? `…${snippet}` : snippet
+}
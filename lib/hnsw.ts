@@ -0,0 +1,501 @@
+/**
+ * HNSW - Approximate nearest-neighbour index over contract embeddings
+ * Hierarchical navigable small world graph (Malkov & Yashunin, 2016)
+ *
+ * The graph is plain JSON so it can be persisted in IndexedDB and updated
+ * incrementally as contracts are added, re-embedded or removed. Vectors are
+ * not copied into the index - callers supply a lookup into their embeddings.
+ * Reverse links are derived in memory when an index is loaded, never persisted.
+ */
+
+import type { VectorIndex, VectorIndexNode } from '@/types'
+
+export const VECTOR_INDEX_ID = 'hnsw'
+export const VECTOR_INDEX_VERSION = 3 // 2: nodes are chunks ("<contract id>#<chunk>"), 3: nodes stored one per record
+
+// Below this many contracts a linear scan is as fast as walking the graph
+export const ANN_MIN_CONTRACTS = 2000
+
+// Search breadth - higher is slower but closer to exact
+export const DEFAULT_EF_SEARCH = 64
+
+const DEFAULT_M = 16
+const DEFAULT_EF_CONSTRUCTION = 100
+
+export type VectorLookup = (id: string) => ArrayLike<number> | undefined
+
+export interface Neighbour {
+  id: string
+  similarity: number
+}
+
+/**
+ * Working state derived from a loaded index
+ */
+interface GraphState {
+  incoming: Map<string, Set<string>> // Node ID → nodes linking to it (on any layer)
+  changed: Set<string> // Nodes added, relinked or removed since last taken
+}
+
+const graphStates = new WeakMap<VectorIndex, GraphState>()
+
+function getGraphState(index: VectorIndex): GraphState {
+  let state = graphStates.get(index)
+  if (state) return state
+
+  state = { incoming: new Map(), changed: new Set() }
+  for (const [id, node] of Object.entries(index.nodes)) {
+    for (const links of node.neighbours) {
+      for (const target of links) addIncoming(state, target, id)
+    }
+  }
+
+  graphStates.set(index, state)
+  return state
+}
+
+function addIncoming(state: GraphState, target: string, source: string): void {
+  const sources = state.incoming.get(target)
+  if (sources) sources.add(source)
+  else state.incoming.set(target, new Set([source]))
+}
+
+/**
+ * Replace a node's links on one layer, keeping reverse links in step
+ */
+function setLinks(index: VectorIndex, id: string, level: number, links: string[]): void {
+  const state = getGraphState(index)
+  const node = index.nodes[id]
+  const previous = node.neighbours[level]
+  node.neighbours[level] = links
+  state.changed.add(id)
+
+  for (const target of links) addIncoming(state, target, id)
+  for (const target of previous) {
+    if (!node.neighbours.some(layer => layer.includes(target))) {
+      state.incoming.get(target)?.delete(id)
+    }
+  }
+}
+
+/**
+ * Cosine similarity (kept local - this is the hot path of every graph walk)
+ */
+function similarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB)
+  return magnitude === 0 ? 0 : dot / magnitude
+}
+
+/**
+ * Insert into a list kept sorted by similarity, best first
+ */
+function insertSorted(list: Neighbour[], item: Neighbour): void {
+  let low = 0
+  let high = list.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (list[mid].similarity >= item.similarity) low = mid + 1
+    else high = mid
+  }
+  list.splice(low, 0, item)
+}
+
+/**
+ * Create an empty index
+ */
+export function createVectorIndex(
+  dimensions: number,
+  options: { model?: string; m?: number; efConstruction?: number } = {}
+): VectorIndex {
+  const now = new Date().toISOString()
+
+  return {
+    id: VECTOR_INDEX_ID,
+    version: VECTOR_INDEX_VERSION,
+    dimensions,
+    model: options.model ?? '',
+    m: options.m ?? DEFAULT_M,
+    efConstruction: options.efConstruction ?? DEFAULT_EF_CONSTRUCTION,
+    entryPoint: null,
+    maxLevel: 0,
+    nodes: {},
+    builtAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Greedy best-first search within one layer
+ * Returns up to ef nearest nodes found, best first
+ */
+function searchLayer(
+  index: VectorIndex,
+  query: ArrayLike<number>,
+  entryPoints: Neighbour[],
+  ef: number,
+  level: number,
+  getVector: VectorLookup
+): Neighbour[] {
+  const visited = new Set(entryPoints.map(e => e.id))
+  const candidates: Neighbour[] = []
+  const results: Neighbour[] = []
+
+  for (const entry of entryPoints) {
+    insertSorted(candidates, entry)
+    insertSorted(results, entry)
+  }
+  if (results.length > ef) results.length = ef
+
+  while (candidates.length > 0) {
+    const current = candidates.shift()!
+
+    // Closest unexpanded candidate is worse than everything we've kept
+    if (results.length >= ef && current.similarity < results[results.length - 1].similarity) {
+      break
+    }
+
+    const neighbours = index.nodes[current.id]?.neighbours[level] || []
+
+    for (const id of neighbours) {
+      if (visited.has(id)) continue
+      visited.add(id)
+
+      const vector = getVector(id)
+      if (!vector) continue
+
+      const neighbour = { id, similarity: similarity(query, vector) }
+
+      if (results.length < ef || neighbour.similarity > results[results.length - 1].similarity) {
+        insertSorted(candidates, neighbour)
+        insertSorted(results, neighbour)
+        if (results.length > ef) results.pop()
+      }
+    }
+  }
+
+  return results
+}
+
+/**
+ * Neighbour selection heuristic (algorithm 4 of the HNSW paper)
+ * Prefers candidates that aren't already covered by a closer selected neighbour,
+ * which keeps the graph navigable across clusters. Pruned candidates fill any gap.
+ */
+function selectNeighbours(
+  candidates: Neighbour[],
+  maxConnections: number,
+  getVector: VectorLookup
+): Neighbour[] {
+  const selected: Neighbour[] = []
+  const pruned: Neighbour[] = []
+
+  for (const candidate of candidates) {
+    if (selected.length >= maxConnections) break
+
+    const vector = getVector(candidate.id)
+    if (!vector) continue
+
+    const isCovered = selected.some(existing => {
+      const existingVector = getVector(existing.id)
+      return !!existingVector && similarity(vector, existingVector) > candidate.similarity
+    })
+
+    if (isCovered) {
+      pruned.push(candidate)
+    } else {
+      selected.push(candidate)
+    }
+  }
+
+  for (const candidate of pruned) {
+    if (selected.length >= maxConnections) break
+    selected.push(candidate)
+  }
+
+  return selected
+}
+
+/**
+ * Re-select a node's neighbours on a layer from a candidate set
+ */
+function relink(
+  index: VectorIndex,
+  id: string,
+  candidateIds: Iterable<string>,
+  level: number,
+  getVector: VectorLookup
+): void {
+  const vector = getVector(id)
+  if (!vector || !index.nodes[id]) return
+
+  const candidates: Neighbour[] = []
+  for (const candidateId of candidateIds) {
+    if (candidateId === id || !index.nodes[candidateId]) continue
+    const candidateVector = getVector(candidateId)
+    if (!candidateVector) continue
+    insertSorted(candidates, { id: candidateId, similarity: similarity(vector, candidateVector) })
+  }
+
+  const maxConnections = level === 0 ? index.m * 2 : index.m
+  const selected = selectNeighbours(candidates, maxConnections, getVector)
+  setLinks(index, id, level, selected.map(n => n.id))
+}
+
+/**
+ * Draw a random layer with exponentially decaying probability
+ */
+function randomLevel(m: number, random: () => number): number {
+  const levelMultiplier = 1 / Math.log(m)
+  return Math.floor(-Math.log(1 - random()) * levelMultiplier)
+}
+
+/**
+ * Insert (or replace) a vector in the index
+ */
+export function insertVector(
+  index: VectorIndex,
+  id: string,
+  vector: ArrayLike<number>,
+  getVector: VectorLookup,
+  random: () => number = Math.random
+): void {
+  if (vector.length !== index.dimensions) {
+    throw new Error(`Vector has ${vector.length} dimensions, index expects ${index.dimensions}`)
+  }
+
+  if (index.nodes[id]) {
+    removeVector(index, id, getVector)
+  }
+
+  // The new vector must be visible to neighbour selection before it's stored anywhere
+  const lookup: VectorLookup = other => (other === id ? vector : getVector(other))
+
+  const level = randomLevel(index.m, random)
+  const node: VectorIndexNode = {
+    level,
+    neighbours: Array.from({ length: level + 1 }, () => []),
+  }
+
+  const state = getGraphState(index)
+  const entryVector = index.entryPoint ? lookup(index.entryPoint) : undefined
+  index.nodes[id] = node
+  index.updatedAt = new Date().toISOString()
+  state.changed.add(id)
+
+  if (!index.entryPoint || !entryVector) {
+    index.entryPoint = id
+    index.maxLevel = level
+    return
+  }
+
+  let entryPoints: Neighbour[] = [
+    { id: index.entryPoint, similarity: similarity(vector, entryVector) },
+  ]
+
+  // Descend through layers above the new node's level
+  for (let layer = index.maxLevel; layer > level; layer--) {
+    entryPoints = searchLayer(index, vector, entryPoints, 1, layer, lookup)
+  }
+
+  // Connect on every layer the node belongs to
+  for (let layer = Math.min(level, index.maxLevel); layer >= 0; layer--) {
+    const found = searchLayer(index, vector, entryPoints, index.efConstruction, layer, lookup)
+      .filter(n => n.id !== id)
+    const selected = selectNeighbours(found, index.m, lookup)
+    const maxConnections = layer === 0 ? index.m * 2 : index.m
+
+    setLinks(index, id, layer, selected.map(n => n.id))
+
+    for (const neighbour of selected) {
+      const links = [...index.nodes[neighbour.id].neighbours[layer], id]
+
+      if (links.length > maxConnections) {
+        relink(index, neighbour.id, links, layer, lookup)
+      } else {
+        setLinks(index, neighbour.id, layer, links)
+      }
+    }
+
+    entryPoints = found.length > 0 ? found : entryPoints
+  }
+
+  if (level > index.maxLevel) {
+    index.maxLevel = level
+    index.entryPoint = id
+  }
+}
+
+/**
+ * Remove a vector and repair the links of nodes that pointed at it
+ */
+export function removeVector(index: VectorIndex, id: string, getVector: VectorLookup): void {
+  const removed = index.nodes[id]
+  if (!removed) return
+
+  const state = getGraphState(index)
+  const linkedFrom = state.incoming.get(id) ?? new Set<string>()
+
+  delete index.nodes[id]
+  index.updatedAt = new Date().toISOString()
+  state.incoming.delete(id)
+  state.changed.add(id)
+
+  for (const links of removed.neighbours) {
+    for (const target of links) state.incoming.get(target)?.delete(id)
+  }
+
+  // Links aren't symmetric after pruning, so repair via the reverse links
+  for (const nodeId of Array.from(linkedFrom)) {
+    const node = index.nodes[nodeId]
+    if (!node) continue
+
+    for (let layer = 0; layer <= Math.min(node.level, removed.level); layer++) {
+      const links = node.neighbours[layer]
+      if (!links.includes(id)) continue
+
+      // Bridge over the gap using the removed node's own neighbours
+      const candidates = new Set([...links, ...removed.neighbours[layer]])
+      candidates.delete(id)
+      relink(index, nodeId, candidates, layer, getVector)
+    }
+  }
+
+  if (index.entryPoint === id) {
+    let nextEntry: string | null = null
+    let nextLevel = 0
+
+    for (const [nodeId, node] of Object.entries(index.nodes)) {
+      if (nextEntry === null || node.level > nextLevel) {
+        nextEntry = nodeId
+        nextLevel = node.level
+      }
+    }
+
+    index.entryPoint = nextEntry
+    index.maxLevel = nextLevel
+  }
+}
+
+/**
+ * Nodes added, relinked or removed since the last call - the records to persist
+ */
+export function takeChangedNodes(index: VectorIndex): string[] {
+  const state = getGraphState(index)
+  const changed = Array.from(state.changed)
+  state.changed.clear()
+  return changed
+}
+
+/**
+ * Find the k approximate nearest neighbours of a query vector, best first
+ */
+export function searchVectorIndex(
+  index: VectorIndex,
+  query: ArrayLike<number>,
+  k: number,
+  getVector: VectorLookup,
+  ef: number = DEFAULT_EF_SEARCH
+): Neighbour[] {
+  if (!index.entryPoint || query.length !== index.dimensions) return []
+
+  const entryVector = getVector(index.entryPoint)
+  if (!entryVector) return []
+
+  let entryPoints: Neighbour[] = [
+    { id: index.entryPoint, similarity: similarity(query, entryVector) },
+  ]
+
+  for (let layer = index.maxLevel; layer > 0; layer--) {
+    entryPoints = searchLayer(index, query, entryPoints, 1, layer, getVector)
+  }
+
+  return searchLayer(index, query, entryPoints, Math.max(ef, k), 0, getVector).slice(0, k)
+}
+
+/**
+ * Bring an index in line with a set of contracts
+ *
+ * - Contracts with an embedding but no node are inserted
+ * - Nodes whose contract was removed or lost its embedding are removed
+ * - Contracts listed in changedIds (re-embedded text) are re-inserted
+ */
+export function syncVectorIndex(
+  index: VectorIndex,
+  contracts: Array<{ id: string; embedding?: ArrayLike<number> }>,
+  changedIds: Iterable<string> = [],
+  random: () => number = Math.random
+): { inserted: number; removed: number } {
+  const vectors = new Map<string, ArrayLike<number>>()
+  for (const contract of contracts) {
+    if (contract.embedding && contract.embedding.length === index.dimensions) {
+      vectors.set(contract.id, contract.embedding)
+    }
+  }
+
+  const getVector: VectorLookup = id => vectors.get(id)
+  const changed = new Set(changedIds)
+  let inserted = 0
+  let removed = 0
+
+  for (const id of Object.keys(index.nodes)) {
+    if (!vectors.has(id) || changed.has(id)) {
+      removeVector(index, id, getVector)
+      removed++
+    }
+  }
+
+  vectors.forEach((vector, id) => {
+    if (!index.nodes[id]) {
+      insertVector(index, id, vector, getVector, random)
+      inserted++
+    }
+  })
+
+  return { inserted, removed }
+}
+
+/**
+ * Build a fresh index for a set of contracts
+ */
+export function buildVectorIndex(
+  contracts: Array<{ id: string; embedding?: ArrayLike<number> }>,
+  options: { model?: string; m?: number; efConstruction?: number; random?: () => number } = {}
+): VectorIndex | null {
+  const dimensions = contracts.find(c => c.embedding)?.embedding?.length
+  if (!dimensions) return null
+
+  const index = createVectorIndex(dimensions, options)
+  syncVectorIndex(index, contracts, [], options.random)
+  index.builtAt = index.updatedAt
+
+  console.log('[HNSW] Built index:', Object.keys(index.nodes).length, 'vectors,', index.maxLevel + 1, 'layers')
+
+  return index
+}
+
+/**
+ * Check whether a stored index can be updated incrementally for these embeddings
+ * An index built from another model's vectors is useless even at equal dimensions
+ */
+export function isVectorIndexCurrent(
+  index: VectorIndex | undefined,
+  dimensions: number,
+  model: string = ''
+): index is VectorIndex {
+  return (
+    !!index &&
+    index.version === VECTOR_INDEX_VERSION &&
+    index.dimensions === dimensions &&
+    index.model === model
+  )
+}
@@ -4,7 +4,9 @@
  */
 
 import { openDB, type IDBPDatabase } from 'idb'
-import type { Inbox } from '@/types'
+import type { EmbeddingModelInfo, Inbox, InboxFilters, PromptRevision } from '@/types'
+import { createPromptRevision } from './prompt-revisions'
+import { assignRankingVariant } from './experiments'
 
 const DB_NAME = 'inbox-storage'
 const DB_VERSION = 1
@@ -80,17 +82,25 @@ export async function getInboxById(id: string): Promise<Inbox | undefined> {
 export async function createInbox(
   name: string,
   prompt: string,
-  isAllContractsInbox: boolean = false
+  isAllContractsInbox: boolean = false,
+  filters?: InboxFilters,
+  promptSource: PromptRevision['source'] = 'manual'
 ): Promise<Inbox> {
   try {
+    const revision = createPromptRevision(prompt, promptSource)
+    const id = `inbox-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`
     const inbox: Inbox = {
-      id: `inbox-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      id,
       name,
       prompt,
       isAllContractsInbox,
+      filters,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       unreadCount: 0,
+      promptRevisions: [revision],
+      currentRevisionId: revision.id,
+      experimentAssignment: assignRankingVariant({ id, isAllContractsInbox }),
     }
 
     const db = await initInboxDB()
@@ -136,6 +146,43 @@ export async function updateInbox(
   }
 }
 
+/**
+ * Update an inbox from its stored state, read and written in one transaction
+ * Use when the updates were worked out from an earlier read, so changes saved
+ * in the meantime (e.g. a threshold the user set) aren't overwritten
+ */
+export async function updateInboxWith(
+  id: string,
+  update: (inbox: Inbox) => Partial<Inbox>
+): Promise<Inbox | undefined> {
+  try {
+    const db = await initInboxDB()
+    const tx = db.transaction(INBOXES_STORE, 'readwrite')
+    const inbox = await tx.store.get(id)
+
+    if (!inbox) {
+      console.warn('[Inbox Storage] Inbox not found for update:', id)
+      await tx.done
+      return undefined
+    }
+
+    const updated = {
+      ...inbox,
+      ...update(inbox),
+      updatedAt: new Date().toISOString(),
+    }
+
+    await tx.store.put(updated)
+    await tx.done
+
+    console.log('[Inbox Storage] Updated inbox from stored state:', id)
+    return updated
+  } catch (error) {
+    console.error('[Inbox Storage] Error updating inbox:', error)
+    return undefined
+  }
+}
+
 /**
  * Delete an inbox
  */
@@ -152,13 +199,14 @@ export async function deleteInbox(id: string): Promise<void> {
 }
 
 /**
- * Save inbox embedding
+ * Save inbox embedding, tagged with the model that produced it
  */
 export async function saveInboxEmbedding(
   inboxId: string,
-  embedding: number[]
+  embedding: number[],
+  embeddingModel?: EmbeddingModelInfo
 ): Promise<void> {
-  await updateInbox(inboxId, { embedding })
+  await updateInbox(inboxId, { embedding, embeddingModel })
 }
 
 /**
@@ -2,28 +2,97 @@
  * Learning utilities - Apply user feedback to improve matching
  */
 
-import type { Contract, SearchResult, InboxLearningMetrics } from '@/types'
-import { analyzeFeedbackPatterns } from './feedback-storage'
-import { updateInbox } from './inbox-storage'
+import type { BoostOverrides, Contract, Inbox, SearchResult, InboxLearningMetrics, ThresholdChange, UserFeedback } from '@/types'
+import { getFeedbackForInbox, implicitSignal, isActiveFeedback, recencyWeight, signalWeight } from './feedback-storage'
+import { getInboxById, updateInboxWith } from './inbox-storage'
+import { getContractById } from './contract-storage'
+import { collectPromptRefinements, shouldOfferPromptRefinement } from './prompt-refinement'
+import { learnQueryVector, weightedJudgements } from './relevance-feedback'
+import { trainRelevanceModel } from './relevance-classifier'
+import { getInboxVariant, type RankingVariant } from './experiments'
+
+// Pseudo-events at the inbox's overall save rate added to every buyer group,
+// so one hide can't blacklist a council - it takes a pattern to move a boost far
+const BOOST_PRIOR_STRENGTH = 6
+
+// Largest learned score adjustment (percentage points)
+export const MAX_LEARNED_BOOST = 15
+
+// Learned boosts smaller than this are dropped
+const MIN_LEARNED_BOOST = 1
+
+// Match threshold for a new inbox, and where a reset returns to
+export const DEFAULT_THRESHOLD = 30
+
+// Learned thresholds stay within this range
+const MIN_LEARNED_THRESHOLD = 30
+const MAX_LEARNED_THRESHOLD = 70
+
+// Feedback events kept as evidence for the next threshold adjustment
+const THRESHOLD_WINDOW = 20
+
+// Threshold changes kept per inbox
+const MAX_THRESHOLD_HISTORY = 20
 
 /**
  * Update inbox learning metrics based on accumulated feedback
+ * Contracts are read first; the result is then folded into the inbox as stored
+ * at that point, in one transaction, so a threshold the user set meanwhile
+ * isn't overwritten. The query vector and relevance model are slower to learn
+ * and are relearned separately (learnInboxModels, run in the search worker)
  */
 export async function updateInboxLearning(inboxId: string): Promise<InboxLearningMetrics> {
   try {
     console.log('[Learning] Updating learning metrics for inbox:', inboxId)
 
-    // Analyze feedback patterns
-    const metrics = await analyzeFeedbackPatterns(inboxId)
+    const inbox = await getInboxById(inboxId)
+    const feedback = await getFeedbackForInbox(inboxId)
+
+    // Learn buyer boosts from the judged contracts
+    let boosts: ReturnType<typeof calculateLearnedBoosts> | undefined
+    let titles = new Map<string, string>()
+    if (inbox) {
+      const contracts = new Map<string, Contract>()
+      for (const { contractId } of weightedJudgements(feedback)) {
+        if (contracts.has(contractId)) continue
+        const contract = await getContractById(contractId)
+        if (contract) contracts.set(contractId, contract)
+      }
+
+      titles = new Map([...contracts].map(([id, c]) => [id, c.title]))
+      boosts = calculateLearnedBoosts(feedback, contracts)
+    }
+
+    // Fold feedback the inbox hasn't seen yet into its metrics as stored now
+    const foldInto = (current: Inbox | undefined): InboxLearningMetrics => {
+      const metrics = learningReducer(
+        current?.learningMetrics ?? initialLearningState(inboxId, undefined, getDefaultThreshold(current)),
+        { type: 'feedback', events: feedback }
+      )
+      if (current && boosts) {
+        Object.assign(metrics, boosts)
+
+        // Carry the refinement history forward with any new high-score hides
+        metrics.promptRefinements = collectPromptRefinements(
+          feedback,
+          current.prompt,
+          current.learningMetrics?.promptRefinements,
+          titles
+        )
+        metrics.pendingPromptUpdate = shouldOfferPromptRefinement(metrics.promptRefinements)
+      }
+      return metrics
+    }
 
     // Save metrics to inbox
-    await updateInbox(inboxId, {
-      learningMetrics: metrics,
-    })
+    const updated = await updateInboxWith(inboxId, current => ({ learningMetrics: foldInto(current) }))
+    const metrics = updated?.learningMetrics ?? foldInto(undefined)
 
     console.log('[Learning] Updated metrics:', {
       minRelevance: metrics.minRelevanceScore,
       maxIrrelevance: metrics.maxIrrelevanceScore,
+      threshold: metrics.dynamicMinScore,
+      thresholdOverride: metrics.thresholdOverride?.source,
       confidence: metrics.confidenceLevel,
       feedback: metrics.totalFeedback,
     })
@@ -35,6 +104,61 @@ export async function updateInboxLearning(inboxId: string): Promise<InboxLearnin
   }
 }
 
+/**
+ * Relearn an inbox's query vector and relevance model from its feedback
+ * Reads every judged contract's embedding and trains the classifier, so it
+ * runs in the search worker (scheduleModelLearningInWorker), off the UI thread
+ */
+export async function learnInboxModels(inboxId: string): Promise<void> {
+  try {
+    const inbox = await getInboxById(inboxId)
+    if (!inbox) return
+
+    const feedback = await getFeedbackForInbox(inboxId)
+
+    // Move the query vector towards saves and away from hides (needs the embedding API)
+    let queryVectorUpdate: Awaited<ReturnType<typeof learnQueryVector>> = {}
+    try {
+      queryVectorUpdate = await learnQueryVector(inbox, feedback)
+    } catch (error) {
+      console.warn('[Learning] Could not update learned query vector:', error)
+    }
+
+    // Retrain the save/hide classifier (a failed run keeps the previous model)
+    let relevanceModelUpdate: Pick<Inbox, 'relevanceModel'> = {}
+    try {
+      relevanceModelUpdate = { relevanceModel: await trainRelevanceModel(inbox, feedback) }
+    } catch (error) {
+      console.warn('[Learning] Could not train relevance model:', error)
+    }
+
+    // The query vector only if it was learned for the prompt still in use
+    await updateInboxWith(inboxId, current => ({
+      ...(isSameQuery(current, inbox) ? queryVectorUpdate : {}),
+      ...relevanceModelUpdate,
+    }))
+
+    console.log('[Learning] Relearned models for inbox:', inboxId, {
+      queryVector: !!queryVectorUpdate.learnedEmbedding,
+      relevanceModel: !!relevanceModelUpdate.relevanceModel,
+    })
+  } catch (error) {
+    console.error('[Learning] Error learning inbox models:', error)
+    throw error
+  }
+}
+
+/**
+ * Whether an inbox still has the prompt (and learned-vector reset) a vector was learned against
+ */
+function isSameQuery(
+  current: Pick<Inbox, 'prompt' | 'learnedEmbeddingResetAt'>,
+  learnedFrom: Pick<Inbox, 'prompt' | 'learnedEmbeddingResetAt'>
+): boolean {
+  return current.prompt === learnedFrom.prompt &&
+    current.learnedEmbeddingResetAt === learnedFrom.learnedEmbeddingResetAt
+}
+
 /**
  * Apply learned thresholds to search results
  * Filters out contracts outside the learned relevance range
@@ -89,23 +213,95 @@ export function applyLearnedThresholds(
   return filtered
 }
 
+/**
+ * Learn authority and classification boosts from save/hide ratios
+ *
+ * Each group's save rate is smoothed towards the inbox's overall save rate
+ * (a Beta prior worth BOOST_PRIOR_STRENGTH events), and the boost is how far
+ * the smoothed rate sits above or below it. Only a contract's latest
+ * save/hide counts, so toggling doesn't double-count.
+ *
+ * @param feedback All feedback for the inbox
+ * @param contracts Contract ID → contract, for authority and classification
+ * @param now Time judgements are aged to (replay passes the time being replayed)
+ */
+export function calculateLearnedBoosts(
+  feedback: UserFeedback[],
+  contracts: Map<string, Pick<Contract, 'authority' | 'buyerClassification'>>,
+  now: number = Date.now()
+): Pick<InboxLearningMetrics, 'authorityBoosts' | 'classificationBoosts'> {
+  // Judgements count less as they age, implicit ones less again
+  const weighted = weightedJudgements(feedback, now)
+
+  const saves = weighted.reduce((sum, f) => sum + (f.action === 'saved' ? f.weight : 0), 0)
+  const total = weighted.reduce((sum, f) => sum + f.weight, 0)
+  // Laplace-smoothed so an inbox with only saves still leaves room above the base rate
+  const baseRate = (saves + 1) / (total + 2)
+
+  const boostsFor = (groupOf: (contract: Pick<Contract, 'authority' | 'buyerClassification'>) => string) => {
+    const groups = new Map<string, { saved: number; total: number }>()
+    for (const { contractId, action, weight } of weighted) {
+      const contract = contracts.get(contractId)
+      const group = contract && groupOf(contract)
+      if (!group) continue
+
+      const counts = groups.get(group) ?? { saved: 0, total: 0 }
+      counts.total += weight
+      if (action === 'saved') counts.saved += weight
+      groups.set(group, counts)
+    }
+
+    const boosts: Record<string, number> = {}
+    for (const [group, { saved, total }] of groups) {
+      const smoothedRate = (saved + BOOST_PRIOR_STRENGTH * baseRate) / (total + BOOST_PRIOR_STRENGTH)
+      const boost = Math.round((smoothedRate - baseRate) * 2 * MAX_LEARNED_BOOST)
+      const clamped = Math.max(-MAX_LEARNED_BOOST, Math.min(MAX_LEARNED_BOOST, boost))
+      if (Math.abs(clamped) >= MIN_LEARNED_BOOST) boosts[group] = clamped
+    }
+    return boosts
+  }
+
+  return {
+    authorityBoosts: boostsFor(c => c.authority),
+    classificationBoosts: boostsFor(c => c.buyerClassification),
+  }
+}
+
+/**
+ * Check if an inbox has enough feedback for its learned boosts to apply
+ */
+export function hasActiveLearnedBoosts(metrics: InboxLearningMetrics | undefined): boolean {
+  return !!metrics && metrics.totalFeedback >= 10 && metrics.confidenceLevel >= 50
+}
+
+/**
+ * Boosts applied to an inbox's results: learned ones (once active) with manual overrides on top
+ */
+export function getActiveBoosts(
+  metrics: InboxLearningMetrics | undefined,
+  overrides: BoostOverrides | undefined
+): { authority: Record<string, number>; classification: Record<string, number> } {
+  const learned = hasActiveLearnedBoosts(metrics)
+
+  return {
+    authority: { ...(learned ? metrics!.authorityBoosts : {}), ...overrides?.authority },
+    classification: { ...(learned ? metrics!.classificationBoosts : {}), ...overrides?.classification },
+  }
+}
+
 /**
  * Apply learned boosts to contract scores
  * Adjusts scores based on authority and classification patterns
  */
 export function applyLearnedBoosts(
   results: SearchResult[],
-  metrics: InboxLearningMetrics | undefined
+  metrics: InboxLearningMetrics | undefined,
+  overrides?: BoostOverrides
 ): SearchResult[] {
-  if (!metrics || metrics.totalFeedback < 10) {
-    // Not enough feedback for boost learning
-    return results
-  }
+  const { authority: authorityBoosts, classification: classificationBoosts } = getActiveBoosts(metrics, overrides)
 
-  const { authorityBoosts, classificationBoosts, confidenceLevel } = metrics
-
-  // Only apply if we have good confidence
-  if (confidenceLevel < 50) {
+  if (Object.keys(authorityBoosts).length === 0 && Object.keys(classificationBoosts).length === 0) {
+    // Not enough feedback for boost learning, and nothing set manually
     return results
   }
 
@@ -149,22 +345,27 @@ export function applyLearnedBoosts(
 
 /**
  * Apply all learning improvements to search results
+ * The ranking variant can leave out learned boosts or the learned range
  */
 export function applyLearning(
   results: SearchResult[],
-  metrics: InboxLearningMetrics | undefined
+  metrics: InboxLearningMetrics | undefined,
+  boostOverrides?: BoostOverrides,
+  variant: Pick<RankingVariant, 'learnedBoosts' | 'learnedRange'> = {}
 ): SearchResult[] {
-  if (!metrics) {
+  if (!metrics && !boostOverrides) {
     return results
   }
 
-  console.log('[Learning] Applying learning with', metrics.totalFeedback, 'feedback events')
+  console.log('[Learning] Applying learning with', metrics?.totalFeedback ?? 0, 'feedback events')
 
-  // Apply boosts first (adjust scores)
-  let improved = applyLearnedBoosts(results, metrics)
+  // Apply boosts first (adjust scores) - manual overrides apply either way
+  let improved = applyLearnedBoosts(results, variant.learnedBoosts === false ? undefined : metrics, boostOverrides)
 
   // Then filter with thresholds (remove irrelevant)
-  improved = applyLearnedThresholds(improved, metrics)
+  if (variant.learnedRange !== false) {
+    improved = applyLearnedThresholds(improved, metrics)
+  }
 
   // Re-sort by adjusted scores
   improved.sort((a, b) => b.matchScore - a.matchScore)
@@ -186,13 +387,13 @@ export function shouldApplyLearning(metrics: InboxLearningMetrics | undefined):
  * - If user saves low-scored contracts: lower threshold (expand search)
  * - If user hides many contracts: raise threshold (narrow search)
  *
- * @param feedbackEvents All feedback for this inbox
- * @param currentThreshold Current dynamic threshold (default 50)
+ * @param feedbackEvents Feedback since the last adjustment, oldest first
+ * @param currentThreshold Current dynamic threshold
  * @returns New threshold value (30-70 range)
  */
 export function calculateDynamicThreshold(
-  feedbackEvents: import('@/types').UserFeedback[],
-  currentThreshold: number = 50
+  feedbackEvents: Array<Pick<UserFeedback, 'action' | 'matchScore'>>,
+  currentThreshold: number = DEFAULT_THRESHOLD
 ): { threshold: number; reason?: string } {
   if (feedbackEvents.length < 10) {
     // Not enough data to adjust threshold yet
@@ -214,7 +415,7 @@ export function calculateDynamicThreshold(
 
   if (lowScoreSaves.length >= 3 && recentSaves.length >= 5) {
     // User is finding value in borderline matches - lower threshold
-    newThreshold = Math.max(30, currentThreshold - 10)
+    newThreshold = Math.max(MIN_LEARNED_THRESHOLD, currentThreshold - 10)
     reason = `Expanded: You saved ${lowScoreSaves.length} contracts near threshold`
   }
 
@@ -224,16 +425,198 @@ export function calculateDynamicThreshold(
 
   if (hideRate > 0.6 && totalActions >= 10) {
     // User is hiding most results - raise threshold
-    newThreshold = Math.min(70, currentThreshold + 10)
+    newThreshold = Math.min(MAX_LEARNED_THRESHOLD, currentThreshold + 10)
     reason = `Narrowed: You hid ${Math.round(hideRate * 100)}% of results`
   }
 
   // Clamp to reasonable range
-  newThreshold = Math.max(30, Math.min(70, newThreshold))
+  newThreshold = Math.max(MIN_LEARNED_THRESHOLD, Math.min(MAX_LEARNED_THRESHOLD, newThreshold))
 
   return { threshold: newThreshold, reason }
 }
 
+/**
+ * Threshold an inbox starts at, and returns to on reset (its ranking variant's, or DEFAULT_THRESHOLD)
+ */
+export function getDefaultThreshold(
+  inbox: Pick<Inbox, 'id' | 'isAllContractsInbox' | 'experimentAssignment'> | null | undefined
+): number {
+  return getInboxVariant(inbox).defaultThreshold ?? DEFAULT_THRESHOLD
+}
+
+/**
+ * Match threshold an inbox searches with: learned or set, else its default
+ */
+export function getInboxThreshold(
+  inbox: Pick<Inbox, 'id' | 'isAllContractsInbox' | 'experimentAssignment' | 'learningMetrics'> | null | undefined
+): number {
+  return inbox?.learningMetrics?.dynamicMinScore ?? getDefaultThreshold(inbox)
+}
+
+/**
+ * Learning state for an inbox with no feedback
+ */
+export function initialLearningState(
+  inboxId: string,
+  now: string = new Date().toISOString(),
+  threshold: number = DEFAULT_THRESHOLD
+): InboxLearningMetrics {
+  return {
+    inboxId,
+    minRelevanceScore: 0,
+    maxIrrelevanceScore: 100,
+    dynamicMinScore: threshold,
+    thresholdAdjustments: {
+      expandedCount: 0,
+      narrowedCount: 0,
+      lastAdjustment: now,
+    },
+    thresholdHistory: [],
+    promptRefinements: [],
+    pendingPromptUpdate: false,
+    totalFeedback: 0,
+    savedContracts: 0,
+    hiddenContracts: 0,
+    viewedContracts: 0,
+    authorityBoosts: {},
+    classificationBoosts: {},
+    confidenceLevel: 0,
+    recentFeedback: [],
+    lastUpdated: now,
+  }
+}
+
+export type LearningAction =
+  // All feedback for the inbox; threshold learning only sees events after lastFeedbackAt
+  | { type: 'feedback'; events: UserFeedback[] }
+  // User-chosen threshold - learning leaves it alone until the override is cleared
+  | { type: 'setThreshold'; threshold: number; source: 'manual' | 'widen' }
+  // Let learning adjust the threshold again, starting from its current value
+  | { type: 'clearThresholdOverride' }
+  // Back to the default threshold (DEFAULT_THRESHOLD unless given) with learning in charge
+  | { type: 'resetThreshold'; threshold?: number }
+
+function withThresholdChange(
+  state: InboxLearningMetrics,
+  change: Omit<ThresholdChange, 'previous' | 'timestamp'>,
+  now: string
+): InboxLearningMetrics {
+  if (change.threshold === state.dynamicMinScore) return state
+
+  const previous = state.dynamicMinScore
+  const expanded = change.threshold < previous
+
+  return {
+    ...state,
+    dynamicMinScore: change.threshold,
+    thresholdAdjustments: {
+      expandedCount: (state.thresholdAdjustments?.expandedCount ?? 0) + (expanded ? 1 : 0),
+      narrowedCount: (state.thresholdAdjustments?.narrowedCount ?? 0) + (expanded ? 0 : 1),
+      lastAdjustment: now,
+    },
+    thresholdHistory: [
+      ...(state.thresholdHistory ?? []),
+      { ...change, previous, timestamp: now },
+    ].slice(-MAX_THRESHOLD_HISTORY),
+  }
+}
+
+function foldFeedback(state: InboxLearningMetrics, events: UserFeedback[], now: string): InboxLearningMetrics {
+  // Undo and later changes of mind can reach back past the watermark, so counts
+  // are taken from the feedback that still stands rather than accumulated
+  const active = events.filter(isActiveFeedback)
+  const saved = active.filter(f => f.action === 'saved')
+  const hidden = active.filter(f => f.action === 'hidden')
+  const activeIds = new Set(active.map(f => f.id))
+  const implicit = active.map(implicitSignal)
+
+  let next: InboxLearningMetrics = {
+    ...state,
+    totalFeedback: active.length,
+    savedContracts: saved.length,
+    hiddenContracts: hidden.length,
+    viewedContracts: active.filter(f => f.action === 'viewed').length,
+    engagedViews: active.filter((f, i) => f.action === 'viewed' && implicit[i]).length,
+    ignoredContracts: active.filter(f => f.action === 'ignored').length,
+    // Min threshold 10% below lowest saved score, max 5% above highest hidden score
+    minRelevanceScore: saved.length > 0 ? Math.round(Math.max(0, Math.min(...saved.map(f => f.matchScore)) - 10)) : 0,
+    maxIrrelevanceScore: hidden.length > 0 ? Math.round(Math.min(100, Math.max(...hidden.map(f => f.matchScore)) + 5)) : 100,
+    // Evidence that has since been undone or reversed no longer counts
+    recentFeedback: (state.recentFeedback ?? []).filter(f => !f.id || activeIds.has(f.id)),
+  }
+
+  // Threshold learning is incremental: only feedback after the watermark is new evidence
+  // (ignored events arrive in batches from the list and would flush the window)
+  const watermark = state.lastFeedbackAt
+  const fresh = active
+    .filter(f => f.action !== 'ignored' && (!watermark || f.timestamp > watermark))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+
+  for (const f of fresh) {
+    const window = [...(next.recentFeedback ?? []), { id: f.id, action: f.action, matchScore: f.matchScore }]
+      .slice(-THRESHOLD_WINDOW)
+    next.recentFeedback = window
+
+    // A user-chosen threshold is left alone; the evidence keeps accumulating
+    if (next.thresholdOverride) continue
+
+    const { threshold, reason } = calculateDynamicThreshold(window, next.dynamicMinScore)
+    if (threshold !== next.dynamicMinScore) {
+      // Each adjustment needs fresh evidence at the new threshold
+      next = { ...withThresholdChange(next, { threshold, source: 'learned', reason }, f.timestamp), recentFeedback: [] }
+    }
+  }
+
+  const latest = events.reduce<string | undefined>((max, f) => (!max || f.timestamp > max ? f.timestamp : max), watermark)
+  if (latest) next.lastFeedbackAt = latest
+
+  // More (and more recent, and more explicit) feedback = higher confidence in adjustments
+  const at = new Date(now).getTime()
+  const weightedFeedback = active.reduce((sum, f) => sum + signalWeight(f) * recencyWeight(f.timestamp, at), 0)
+  next.confidenceLevel = Math.round(Math.min(100, (weightedFeedback / 20) * 100))
+  next.lastUpdated = now
+
+  return next
+}
+
+/**
+ * Learning-state reducer - every change to an inbox's learning metrics goes through here
+ *
+ * Threshold learning folds in feedback incrementally (events after lastFeedbackAt),
+ * so adjustments and their history build on the stored state instead of being
+ * recomputed from nothing. Counts reflect the feedback that still stands
+ * (retracted and superseded events are dropped). User-chosen thresholds are
+ * kept until cleared.
+ */
+export function learningReducer(
+  state: InboxLearningMetrics,
+  action: LearningAction,
+  now: string = new Date().toISOString()
+): InboxLearningMetrics {
+  switch (action.type) {
+    case 'feedback':
+      return foldFeedback(state, action.events, now)
+
+    case 'setThreshold': {
+      const next = withThresholdChange(state, { threshold: action.threshold, source: action.source }, now)
+      return {
+        ...next,
+        thresholdOverride: { threshold: action.threshold, source: action.source, setAt: now },
+        lastUpdated: now,
+      }
+    }
+
+    case 'clearThresholdOverride':
+      if (!state.thresholdOverride) return state
+      return { ...state, thresholdOverride: undefined, recentFeedback: [], lastUpdated: now }
+
+    case 'resetThreshold': {
+      const next = withThresholdChange(state, { threshold: action.threshold ?? DEFAULT_THRESHOLD, source: 'reset' }, now)
+      return { ...next, thresholdOverride: undefined, recentFeedback: [], lastUpdated: now }
+    }
+  }
+}
+
 /**
  * Get learning status message for UI
  */
@@ -251,7 +634,7 @@ export function getLearningStatus(metrics: InboxLearningMetrics | undefined): st
   }
 
   // Show dynamic threshold info if adjusted
-  const thresholdInfo = metrics.dynamicMinScore !== 50
+  const thresholdInfo = metrics.dynamicMinScore !== DEFAULT_THRESHOLD
     ? ` • Threshold: ${metrics.dynamicMinScore}%`
     : ''
 
@@ -0,0 +1,115 @@
+/**
+ * Match Explanation - Prompt and template fallback for "why this matches"
+ * Shared by the /api/explain route (server) and the client fallback, so it
+ * must stay free of API keys and SDK imports
+ */
+
+import type { Contract, TextSpan } from '@/types'
+import { toTerms } from './bm25'
+import { tokenize } from './embedding-providers'
+
+// Notice fields sent to /api/explain (enough to explain, small enough to post)
+export type ExplainableContract = Pick<
+  Contract,
+  'id' | 'title' | 'description' | 'authority' | 'value' | 'currency' | 'buyerClassification'
+>
+
+export interface ExplanationRequest {
+  query: string
+  contract: ExplainableContract
+  highlights?: TextSpan[]
+}
+
+// Description sent to the LLM - the highlighted passage is sent separately
+const PROMPT_DESCRIPTION_LENGTH = 500
+
+// Quoted passage length in template explanations
+const QUOTE_LENGTH = 140
+
+/**
+ * Text of the highlighted passages, joined
+ */
+function highlightedText(description: string, highlights: TextSpan[] = []): string {
+  return highlights
+    .map(span => description.slice(span.start, span.end).replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(' … ')
+}
+
+function formatValue(contract: ExplainableContract): string {
+  if (typeof contract.value !== 'number' || !Number.isFinite(contract.value)) return 'Not specified'
+
+  const format = (currency: string) =>
+    new Intl.NumberFormat('en-GB', { style: 'currency', currency, maximumFractionDigits: 0 }).format(contract.value!)
+
+  // The route formats whatever the client posted - an invalid currency code falls back to pounds
+  try {
+    return format(contract.currency || 'GBP')
+  } catch {
+    return format('GBP')
+  }
+}
+
+/**
+ * User message for the LLM explanation
+ */
+export function buildExplanationPrompt({ query, contract, highlights }: ExplanationRequest): string {
+  const passage = highlightedText(contract.description, highlights)
+
+  return `You are helping explain why a contract matches a user's search query.
+
+User's Query: "${query}"
+
+Contract:
+Title: ${contract.title}
+Authority: ${contract.authority}
+Description: ${contract.description.substring(0, PROMPT_DESCRIPTION_LENGTH)}
+Value: ${formatValue(contract)}
+Classification: ${contract.buyerClassification}
+${passage ? `\nBest-matching passage: "${passage}"\n` : ''}
+Write a brief 1-2 sentence explanation of why this contract is relevant to the user's query. Focus on the key matching aspects (topic alignment, buyer type, value range, etc.).`
+}
+
+/**
+ * Deterministic explanation used when no LLM is configured (or it fails)
+ * Names the prompt terms the notice shares, quotes the matching passage and
+ * adds buyer context. The same inputs always give the same text.
+ */
+export function templateExplanation({ query, contract, highlights }: ExplanationRequest): string {
+  const noticeTerms = new Set(toTerms(`${contract.title} ${contract.description}`))
+
+  // Report the user's own words, not stemmed index terms
+  const shared: string[] = []
+  for (const token of tokenize(query)) {
+    const [term] = toTerms(token)
+    if (term && noticeTerms.has(term) && !shared.includes(token)) shared.push(token)
+  }
+
+  const sentences: string[] = []
+
+  if (shared.length > 0) {
+    const quoted = shared.slice(0, 4).map(term => `"${term}"`)
+    const list = quoted.length > 1
+      ? `${quoted.slice(0, -1).join(', ')} and ${quoted[quoted.length - 1]}`
+      : quoted[0]
+    sentences.push(`Mentions ${list} from your inbox prompt.`)
+  } else {
+    sentences.push('Similar in meaning to your inbox prompt, though it uses different wording.')
+  }
+
+  const passage = highlightedText(contract.description, highlights)
+  if (passage) {
+    const quote = passage.length > QUOTE_LENGTH
+      ? passage.slice(0, QUOTE_LENGTH).replace(/\s+\S*$/, '') + '…'
+      : passage
+    sentences.push(`Key passage: "${quote}"`)
+  }
+
+  const buyer = contract.buyerClassification
+    ? `${contract.authority} (${contract.buyerClassification} buyer)`
+    : contract.authority
+  const value = typeof contract.value === 'number' && Number.isFinite(contract.value) ? `, valued at ${formatValue(contract)}` : ''
+  sentences.push(`Tendered by ${buyer}${value}.`)
+
+  return sentences.join(' ')
+}
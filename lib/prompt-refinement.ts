@@ -1,17 +1,69 @@
 /**
  * Prompt Refinement - Use AI to refine search prompts based on hide feedback
+ *
+ * Hides of high-scoring contracts (with a reason) are collected into the
+ * inbox's refinement history. Once enough accumulate, the UI offers a
+ * refinement generated by /api/refine (server-side - no API key in the browser).
+ * Applying one adds a prompt revision to the inbox (see prompt-revisions.ts).
  */
 
-import OpenAI from 'openai'
-import type { PromptRefinement } from '@/types'
+import type {
+  Contract,
+  PromptChangePreview,
+  PromptDiffSegment,
+  PromptRefinement,
+  UserFeedback,
+} from '@/types'
+import { isActiveFeedback } from './feedback-storage'
+
+// A hide only says the prompt is wrong if the contract scored this highly
+export const HIGH_SCORE_HIDE = 70
+
+// Hides with reasons needed before a refinement is offered
+const MIN_REFINEMENT_REASONS = 3
 
-const openai = new OpenAI({
-  apiKey: process.env.NEXT_PUBLIC_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true,
-})
+// Don't offer another refinement this soon after applying one
+const REFINEMENT_COOLDOWN = 24 * 60 * 60 * 1000
+
+// Titles listed per side in a result preview
+const PREVIEW_TITLES = 5
 
 /**
- * Refine an inbox prompt using GPT-4 based on user hide reasons
+ * Chat messages asking the LLM for a refined prompt
+ * Used by the /api/refine route
+ */
+export function buildRefinementMessages(
+  originalPrompt: string,
+  hideReasons: string[]
+): Array<{ role: 'system' | 'user'; content: string }> {
+  return [
+    {
+      role: 'system',
+      content: `You are helping refine a search query for public sector contracts. The user has hidden several contracts that had high match scores, indicating the search is too broad or not capturing their true intent.
+
+Your task: Generate a refined search query that:
+1. Keeps the core intent of the original query
+2. Excludes the types of contracts the user doesn't want (based on hide reasons)
+3. Emphasizes what they DO want (inferred from patterns in hide reasons)
+4. Is natural language, concise (1-2 sentences max)
+5. Doesn't use technical jargon unless the original query did
+
+Return ONLY the refined query, nothing else.`,
+    },
+    {
+      role: 'user',
+      content: `Original search query: "${originalPrompt}"
+
+The user hid contracts with HIGH match scores for these reasons:
+${hideReasons.map((r, i) => `${i + 1}. ${r}`).join('\n')}
+
+Generate a refined search query that better matches what they're actually looking for.`,
+    },
+  ]
+}
+
+/**
+ * Refine an inbox prompt based on user hide reasons (via /api/refine)
  *
  * Example:
  * - Original: "IT services for healthcare"
@@ -21,61 +73,78 @@ const openai = new OpenAI({
  * @param originalPrompt The current inbox search prompt
  * @param hideReasons Array of reasons why user hid high-scoring contracts
  * @returns Refined prompt that better matches user intent
+ * @throws If the route is unavailable or no LLM is configured
  */
 export async function refinePromptWithFeedback(
   originalPrompt: string,
   hideReasons: string[]
 ): Promise<string> {
-  try {
-    console.log('[Prompt Refinement] Refining prompt based on', hideReasons.length, 'hide reasons')
+  console.log('[Prompt Refinement] Refining prompt based on', hideReasons.length, 'hide reasons')
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      temperature: 0.3, // Low temperature for consistency
-      messages: [
-        {
-          role: 'system',
-          content: `You are helping refine a search query for public sector contracts. The user has hidden several contracts that had high match scores, indicating the search is too broad or not capturing their true intent.
+  const response = await fetch('/api/refine', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ prompt: originalPrompt, hideReasons }),
+  })
 
-Your task: Generate a refined search query that:
-1. Keeps the core intent of the original query
-2. Excludes the types of contracts the user doesn't want (based on hide reasons)
-3. Emphasizes what they DO want (inferred from patterns in hide reasons)
-4. Is natural language, concise (1-2 sentences max)
-5. Doesn't use technical jargon unless the original query did
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || `HTTP ${response.status}`)
+  }
 
-Return ONLY the refined query, nothing else.`,
-        },
-        {
-          role: 'user',
-          content: `Original search query: "${originalPrompt}"
+  const { refinedPrompt } = await response.json()
 
-The user hid contracts with HIGH match scores for these reasons:
-${hideReasons.map((r, i) => `${i + 1}. ${r}`).join('\n')}
+  console.log('[Prompt Refinement] Original:', originalPrompt)
+  console.log('[Prompt Refinement] Refined:', refinedPrompt)
 
-Generate a refined search query that better matches what they're actually looking for.`,
-        },
-      ],
-    })
+  return refinedPrompt
+}
 
-    const refinedPrompt = response.choices[0].message.content?.trim() || originalPrompt
+/**
+ * Add new high-score hides (with reasons) to an inbox's refinement history
+ * Existing entries are kept as-is, so refined/unrefined state survives re-analysis,
+ * except unrefined ones whose hide was undone or reversed
+ *
+ * @param feedback All feedback for the inbox
+ * @param prompt The inbox's current prompt
+ * @param existing Refinement history so far
+ * @param contractTitles Contract ID → title, for context in the LLM request
+ */
+export function collectPromptRefinements(
+  feedback: UserFeedback[],
+  prompt: string,
+  existing: PromptRefinement[] = [],
+  contractTitles: Map<string, string> = new Map()
+): PromptRefinement[] {
+  const seen = new Set(existing.map(r => r.feedbackId).filter(Boolean))
+  const withdrawn = new Set(feedback.filter(f => !isActiveFeedback(f)).map(f => f.id))
+  const kept = existing.filter(r => r.refinedAt || !r.feedbackId || !withdrawn.has(r.feedbackId))
 
-    console.log('[Prompt Refinement] Original:', originalPrompt)
-    console.log('[Prompt Refinement] Refined:', refinedPrompt)
+  const added: PromptRefinement[] = feedback
+    .filter(f =>
+      f.action === 'hidden' &&
+      isActiveFeedback(f) &&
+      f.matchScore > HIGH_SCORE_HIDE &&
+      f.hideReason &&
+      !seen.has(f.id)
+    )
+    .map(f => ({
+      originalPrompt: prompt,
+      hideReason: f.hideReason!,
+      matchScore: f.matchScore,
+      timestamp: f.timestamp,
+      feedbackId: f.id,
+      contractTitle: contractTitles.get(f.contractId),
+    }))
 
-    return refinedPrompt
-  } catch (error) {
-    console.error('[Prompt Refinement] Error refining prompt:', error)
-    // Return original prompt on error
-    return originalPrompt
-  }
+  return [...kept, ...added]
 }
 
 /**
  * Check if prompt refinement should be offered to user
  *
  * Criteria:
- * - At least 3 high-score hides (>70% match)
+ * - At least 3 high-score hides (>70% match) not yet used in a refinement
  * - Hide reasons provided
  * - Not already refined recently (within last 24 hours)
  *
@@ -83,24 +152,24 @@ Generate a refined search query that better matches what they're actually lookin
  * @returns True if refinement should be offered
  */
 export function shouldOfferPromptRefinement(refinements: PromptRefinement[]): boolean {
-  if (refinements.length < 3) {
+  if (refinements.length < MIN_REFINEMENT_REASONS) {
     return false
   }
 
-  // Check if we have at least 3 high-score hides with reasons
+  // Check if we have at least 3 unused high-score hides with reasons
   const highScoreHidesWithReasons = refinements.filter(
-    r => r.matchScore > 70 && r.hideReason && r.hideReason.length > 5
+    r => !r.refinedPrompt && r.matchScore > HIGH_SCORE_HIDE && r.hideReason && r.hideReason.length > 5
   )
 
-  if (highScoreHidesWithReasons.length < 3) {
+  if (highScoreHidesWithReasons.length < MIN_REFINEMENT_REASONS) {
     return false
   }
 
   // Check if we already refined recently (last 24 hours)
   const recentRefinements = refinements.filter(r => {
     if (!r.refinedPrompt) return false
-    const timeSince = Date.now() - new Date(r.timestamp).getTime()
-    return timeSince < 24 * 60 * 60 * 1000 // 24 hours
+    const timeSince = Date.now() - new Date(r.refinedAt ?? r.timestamp).getTime()
+    return timeSince < REFINEMENT_COOLDOWN
   })
 
   if (recentRefinements.length > 0) {
@@ -111,14 +180,95 @@ export function shouldOfferPromptRefinement(refinements: PromptRefinement[]): bo
 }
 
 /**
- * Get unrefi
-ned hide reasons for prompt update
+ * Get unrefined hide reasons for prompt update
+ * Each reason names the hidden contract when known, so the LLM sees what was wrong
  *
  * @param refinements Array of prompt refinement entries
  * @returns Array of hide reasons that haven't been used for refinement yet
  */
 export function getUnrefinedHideReasons(refinements: PromptRefinement[]): string[] {
   return refinements
-    .filter(r => !r.refinedPrompt && r.hideReason && r.matchScore > 70)
-    .map(r => r.hideReason)
+    .filter(r => !r.refinedPrompt && r.hideReason && r.matchScore > HIGH_SCORE_HIDE)
+    .map(r => (r.contractTitle ? `${r.hideReason} (hid "${r.contractTitle}")` : r.hideReason))
+}
+
+/**
+ * Mark the unrefined entries as used by an applied refinement
+ */
+export function markRefinementsApplied(
+  refinements: PromptRefinement[],
+  refinedPrompt: string
+): PromptRefinement[] {
+  const refinedAt = new Date().toISOString()
+
+  return refinements.map(r =>
+    !r.refinedPrompt && r.hideReason && r.matchScore > HIGH_SCORE_HIDE
+      ? { ...r, refinedPrompt, refinedAt }
+      : r
+  )
+}
+
+/**
+ * Word-level diff between two prompts (longest common subsequence)
+ */
+export function diffPrompts(before: string, after: string): PromptDiffSegment[] {
+  const a = before.split(/\s+/).filter(Boolean)
+  const b = after.split(/\s+/).filter(Boolean)
+
+  // lengths[i][j] = LCS length of a[i:] and b[j:]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const segments: PromptDiffSegment[] = []
+  const push = (text: string, change: PromptDiffSegment['change']) => {
+    const last = segments[segments.length - 1]
+    if (last?.change === change) last.text += ` ${text}`
+    else segments.push({ text, change })
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push(a[i], 'same')
+      i++
+      j++
+    } else if (j < b.length && (i >= a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      push(b[j++], 'added')
+    } else {
+      push(a[i++], 'removed')
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Compare the current results with those of a changed prompt
+ * (a preview search, or the search that ran after saving)
+ */
+export function comparePromptResults(
+  current: Array<Pick<Contract, 'id' | 'title'>>,
+  changed: Array<Pick<Contract, 'id' | 'title'>>
+): PromptChangePreview {
+  const currentIds = new Set(current.map(c => c.id))
+  const changedIds = new Set(changed.map(c => c.id))
+
+  const added = changed.filter(c => !currentIds.has(c.id))
+  const removed = current.filter(c => !changedIds.has(c.id))
+
+  return {
+    before: current.length,
+    after: changed.length,
+    added: added.length,
+    removed: removed.length,
+    addedTitles: added.slice(0, PREVIEW_TITLES).map(c => c.title),
+    removedTitles: removed.slice(0, PREVIEW_TITLES).map(c => c.title),
+  }
 }
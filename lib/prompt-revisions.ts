@@ -0,0 +1,123 @@
+/**
+ * Prompt Revisions - History of an inbox's prompt with one-click rollback
+ *
+ * Every prompt change (manual edit, AI refinement) appends a revision.
+ * Rolling back points the inbox at an earlier revision instead of copying it,
+ * so feedback tagged with a revision ID (UserFeedback.promptRevisionId) keeps
+ * describing the results that revision produced.
+ */
+
+import type { Inbox, PromptRevision, UserFeedback } from '@/types'
+import { isActiveFeedback } from './feedback-storage'
+
+// Single-user app for now - revisions are authored by whoever is using it
+export const LOCAL_AUTHOR = 'You'
+
+/**
+ * Create a prompt revision
+ */
+export function createPromptRevision(
+  prompt: string,
+  source: PromptRevision['source'],
+  options: { author?: string; resultCount?: number; hideReasons?: string[]; createdAt?: string } = {}
+): PromptRevision {
+  return {
+    id: `revision-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    prompt,
+    createdAt: options.createdAt ?? new Date().toISOString(),
+    author: options.author ?? LOCAL_AUTHOR,
+    source,
+    resultCount: options.resultCount,
+    hideReasons: options.hideReasons,
+  }
+}
+
+/**
+ * Revision the inbox is currently using (undefined for inboxes created before revisions)
+ */
+export function getCurrentRevision(
+  inbox: Pick<Inbox, 'promptRevisions' | 'currentRevisionId'>
+): PromptRevision | undefined {
+  return inbox.promptRevisions?.find(r => r.id === inbox.currentRevisionId)
+}
+
+/**
+ * Inbox update that starts the history of an inbox created before revisions
+ * Its current prompt becomes the first revision
+ */
+export function startPromptHistory(
+  inbox: Pick<Inbox, 'prompt' | 'createdAt'>,
+  resultCount?: number
+): Pick<Inbox, 'promptRevisions' | 'currentRevisionId'> {
+  const revision = createPromptRevision(inbox.prompt, 'manual', { createdAt: inbox.createdAt, resultCount })
+  return { promptRevisions: [revision], currentRevisionId: revision.id }
+}
+
+/**
+ * Inbox update that switches to a new prompt revision
+ */
+export function addPromptRevision(
+  inbox: Pick<Inbox, 'prompt' | 'createdAt' | 'promptRevisions'>,
+  revision: PromptRevision
+): Pick<Inbox, 'prompt' | 'promptRevisions' | 'currentRevisionId' | 'embedding' | 'embeddingModel'> {
+  const revisions = inbox.promptRevisions?.length
+    ? inbox.promptRevisions
+    : startPromptHistory(inbox).promptRevisions!
+
+  return {
+    prompt: revision.prompt,
+    promptRevisions: [...revisions, revision],
+    currentRevisionId: revision.id,
+    // The stored prompt embedding no longer matches
+    embedding: undefined,
+    embeddingModel: undefined,
+  }
+}
+
+/**
+ * Inbox update that rolls back to an earlier revision
+ * Returns undefined if the revision isn't in the inbox's history
+ */
+export function rollbackToRevision(
+  inbox: Pick<Inbox, 'promptRevisions'>,
+  revisionId: string
+): Pick<Inbox, 'prompt' | 'currentRevisionId' | 'embedding' | 'embeddingModel'> | undefined {
+  const revision = inbox.promptRevisions?.find(r => r.id === revisionId)
+  if (!revision) return undefined
+
+  return {
+    prompt: revision.prompt,
+    currentRevisionId: revision.id,
+    embedding: undefined,
+    embeddingModel: undefined,
+  }
+}
+
+/**
+ * Revisions with one revision's result count filled in
+ */
+export function setRevisionResultCount(
+  revisions: PromptRevision[],
+  revisionId: string,
+  resultCount: number
+): PromptRevision[] {
+  return revisions.map(r => (r.id === revisionId ? { ...r, resultCount } : r))
+}
+
+/**
+ * Saved/hidden counts per revision, from an inbox's feedback
+ * Feedback recorded before revisions existed, or since undone or reversed, is left out
+ */
+export function summarizeRevisionFeedback(
+  feedback: UserFeedback[]
+): Record<string, { saved: number; hidden: number }> {
+  const summary: Record<string, { saved: number; hidden: number }> = {}
+
+  for (const f of feedback) {
+    if (!f.promptRevisionId || (f.action !== 'saved' && f.action !== 'hidden') || !isActiveFeedback(f)) continue
+    summary[f.promptRevisionId] ??= { saved: 0, hidden: 0 }
+    summary[f.promptRevisionId][f.action]++
+  }
+
+  return summary
+}
@@ -0,0 +1,233 @@
+/**
+ * Relevance Classifier - Per-inbox logistic regression trained on save/hide feedback
+ *
+ * Features are the contract's embedding (mean of its chunk vectors) plus the
+ * structured fields embeddings handle poorly: value, buyer classification and
+ * days to close. semanticSearch blends the predicted save probability with the
+ * similarity score (InboxMatchingConfig.classifierWeight).
+ * Trained in the search worker once feedback settles (learnInboxModels).
+ */
+
+import type { Contract, Inbox, InboxRelevanceModel, RelevanceModelEvaluation, UserFeedback } from '@/types'
+import { getContractById } from './contract-storage'
+import { recencyWeight } from './feedback-storage'
+import { BUYER_TYPES } from './search-filters'
+import { getActiveEmbeddingModel } from './vector-store'
+import { getContractVector, latestJudgements } from './relevance-feedback'
+
+export const DEFAULT_CLASSIFIER_WEIGHT = 0.3
+
+// Saves and hides each needed before a model is trained
+export const MIN_EXAMPLES_PER_CLASS = 3
+
+// Most recent judgements used for training (bounds training time)
+const MAX_EXAMPLES = 300
+
+// Full-batch gradient descent settings
+const EPOCHS = 150
+const LEARNING_RATE = 0.5
+const L2_PENALTY = 0.01
+
+const MAX_FOLDS = 5
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Structured features for a contract, as of a point in time
+ * Value on a log scale, buyer classification one-hot, days to close scaled to ~0-1
+ */
+export function structuredFeatures(
+  contract: Pick<Contract, 'value' | 'buyerClassification' | 'closeDate'>,
+  classifications: string[],
+  at: number
+): number[] {
+  const hasValue = contract.value !== null && contract.value > 0
+  const close = contract.closeDate ? new Date(contract.closeDate).getTime() : NaN
+  const daysToClose = Number.isFinite(close) ? (close - at) / DAY : 0
+
+  return [
+    hasValue ? 1 : 0,
+    hasValue ? Math.log10(contract.value! + 1) / 8 : 0, // £100m → 1
+    ...classifications.map(c => (contract.buyerClassification === c ? 1 : 0)),
+    Math.max(-30, Math.min(180, daysToClose)) / 180,
+  ]
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z))
+}
+
+function dot(weights: number[], features: ArrayLike<number>): number {
+  let sum = 0
+  for (let i = 0; i < weights.length; i++) sum += weights[i] * features[i]
+  return sum
+}
+
+/**
+ * Save probability for a feature vector (embedding followed by structured features)
+ */
+export function predictRelevance(
+  model: Pick<InboxRelevanceModel, 'weights' | 'bias'>,
+  features: ArrayLike<number>
+): number {
+  return sigmoid(dot(model.weights, features) + model.bias)
+}
+
+/**
+ * L2-regularised logistic regression, class-balanced so a few hides aren't drowned out
+ * Optional per-example weights (recency) scale each example's share of the gradient
+ */
+function trainLogistic(
+  examples: number[][],
+  labels: number[],
+  sampleWeights?: number[]
+): { weights: number[]; bias: number } {
+  const dimensions = examples[0].length
+  const positives = labels.filter(l => l === 1).length
+  const classWeight = [
+    examples.length / (2 * Math.max(1, examples.length - positives)),
+    examples.length / (2 * Math.max(1, positives)),
+  ]
+
+  const weights = new Array<number>(dimensions).fill(0)
+  let bias = 0
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    const gradient = new Array<number>(dimensions).fill(0)
+    let biasGradient = 0
+
+    examples.forEach((features, n) => {
+      const error = (sigmoid(dot(weights, features) + bias) - labels[n]) * classWeight[labels[n]] * (sampleWeights?.[n] ?? 1)
+      for (let i = 0; i < dimensions; i++) gradient[i] += error * features[i]
+      biasGradient += error
+    })
+
+    for (let i = 0; i < dimensions; i++) {
+      weights[i] -= LEARNING_RATE * (gradient[i] / examples.length + L2_PENALTY * weights[i])
+    }
+    bias -= LEARNING_RATE * (biasGradient / examples.length)
+  }
+
+  return { weights, bias }
+}
+
+/**
+ * Area under the ROC curve (probability a save outranks a hide)
+ */
+function rocAuc(predictions: Array<{ probability: number; label: number }>): number | null {
+  const positives = predictions.filter(p => p.label === 1)
+  const negatives = predictions.filter(p => p.label === 0)
+  if (positives.length === 0 || negatives.length === 0) return null
+
+  let wins = 0
+  for (const p of positives) {
+    for (const n of negatives) {
+      wins += p.probability > n.probability ? 1 : p.probability === n.probability ? 0.5 : 0
+    }
+  }
+  return wins / (positives.length * negatives.length)
+}
+
+/**
+ * K-fold cross-validation (examples are dealt round-robin into folds)
+ */
+function crossValidate(examples: number[][], labels: number[], sampleWeights?: number[]): RelevanceModelEvaluation {
+  const folds = Math.min(MAX_FOLDS, examples.length)
+  const predictions: Array<{ probability: number; label: number }> = []
+
+  for (let fold = 0; fold < folds; fold++) {
+    const trainIdx = examples.map((_, i) => i).filter(i => i % folds !== fold)
+    const testIdx = examples.map((_, i) => i).filter(i => i % folds === fold)
+    const model = trainLogistic(
+      trainIdx.map(i => examples[i]),
+      trainIdx.map(i => labels[i]),
+      sampleWeights && trainIdx.map(i => sampleWeights[i])
+    )
+
+    for (const i of testIdx) {
+      predictions.push({ probability: predictRelevance(model, examples[i]), label: labels[i] })
+    }
+  }
+
+  const correct = predictions.filter(p => (p.probability >= 0.5 ? 1 : 0) === p.label).length
+  const logLoss = predictions.reduce((sum, { probability, label }) => {
+    const p = Math.min(1 - 1e-6, Math.max(1e-6, probability))
+    return sum - (label === 1 ? Math.log(p) : Math.log(1 - p))
+  }, 0) / predictions.length
+
+  const saved = labels.filter(l => l === 1).length
+
+  return {
+    examples: examples.length,
+    saved,
+    hidden: examples.length - saved,
+    folds,
+    accuracy: correct / predictions.length,
+    auc: rocAuc(predictions),
+    logLoss,
+  }
+}
+
+/**
+ * Train an inbox's relevance model from its feedback
+ * Returns undefined until there are MIN_EXAMPLES_PER_CLASS saves and hides with embeddings
+ *
+ * @param inbox Inbox to train for
+ * @param feedback All feedback for the inbox
+ */
+export async function trainRelevanceModel(
+  inbox: Inbox,
+  feedback: UserFeedback[]
+): Promise<InboxRelevanceModel | undefined> {
+  const judgements = [...latestJudgements(feedback).values()].slice(-MAX_EXAMPLES)
+
+  const counts = { saved: 0, hidden: 0 }
+  judgements.forEach(j => counts[j.action]++)
+  if (counts.saved < MIN_EXAMPLES_PER_CLASS || counts.hidden < MIN_EXAMPLES_PER_CLASS) {
+    return undefined
+  }
+
+  const model = await getActiveEmbeddingModel()
+  if (!model) return undefined
+
+  const classifications = [...BUYER_TYPES]
+  const examples: number[][] = []
+  const labels: number[] = []
+  const recency: number[] = []
+
+  for (const judgement of judgements) {
+    const contract = await getContractById(judgement.contractId)
+    const vector = contract && (await getContractVector(judgement.contractId, model))
+    if (!contract || !vector) continue
+
+    const at = new Date(judgement.timestamp).getTime()
+    examples.push([...vector, ...structuredFeatures(contract, classifications, at)])
+    labels.push(judgement.action === 'saved' ? 1 : 0)
+    recency.push(recencyWeight(judgement.timestamp))
+  }
+
+  const saved = labels.filter(l => l === 1).length
+  if (saved < MIN_EXAMPLES_PER_CLASS || labels.length - saved < MIN_EXAMPLES_PER_CLASS) {
+    return undefined
+  }
+
+  const evaluation = crossValidate(examples, labels, recency)
+  const { weights, bias } = trainLogistic(examples, labels, recency)
+
+  console.log('[Relevance Classifier] Trained model:', {
+    inbox: inbox.id,
+    examples: evaluation.examples,
+    accuracy: evaluation.accuracy.toFixed(2),
+    auc: evaluation.auc?.toFixed(2) ?? 'n/a',
+    logLoss: evaluation.logLoss.toFixed(3),
+  })
+
+  return {
+    weights,
+    bias,
+    model,
+    classifications,
+    evaluation,
+    trainedAt: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Relevance Feedback - Move an inbox's query vector using save/hide feedback (Rocchio)
+ *
+ * Saved contracts pull the vector towards them and hidden ones push it away,
+ * so an inbox learns what its prompt means without the prompt being reworded.
+ * Implicit signals (long views, followed links, ignored contracts) count for less.
+ * The original prompt embedding is kept on the inbox; resetting drops the
+ * learned vector and ignores feedback given before the reset.
+ */
+
+import type { Inbox, InboxQueryVector, RocchioWeights, UserFeedback } from '@/types'
+import { getContractEmbedding } from './contract-storage'
+import { isSameEmbeddingModel } from './embedding-providers'
+import { implicitSignal, isActiveFeedback, recencyWeight } from './feedback-storage'
+import { meanChunkVector, vectorNorm } from './embedding-matrix'
+import { computeEmbeddingWithModel, getActiveEmbeddingModel } from './vector-store'
+
+// Classic Rocchio defaults: hides carry far less signal than saves
+export const DEFAULT_ROCCHIO_WEIGHTS: RocchioWeights = {
+  original: 1,
+  saved: 0.75,
+  hidden: 0.15,
+}
+
+/**
+ * Each contract's latest save/hide, oldest feedback first
+ * Later actions replace earlier ones, so a contract counts once; retracted and
+ * superseded feedback is skipped, and an unsave or restore leaves no judgement
+ */
+export function latestJudgements(feedback: UserFeedback[]): Map<string, UserFeedback & { action: 'saved' | 'hidden' }> {
+  const latest = new Map<string, UserFeedback & { action: 'saved' | 'hidden' }>()
+  const active = feedback.filter(isActiveFeedback).sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  for (const f of active) {
+    if (f.action === 'saved' || f.action === 'hidden') latest.set(f.contractId, { ...f, action: f.action })
+    else if (f.action === 'unsaved' || f.action === 'restored') latest.delete(f.contractId)
+  }
+  return latest
+}
+
+/**
+ * Save/hide judgements with learning weights, oldest first
+ * Explicit ones weigh their recency; contracts never explicitly judged get their
+ * strongest implicit signal (dwell, link click, ignored) at a lower weight
+ */
+export function weightedJudgements(
+  feedback: UserFeedback[],
+  now: number = Date.now()
+): Array<{ contractId: string; action: 'saved' | 'hidden'; timestamp: string; weight: number; implicit: boolean }> {
+  const explicit = latestJudgements(feedback)
+  const judged = new Set(
+    feedback
+      .filter(f => isActiveFeedback(f) && f.action !== 'viewed' && f.action !== 'ignored')
+      .map(f => f.contractId)
+  )
+
+  const implicit = new Map<string, { action: 'saved' | 'hidden'; timestamp: string; weight: number }>()
+  for (const f of feedback) {
+    if (judged.has(f.contractId) || !isActiveFeedback(f)) continue
+    const signal = implicitSignal(f)
+    if (!signal) continue
+
+    const weight = signal.weight * recencyWeight(f.timestamp, now)
+    const current = implicit.get(f.contractId)
+    if (!current || weight > current.weight) {
+      implicit.set(f.contractId, { action: signal.action, timestamp: f.timestamp, weight })
+    }
+  }
+
+  return [
+    ...[...explicit.values()].map(({ contractId, action, timestamp }) => ({
+      contractId,
+      action,
+      timestamp,
+      weight: recencyWeight(timestamp, now),
+      implicit: false,
+    })),
+    ...[...implicit].map(([contractId, j]) => ({ contractId, ...j, implicit: true })),
+  ].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+}
+
+function normalize(vector: ArrayLike<number>): number[] {
+  const norm = vectorNorm(vector) || 1
+  return Array.from(vector, v => v / norm)
+}
+
+function centroid(vectors: number[][], dimensions: number, weights?: number[]): number[] {
+  const mean = new Array<number>(dimensions).fill(0)
+  const total = weights ? weights.reduce((sum, w) => sum + w, 0) : vectors.length
+  vectors.forEach((vector, n) => {
+    const share = (weights ? weights[n] : 1) / (total || 1)
+    for (let i = 0; i < dimensions; i++) mean[i] += vector[i] * share
+  })
+  return mean
+}
+
+/**
+ * Rocchio update: original × q + saved × mean(saved) − hidden × mean(hidden)
+ * Inputs are unit-normalised first and the result is unit length
+ * Per-example weights (e.g. recency) turn the means into weighted means
+ */
+export function computeRocchioVector(
+  original: number[],
+  saved: number[][],
+  hidden: number[][],
+  weights: RocchioWeights = DEFAULT_ROCCHIO_WEIGHTS,
+  exampleWeights?: { saved: number[]; hidden: number[] }
+): number[] {
+  const dimensions = original.length
+  const q = normalize(original)
+  const savedCentroid = saved.length > 0 ? centroid(saved.map(normalize), dimensions, exampleWeights?.saved) : null
+  const hiddenCentroid = hidden.length > 0 ? centroid(hidden.map(normalize), dimensions, exampleWeights?.hidden) : null
+
+  const learned = q.map((value, i) =>
+    weights.original * value +
+    (savedCentroid ? weights.saved * savedCentroid[i] : 0) -
+    (hiddenCentroid ? weights.hidden * hiddenCentroid[i] : 0)
+  )
+
+  return normalize(learned)
+}
+
+/**
+ * One stored vector per contract: the mean of its chunk vectors
+ */
+export async function getContractVector(
+  contractId: string,
+  model: Inbox['embeddingModel']
+): Promise<number[] | undefined> {
+  const chunks = await getContractEmbedding(contractId, model)
+  return chunks && chunks.length > 0 ? meanChunkVector(chunks) : undefined
+}
+
+/**
+ * Inbox update that relearns the query vector from the inbox's feedback
+ * Also stores the prompt embedding when it's missing or from another model
+ *
+ * @param inbox Inbox to learn for
+ * @param feedback All feedback for the inbox
+ */
+export async function learnQueryVector(
+  inbox: Inbox,
+  feedback: UserFeedback[]
+): Promise<Pick<Inbox, 'learnedEmbedding' | 'embedding' | 'embeddingModel'>> {
+  const resetAt = inbox.learnedEmbeddingResetAt
+  const judgements = weightedJudgements(resetAt ? feedback.filter(f => f.timestamp > resetAt) : feedback)
+  if (judgements.length === 0) {
+    return { learnedEmbedding: undefined }
+  }
+
+  const model = await getActiveEmbeddingModel()
+  let { embedding, embeddingModel } = inbox
+  if (!embedding || !model || !isSameEmbeddingModel(embeddingModel, model)) {
+    const computed = await computeEmbeddingWithModel(inbox.prompt)
+    embedding = computed.embedding
+    embeddingModel = computed.model
+  }
+
+  // Older and implicit judgements pull the vector less
+  const saved: number[][] = []
+  const hidden: number[][] = []
+  const exampleWeights = { saved: [] as number[], hidden: [] as number[] }
+  for (const { contractId, action, weight } of judgements) {
+    const vector = await getContractVector(contractId, embeddingModel)
+    if (!vector) continue
+    if (action === 'saved') saved.push(vector)
+    else hidden.push(vector)
+    exampleWeights[action].push(weight)
+  }
+
+  const weights = inbox.matchingConfig?.rocchioWeights ?? DEFAULT_ROCCHIO_WEIGHTS
+
+  console.log('[Relevance Feedback] Learning query vector:', {
+    inbox: inbox.id,
+    saved: saved.length,
+    hidden: hidden.length,
+    weights,
+  })
+
+  return {
+    embedding,
+    embeddingModel,
+    learnedEmbedding: saved.length + hidden.length > 0
+      ? {
+          query: inbox.prompt,
+          embedding: computeRocchioVector(embedding, saved, hidden, weights, exampleWeights),
+          model: embeddingModel!,
+          saved: saved.length,
+          hidden: hidden.length,
+          updatedAt: new Date().toISOString(),
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Inbox update that drops the learned vector and the feedback behind it
+ */
+export function resetQueryVector(): Pick<Inbox, 'learnedEmbedding' | 'learnedEmbeddingResetAt'> {
+  return { learnedEmbedding: undefined, learnedEmbeddingResetAt: new Date().toISOString() }
+}
+
+/**
+ * Whether a learned vector applies to the inbox's current prompt
+ */
+export function isQueryVectorCurrent(
+  inbox: Pick<Inbox, 'prompt' | 'learnedEmbedding'>
+): inbox is Pick<Inbox, 'prompt'> & { learnedEmbedding: InboxQueryVector } {
+  return !!inbox.learnedEmbedding && inbox.learnedEmbedding.query === inbox.prompt
+}
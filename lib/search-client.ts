@@ -0,0 +1,189 @@
+/**
+ * Search Client - Main-thread side of the search worker
+ * Wraps the worker message protocol in promises so hooks stay thin
+ */
+
+import type {
+  Contract,
+  EmbeddingMigrationSummary,
+  InboxLearningMetrics,
+  IngestionSummary,
+  SearchOptions,
+  SearchResult,
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from '@/types'
+
+// Request without its ID (distributes over the union)
+type WorkerRequestBody<T = SearchWorkerRequest> = T extends SearchWorkerRequest
+  ? Omit<T, 'requestId'>
+  : never
+
+interface PendingRequest {
+  resolve: (response: SearchWorkerResponse) => void
+  reject: (error: Error) => void
+  onProgress?: (current: number, total: number) => void
+}
+
+// Feedback comes in bursts (a run of hides) - models are relearned once it settles
+const LEARN_DELAY = 2000
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pending = new Map<number, PendingRequest>()
+const scheduledLearning = new Map<string, ReturnType<typeof setTimeout>>()
+const learnedListeners = new Set<(inboxId: string) => void>()
+
+function handleMessage(event: MessageEvent<SearchWorkerResponse>): void {
+  const response = event.data
+  const request = pending.get(response.requestId)
+  if (!request) return
+
+  if (response.type === 'progress') {
+    request.onProgress?.(response.current, response.total)
+    return
+  }
+
+  pending.delete(response.requestId)
+
+  if (response.type === 'error') {
+    request.reject(new Error(response.error))
+  } else {
+    request.resolve(response)
+  }
+}
+
+/**
+ * Start the worker on first use
+ * A crashed worker fails its in-flight requests and is restarted on the next call
+ */
+function getSearchWorker(): Worker {
+  if (typeof Worker === 'undefined') {
+    throw new Error('Search worker is only available in the browser')
+  }
+
+  if (!worker) {
+    worker = new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = handleMessage
+    worker.onerror = event => {
+      console.error('[Search Client] Worker error:', event.message)
+
+      pending.forEach(request => request.reject(new Error(event.message || 'Search worker crashed')))
+      pending.clear()
+
+      worker?.terminate()
+      worker = null
+    }
+  }
+
+  return worker
+}
+
+function send(
+  body: WorkerRequestBody,
+  onProgress?: (current: number, total: number) => void
+): Promise<SearchWorkerResponse> {
+  const searchWorker = getSearchWorker()
+  const requestId = nextRequestId++
+
+  return new Promise((resolve, reject) => {
+    pending.set(requestId, { resolve, reject, onProgress })
+    searchWorker.postMessage({ ...body, requestId } as SearchWorkerRequest)
+  })
+}
+
+function unexpected(response: SearchWorkerResponse): Error {
+  return new Error(`Unexpected search worker response: ${response.type}`)
+}
+
+/**
+ * Contracts currently in storage
+ * Pass reload to re-read storage instead of using the worker's cached copy
+ */
+export async function loadContractsInWorker(options: { reload?: boolean } = {}): Promise<Contract[]> {
+  const response = await send({ type: 'load', reload: options.reload ?? false })
+  if (response.type !== 'loaded') throw unexpected(response)
+  return response.contracts
+}
+
+/**
+ * Upsert the source CSV into storage (see contract-ingestion.ts)
+ * onProgress is called with (0, 0) when embedding starts, then per contract
+ */
+export async function ingestSourceInWorker(
+  onProgress?: (current: number, total: number) => void
+): Promise<{ contracts: Contract[]; summary: IngestionSummary }> {
+  const response = await send({ type: 'ingest', reportProgress: !!onProgress }, onProgress)
+  if (response.type !== 'ingested') throw unexpected(response)
+  return { contracts: response.contracts, summary: response.summary }
+}
+
+/**
+ * Re-embed vectors from a previous embedding model (see embedding-migration.ts)
+ * onProgress is called with (0, total) if there is anything to migrate
+ */
+export async function migrateEmbeddingsInWorker(
+  onProgress?: (current: number, total: number) => void
+): Promise<EmbeddingMigrationSummary | null> {
+  const response = await send({ type: 'migrate' }, onProgress)
+  if (response.type !== 'migrated') throw unexpected(response)
+  return response.summary
+}
+
+/**
+ * Rank contracts for a query, with the inbox's learning applied
+ */
+export async function searchInWorker(
+  query: string,
+  options: SearchOptions,
+  learningMetrics?: InboxLearningMetrics
+): Promise<SearchResult[]> {
+  const response = await send({ type: 'search', query, options, learningMetrics })
+  if (response.type !== 'results') throw unexpected(response)
+  return response.results
+}
+
+/**
+ * Tell the worker that contracts changed in storage (saved, hidden, read...)
+ */
+export async function refreshContractsInWorker(ids: string[]): Promise<void> {
+  const response = await send({ type: 'refresh', ids })
+  if (response.type !== 'refreshed') throw unexpected(response)
+}
+
+/**
+ * Relearn an inbox's query vector and relevance model (see learnInboxModels)
+ * Resolves once they're stored on the inbox
+ */
+export async function learnModelsInWorker(inboxId: string): Promise<void> {
+  const response = await send({ type: 'learn', inboxId })
+  if (response.type !== 'learned') throw unexpected(response)
+}
+
+/**
+ * Relearn an inbox's models in the background once its feedback settles
+ * Each call within LEARN_DELAY of the last pushes the run back.
+ * Listeners (onModelsLearned) are told once the models are stored.
+ */
+export function scheduleModelLearningInWorker(inboxId: string): void {
+  clearTimeout(scheduledLearning.get(inboxId))
+  scheduledLearning.set(inboxId, setTimeout(() => {
+    scheduledLearning.delete(inboxId)
+    learnModelsInWorker(inboxId)
+      .then(() => learnedListeners.forEach(listener => listener(inboxId)))
+      .catch(error =>
+        console.error('[Search Client] Error learning models for inbox:', inboxId, error)
+      )
+  }, LEARN_DELAY))
+}
+
+/**
+ * Be told when background learning has stored new models on an inbox
+ * Returns a function that unsubscribes
+ */
+export function onModelsLearned(listener: (inboxId: string) => void): () => void {
+  learnedListeners.add(listener)
+  return () => {
+    learnedListeners.delete(listener)
+  }
+}
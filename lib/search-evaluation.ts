@@ -0,0 +1,323 @@
+/**
+ * Search Evaluation - Offline relevance metrics for labelled prompts
+ *
+ * Each case is a prompt plus the contracts judged relevant to it. Contracts are
+ * ranked with the app's own scoring (scoreContracts, then learning) and the
+ * ranking is scored with precision@k, recall@k, nDCG@k and MRR.
+ * Reports record the model, settings and hashes of the cases and corpus, so a
+ * change to scoring can be justified against a baseline run
+ * (see scripts/evaluate-search.ts).
+ */
+
+import type {
+  Contract,
+  EmbeddingMatrix,
+  EmbeddingModelInfo,
+  EvaluationCase,
+  EvaluationCaseResult,
+  EvaluationConfig,
+  EvaluationMetrics,
+  EvaluationReport,
+  InboxLearningMetrics,
+  LexicalIndex,
+  SearchResult,
+  UserFeedback,
+} from '@/types'
+import { DEFAULT_LEXICAL_WEIGHT, normaliseLexicalScores, scoreLexical } from './bm25'
+import { getContractRowMean } from './embedding-matrix'
+import { fnv1a, isSameEmbeddingModel } from './embedding-providers'
+import { applyLearning, calculateLearnedBoosts, initialLearningState, learningReducer } from './learning'
+import { computeRocchioVector } from './relevance-feedback'
+import { applyInboxFilters } from './search-filters'
+import { scoreContracts } from './vector-store'
+
+export const DEFAULT_EVALUATION_CONFIG: EvaluationConfig = {
+  k: 10,
+  minScore: 0,
+  lexicalWeight: DEFAULT_LEXICAL_WEIGHT,
+  chunkAggregation: 'max',
+  learning: true,
+}
+
+const METRICS: Array<keyof EvaluationMetrics> = ['precision', 'recall', 'ndcg', 'mrr']
+
+/**
+ * Contracts and their vectors, built once and shared by every case
+ */
+export interface EvaluationCorpus {
+  contracts: Contract[]
+  matrix: EmbeddingMatrix
+  lexicalIndex: LexicalIndex
+}
+
+export type EmbedQuery = (text: string) => Promise<number[]>
+
+// ========== Metrics ==========
+
+/**
+ * Fraction of the top k results that are relevant
+ */
+export function precisionAtK(ranked: string[], relevant: Set<string>, k: number): number {
+  if (k <= 0) return 0
+  return ranked.slice(0, k).filter(id => relevant.has(id)).length / k
+}
+
+/**
+ * Fraction of the relevant contracts found in the top k
+ */
+export function recallAtK(ranked: string[], relevant: Set<string>, k: number): number {
+  if (relevant.size === 0) return 0
+  return ranked.slice(0, k).filter(id => relevant.has(id)).length / relevant.size
+}
+
+/**
+ * Normalised discounted cumulative gain at k with binary relevance
+ * 1 when every slot up to min(k, relevant) holds a relevant contract
+ */
+export function ndcgAtK(ranked: string[], relevant: Set<string>, k: number): number {
+  const gain = (rank: number) => 1 / Math.log2(rank + 2)
+
+  const dcg = ranked.slice(0, k).reduce((sum, id, rank) => sum + (relevant.has(id) ? gain(rank) : 0), 0)
+  let ideal = 0
+  for (let rank = 0; rank < Math.min(k, relevant.size); rank++) ideal += gain(rank)
+
+  return ideal > 0 ? dcg / ideal : 0
+}
+
+/**
+ * 1 / rank of the first relevant result, or 0 if none is retrieved
+ */
+export function reciprocalRank(ranked: string[], relevant: Set<string>): number {
+  const index = ranked.findIndex(id => relevant.has(id))
+  return index >= 0 ? 1 / (index + 1) : 0
+}
+
+// ========== Cases ==========
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+/**
+ * Validate a labelled cases file (an array of cases, or { cases: [...] })
+ * Throws on the first malformed case so a typo can't quietly skew the numbers
+ */
+export function parseEvaluationCases(json: unknown): EvaluationCase[] {
+  const raw = Array.isArray(json) ? json : (json as { cases?: unknown } | null)?.cases
+  if (!Array.isArray(raw)) {
+    throw new Error('Evaluation cases must be an array or { "cases": [...] }')
+  }
+
+  const ids = new Set<string>()
+
+  return raw.map((item, i) => {
+    const entry = item as Partial<EvaluationCase>
+    const id = typeof entry.id === 'string' && entry.id ? entry.id : `case-${i + 1}`
+
+    if (ids.has(id)) throw new Error(`Duplicate evaluation case id: ${id}`)
+    ids.add(id)
+
+    if (typeof entry.prompt !== 'string' || !entry.prompt.trim()) {
+      throw new Error(`Evaluation case ${id} has no prompt`)
+    }
+    if (!isStringArray(entry.relevant) || entry.relevant.length === 0) {
+      throw new Error(`Evaluation case ${id} needs a non-empty "relevant" list of contract IDs`)
+    }
+    if (entry.feedback && (!isStringArray(entry.feedback.saved) || !isStringArray(entry.feedback.hidden))) {
+      throw new Error(`Evaluation case ${id} feedback needs "saved" and "hidden" lists of contract IDs`)
+    }
+
+    return {
+      id,
+      prompt: entry.prompt.trim(),
+      relevant: entry.relevant,
+      filters: entry.filters,
+      feedback: entry.feedback && { saved: entry.feedback.saved, hidden: entry.feedback.hidden },
+    }
+  })
+}
+
+// ========== Ranking ==========
+
+/**
+ * Learning metrics as if the user had saved and hidden the case's feedback
+ * contracts, one second apart, at the scores they were shown
+ */
+function learnedMetrics(
+  testCase: EvaluationCase,
+  shownScores: Map<string, number>,
+  contracts: Map<string, Contract>
+): InboxLearningMetrics {
+  const { saved = [], hidden = [] } = testCase.feedback ?? {}
+  const judged = [
+    ...saved.map(contractId => ({ contractId, action: 'saved' as const })),
+    ...hidden.map(contractId => ({ contractId, action: 'hidden' as const })),
+  ]
+
+  const start = Date.now() - judged.length * 1000
+  const events: UserFeedback[] = judged.map(({ contractId, action }, i) => ({
+    id: `${testCase.id}-${i}`,
+    inboxId: testCase.id,
+    contractId,
+    action,
+    matchScore: shownScores.get(contractId) ?? 0,
+    timestamp: new Date(start + i * 1000).toISOString(),
+  }))
+
+  const metrics = learningReducer(initialLearningState(testCase.id), { type: 'feedback', events })
+  return { ...metrics, ...calculateLearnedBoosts(events, contracts) }
+}
+
+/**
+ * Rank the corpus for one case and score the ranking
+ *
+ * With learning on, the case's feedback moves the query vector (Rocchio) and
+ * sets learned boosts and thresholds, as an inbox with that feedback would.
+ * Contracts the case learned from are left out of both the ranking and the
+ * relevant set, so learning is only credited for what it finds next.
+ */
+export async function evaluateCase(
+  testCase: EvaluationCase,
+  corpus: EvaluationCorpus,
+  embed: EmbedQuery,
+  config: EvaluationConfig
+): Promise<EvaluationCaseResult> {
+  const { matrix, lexicalIndex } = corpus
+  const feedback = config.learning ? testCase.feedback : undefined
+  const judged = new Set([...(feedback?.saved ?? []), ...(feedback?.hidden ?? [])])
+
+  const { contracts } = applyInboxFilters(corpus.contracts, testCase.filters)
+  const lexicalScores = config.lexicalWeight > 0
+    ? normaliseLexicalScores(scoreLexical(lexicalIndex, testCase.prompt))
+    : new Map<string, number>()
+  const options = { minScore: config.minScore, lexicalWeight: config.lexicalWeight, chunkAggregation: config.chunkAggregation }
+
+  const promptEmbedding = await embed(testCase.prompt)
+  let results: SearchResult[] = scoreContracts(contracts, matrix, new Float32Array(promptEmbedding), lexicalScores, options)
+
+  if (feedback && judged.size > 0) {
+    // Feedback is given on the scores the prompt alone produced
+    const shown = scoreContracts(
+      corpus.contracts.filter(c => judged.has(c.id)),
+      matrix,
+      new Float32Array(promptEmbedding),
+      lexicalScores,
+      { ...options, minScore: 0 }
+    )
+    const byId = new Map(corpus.contracts.map(c => [c.id, c]))
+    const metrics = learnedMetrics(testCase, new Map(shown.map(r => [r.contract.id, r.matchScore])), byId)
+
+    const vectors = (ids: string[]) =>
+      ids.map(id => getContractRowMean(matrix, id)).filter((v): v is number[] => !!v)
+    const learnedEmbedding = computeRocchioVector(promptEmbedding, vectors(feedback.saved), vectors(feedback.hidden))
+
+    results = scoreContracts(
+      contracts.filter(c => !judged.has(c.id)),
+      matrix,
+      new Float32Array(learnedEmbedding),
+      lexicalScores,
+      options
+    )
+    results = applyLearning(results, metrics)
+  }
+
+  const ranked = results.map(r => r.contract.id)
+  const relevant = new Set(testCase.relevant.filter(id => !judged.has(id)))
+  const firstRelevant = ranked.findIndex(id => relevant.has(id))
+
+  return {
+    id: testCase.id,
+    prompt: testCase.prompt,
+    relevant: relevant.size,
+    retrieved: ranked.length,
+    firstRelevantRank: firstRelevant >= 0 ? firstRelevant + 1 : null,
+    precision: precisionAtK(ranked, relevant, config.k),
+    recall: recallAtK(ranked, relevant, config.k),
+    ndcg: ndcgAtK(ranked, relevant, config.k),
+    mrr: reciprocalRank(ranked, relevant),
+  }
+}
+
+/**
+ * Evaluate every case and average the metrics
+ * Cases are run in order so reports diff cleanly
+ */
+export async function evaluateSearch(
+  cases: EvaluationCase[],
+  corpus: EvaluationCorpus,
+  embed: EmbedQuery,
+  model: EmbeddingModelInfo,
+  config: EvaluationConfig = DEFAULT_EVALUATION_CONFIG
+): Promise<EvaluationReport> {
+  const known = new Set(corpus.contracts.map(c => c.id))
+  const results: EvaluationCaseResult[] = []
+
+  for (const testCase of cases) {
+    const missing = testCase.relevant.filter(id => !known.has(id))
+    if (missing.length > 0) {
+      console.warn(`[Search Evaluation] Case ${testCase.id}: ${missing.length} relevant contract(s) not in the corpus`)
+    }
+    results.push(await evaluateCase(testCase, corpus, embed, config))
+  }
+
+  const mean = Object.fromEntries(
+    METRICS.map(metric => [
+      metric,
+      results.length > 0 ? results.reduce((sum, r) => sum + r[metric], 0) / results.length : 0,
+    ])
+  ) as unknown as EvaluationMetrics
+
+  return {
+    createdAt: new Date().toISOString(),
+    model,
+    config,
+    dataset: { cases: cases.length, hash: fnv1a(JSON.stringify(cases)).toString(16) },
+    corpus: {
+      contracts: corpus.contracts.length,
+      hash: fnv1a(corpus.contracts.map(c => c.id).sort().join('\n')).toString(16),
+    },
+    mean,
+    cases: results,
+  }
+}
+
+// ========== Comparison ==========
+
+/**
+ * Differences between a run and a baseline
+ * Warnings list anything that makes the numbers not like-for-like
+ */
+export function compareReports(
+  current: EvaluationReport,
+  baseline: EvaluationReport
+): {
+  warnings: string[]
+  mean: EvaluationMetrics // current − baseline
+  cases: Array<{ id: string; ndcg: number }> // Per-case nDCG change, cases in both runs only
+} {
+  const warnings: string[] = []
+
+  if (!isSameEmbeddingModel(current.model, baseline.model)) {
+    warnings.push(`Embedding model differs (${baseline.model.provider}/${baseline.model.model} → ${current.model.provider}/${current.model.model})`)
+  }
+  if (current.dataset.hash !== baseline.dataset.hash) {
+    warnings.push('Labelled cases differ')
+  }
+  if (current.corpus.hash !== baseline.corpus.hash) {
+    warnings.push('Contract corpus differs')
+  }
+  if (current.config.k !== baseline.config.k) {
+    warnings.push(`Cut-off differs (k=${baseline.config.k} → k=${current.config.k})`)
+  }
+
+  const mean = Object.fromEntries(
+    METRICS.map(metric => [metric, current.mean[metric] - baseline.mean[metric]])
+  ) as unknown as EvaluationMetrics
+
+  const baselineCases = new Map(baseline.cases.map(c => [c.id, c]))
+  const cases = current.cases
+    .filter(c => baselineCases.has(c.id))
+    .map(c => ({ id: c.id, ndcg: c.ndcg - baselineCases.get(c.id)!.ndcg }))
+
+  return { warnings, mean, cases }
+}
@@ -0,0 +1,252 @@
+/**
+ * Search Filters - Structured inbox filters applied before semantic scoring
+ * Embeddings are poor at money and geography, so these are matched exactly
+ */
+
+import type { Contract, InboxFilters } from '@/types'
+
+/**
+ * Buyer types offered in the UI (values of Contract.buyerClassification)
+ */
+export const BUYER_TYPES = ['Local', 'Central', 'Healthcare', 'Education', 'Blue light', 'Other']
+
+/**
+ * UK regions with place keywords matched against the buyer name
+ * Contracts only carry a country, so regions within the UK come from the
+ * buyer (e.g. "Kent County Council") - never the description, where any
+ * place a notice mentions would match
+ */
+export const REGION_KEYWORDS: Record<string, string[]> = {
+  'London': [
+    'london', 'camden', 'hackney', 'islington', 'lambeth', 'southwark', 'westminster',
+    'tower hamlets', 'croydon', 'barnet', 'ealing', 'brent', 'haringey', 'lewisham',
+    'greenwich', 'wandsworth', 'newham', 'enfield', 'hounslow', 'hillingdon', 'bromley',
+  ],
+  'South East': [
+    'south east', 'kent', 'surrey', 'sussex', 'hampshire', 'berkshire', 'buckinghamshire',
+    'oxfordshire', 'oxford', 'brighton', 'portsmouth', 'southampton', 'reading borough', 'slough',
+    'milton keynes', 'medway', 'isle of wight', 'canterbury', 'guildford', 'maidstone',
+  ],
+  'South West': [
+    'south west', 'devon', 'cornwall', 'somerset', 'dorset', 'wiltshire', 'gloucestershire',
+    'bristol', 'plymouth', 'exeter', 'swindon', 'bournemouth', 'torbay',
+  ],
+  'East of England': [
+    'east of england', 'essex', 'suffolk', 'norfolk', 'cambridgeshire', 'cambridge',
+    'hertfordshire', 'bedfordshire', 'bedford', 'luton', 'peterborough', 'norwich',
+    'ipswich', 'colchester', 'southend',
+  ],
+  'East Midlands': [
+    'east midlands', 'derbyshire', 'derby', 'nottinghamshire', 'nottingham', 'leicestershire',
+    'leicester', 'lincolnshire', 'lincoln', 'northamptonshire', 'northampton', 'rutland',
+  ],
+  'West Midlands': [
+    'west midlands', 'birmingham', 'coventry', 'wolverhampton', 'staffordshire', 'stoke',
+    'warwickshire', 'worcestershire', 'shropshire', 'herefordshire', 'solihull', 'walsall',
+    'dudley', 'sandwell', 'telford',
+  ],
+  'North East': [
+    'north east', 'newcastle', 'sunderland', 'durham', 'gateshead', 'middlesbrough',
+    'northumberland', 'tyne', 'teesside', 'hartlepool', 'darlington',
+  ],
+  'North West': [
+    'north west', 'manchester', 'liverpool', 'lancashire', 'cheshire', 'cumbria', 'merseyside',
+    'salford', 'bolton', 'wigan', 'stockport', 'preston', 'blackpool', 'warrington', 'wirral',
+  ],
+  'Yorkshire and the Humber': [
+    'yorkshire', 'humber', 'leeds', 'sheffield', 'bradford', 'york', 'hull', 'wakefield',
+    'doncaster', 'rotherham', 'barnsley', 'kirklees', 'calderdale', 'harrogate',
+  ],
+  'Scotland': [
+    'scotland', 'scottish', 'glasgow', 'edinburgh', 'aberdeen', 'dundee', 'inverness',
+    'highland', 'fife', 'lanarkshire', 'renfrewshire', 'ayrshire', 'lothian', 'stirling',
+  ],
+  'Wales': [
+    'wales', 'welsh', 'cymru', 'cardiff', 'swansea', 'newport', 'wrexham', 'gwynedd',
+    'powys', 'ceredigion', 'pembrokeshire', 'carmarthenshire', 'conwy', 'anglesey',
+  ],
+  'Northern Ireland': [
+    'northern ireland', 'belfast', 'derry', 'londonderry', 'antrim', 'armagh', 'tyrone',
+    'fermanagh',
+  ],
+}
+
+/**
+ * Regions matched on the contract's country rather than buyer keywords
+ */
+const COUNTRY_REGIONS: Record<string, string> = {
+  'Ireland': 'Ireland',
+}
+
+export const REGIONS = [...Object.keys(REGION_KEYWORDS), ...Object.keys(COUNTRY_REGIONS)]
+
+/**
+ * Approximate pounds per unit of each currency notices are published in
+ * Value filters are set in £; values in other currencies count as unspecified
+ */
+const GBP_RATES: Record<string, number> = {
+  GBP: 1,
+  EUR: 0.85,
+}
+
+/**
+ * Counts of contracts removed by each filter
+ * A contract failing several filters is counted against the first one it fails
+ */
+export interface FilterExclusions {
+  value: number
+  buyerType: number
+  location: number
+  total: number
+}
+
+/**
+ * Check whether any filter is actually set
+ */
+export function hasActiveFilters(filters: InboxFilters | undefined): filters is InboxFilters {
+  if (!filters) return false
+
+  return (
+    filters.valueMin !== undefined ||
+    filters.valueMax !== undefined ||
+    (filters.buyerTypes?.length ?? 0) > 0 ||
+    (filters.locations?.length ?? 0) > 0
+  )
+}
+
+/**
+ * Contract value in pounds (null when unpublished or in an unknown currency)
+ * Notices with a value but no currency are taken to be in pounds
+ */
+function valueInPounds(contract: Pick<Contract, 'value' | 'currency'>): number | null {
+  if (contract.value === null) return null
+
+  const rate = GBP_RATES[(contract.currency || 'GBP').toUpperCase()]
+  return rate === undefined ? null : contract.value * rate
+}
+
+function matchesValue(contract: Contract, filters: InboxFilters): boolean {
+  if (filters.valueMin === undefined && filters.valueMax === undefined) return true
+
+  // Many notices have no published value - keep them unless the user opted out
+  const value = valueInPounds(contract)
+  if (value === null) return filters.includeUnspecifiedValue ?? true
+
+  if (filters.valueMin !== undefined && value < filters.valueMin) return false
+  if (filters.valueMax !== undefined && value > filters.valueMax) return false
+
+  return true
+}
+
+function matchesBuyerType(contract: Contract, filters: InboxFilters): boolean {
+  if (!filters.buyerTypes || filters.buyerTypes.length === 0) return true
+
+  // Classification can be multi-valued, e.g. "Healthcare, Central"
+  const classifications = contract.buyerClassification
+    .split(',')
+    .map(c => c.trim())
+    .filter(Boolean)
+
+  return classifications.some(c => filters.buyerTypes!.includes(c))
+}
+
+/**
+ * Match a keyword on word boundaries so "bath" doesn't match "bathroom"
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`\\b${escaped}\\b`).test(text)
+}
+
+function matchesLocation(contract: Contract, filters: InboxFilters): boolean {
+  if (!filters.locations || filters.locations.length === 0) return true
+
+  const buyer = contract.authority.toLowerCase()
+
+  return filters.locations.some(location => {
+    const country = COUNTRY_REGIONS[location]
+    if (country) return contract.country === country
+
+    // UK regions - a known non-UK country rules the contract out
+    if (contract.country && contract.country !== 'United Kingdom') return false
+    const keywords = REGION_KEYWORDS[location] || [location.toLowerCase()]
+    return keywords.some(keyword => containsKeyword(buyer, keyword))
+  })
+}
+
+/**
+ * Check a single contract against inbox filters
+ * Returns the first filter it fails, or null if it passes
+ */
+export function getFilterFailure(
+  contract: Contract,
+  filters: InboxFilters | undefined
+): keyof Omit<FilterExclusions, 'total'> | null {
+  if (!hasActiveFilters(filters)) return null
+
+  if (!matchesValue(contract, filters)) return 'value'
+  if (!matchesBuyerType(contract, filters)) return 'buyerType'
+  if (!matchesLocation(contract, filters)) return 'location'
+
+  return null
+}
+
+/**
+ * Apply inbox filters to contracts
+ * Returns contracts that pass plus a breakdown of what was excluded
+ */
+export function applyInboxFilters(
+  contracts: Contract[],
+  filters: InboxFilters | undefined
+): { contracts: Contract[]; exclusions: FilterExclusions } {
+  const exclusions: FilterExclusions = { value: 0, buyerType: 0, location: 0, total: 0 }
+
+  if (!hasActiveFilters(filters)) {
+    return { contracts, exclusions }
+  }
+
+  const passing = contracts.filter(contract => {
+    const failure = getFilterFailure(contract, filters)
+    if (failure) {
+      exclusions[failure]++
+      exclusions.total++
+      return false
+    }
+    return true
+  })
+
+  return { contracts: passing, exclusions }
+}
+
+/**
+ * Human-readable summary of active filters (e.g. "£100k+ • Local • South East")
+ */
+export function describeFilters(filters: InboxFilters | undefined): string {
+  if (!hasActiveFilters(filters)) return 'No filters'
+
+  const parts: string[] = []
+  const formatMoney = (value: number) =>
+    value >= 1_000_000
+      ? `£${(value / 1_000_000).toFixed(value % 1_000_000 === 0 ? 0 : 1)}m`
+      : value >= 1_000
+      ? `£${Math.round(value / 1_000)}k`
+      : `£${value}`
+
+  if (filters.valueMin !== undefined && filters.valueMax !== undefined) {
+    parts.push(`${formatMoney(filters.valueMin)}–${formatMoney(filters.valueMax)}`)
+  } else if (filters.valueMin !== undefined) {
+    parts.push(`${formatMoney(filters.valueMin)}+`)
+  } else if (filters.valueMax !== undefined) {
+    parts.push(`Up to ${formatMoney(filters.valueMax)}`)
+  }
+
+  if (filters.buyerTypes && filters.buyerTypes.length > 0) {
+    parts.push(filters.buyerTypes.join(', '))
+  }
+
+  if (filters.locations && filters.locations.length > 0) {
+    parts.push(filters.locations.join(', '))
+  }
+
+  return parts.join(' • ')
+}
@@ -0,0 +1,163 @@
+/**
+ * Search Worker - Owns the embedding matrix and answers ranking requests
+ * Keeps CSV/embedding parsing, vector scoring, learning adjustments and
+ * model training off the main thread so the UI stays responsive while results load
+ *
+ * Protocol: SearchWorkerRequest / SearchWorkerResponse (types/index.ts)
+ * Main-thread side: search-client.ts
+ */
+
+import type { SearchWorkerRequest, SearchWorkerResponse } from '@/types'
+import { loadLocalContracts } from './csv-loader'
+import { ingestContracts } from './contract-ingestion'
+import { applyLearning, learnInboxModels } from './learning'
+import { isSameEmbeddingModel } from './embedding-providers'
+import { migrateEmbeddings } from './embedding-migration'
+import { getRankingVariant } from './experiments'
+import {
+  getActiveEmbeddingModel,
+  loadSearchCorpus,
+  refreshSearchCorpus,
+  semanticSearch,
+  type SearchCorpus,
+} from './vector-store'
+
+// Loaded on first use and kept until ingestion rewrites storage
+let corpus: Promise<SearchCorpus> | null = null
+
+function getCorpus(): Promise<SearchCorpus> {
+  if (!corpus) {
+    corpus = loadSearchCorpus()
+    // Don't cache a failed load - the next request retries
+    corpus.catch(() => {
+      corpus = null
+    })
+  }
+  return corpus
+}
+
+// Ingestion, migration and refreshes rewrite the corpus - they run one at a time
+// once in-flight reads finish, and later requests wait for them, so nothing
+// reads a half-written corpus
+const EXCLUSIVE_REQUESTS = new Set<SearchWorkerRequest['type']>(['ingest', 'migrate', 'refresh'])
+
+let writing: Promise<void> = Promise.resolve()
+const reading = new Set<Promise<void>>()
+
+function runExclusive(task: () => Promise<void>): Promise<void> {
+  // Only reads already queued - later ones wait for this write
+  const inFlight = Array.from(reading)
+  const run = writing.then(async () => {
+    await Promise.allSettled(inFlight)
+    await task()
+  })
+  writing = run.catch(() => undefined)
+  return run
+}
+
+function runShared(task: () => Promise<void>): Promise<void> {
+  const run = writing.then(task)
+  reading.add(run)
+  run.catch(() => undefined).finally(() => reading.delete(run))
+  return run
+}
+
+function post(message: SearchWorkerResponse): void {
+  self.postMessage(message)
+}
+
+async function handleRequest(request: SearchWorkerRequest): Promise<void> {
+  const { requestId } = request
+
+  switch (request.type) {
+    case 'load': {
+      if (request.reload) corpus = null
+      const { contracts } = await getCorpus()
+      post({ type: 'loaded', requestId, contracts })
+      return
+    }
+
+    case 'ingest': {
+      const loaded = await loadLocalContracts()
+      console.log('[Search Worker] Loaded', loaded.length, 'contracts from CSV')
+
+      const reportProgress = (current: number, total: number) =>
+        post({ type: 'progress', requestId, stage: 'embedding', current, total })
+
+      const { contracts, summary } = await ingestContracts(loaded, {
+        onStage: request.reportProgress ? () => reportProgress(0, 0) : undefined,
+        onProgress: request.reportProgress ? reportProgress : undefined,
+      })
+
+      // Storage changed underneath the cached corpus
+      corpus = null
+
+      post({ type: 'ingested', requestId, contracts, summary })
+      return
+    }
+
+    case 'search': {
+      // The server switched models since the corpus was loaded - its vectors are incomparable
+      const { matrix } = await getCorpus()
+      const model = await getActiveEmbeddingModel()
+      if (matrix.model && model && !isSameEmbeddingModel(matrix.model, model)) {
+        console.warn('[Search Worker] Embedding model changed, reloading corpus')
+        corpus = null
+      }
+
+      // Ranked by the inbox's experiment variant (the control if it has none), and
+      // tagged with an assigned variant so feedback can be attributed to it
+      const variant = getRankingVariant(request.options.variantId)
+      const matches = await semanticSearch(request.query, request.options, await getCorpus(), variant)
+      const results = applyLearning(matches, request.learningMetrics, request.options.boostOverrides, variant)
+        .map(result => (request.options.variantId ? { ...result, variantId: variant.id } : result))
+
+      console.log('[Search Worker] Found', matches.length, 'matches, applied learning:', results.length, 'results, variant:', variant.id)
+      post({ type: 'results', requestId, results })
+      return
+    }
+
+    case 'migrate': {
+      const summary = await migrateEmbeddings((current, total) =>
+        post({ type: 'progress', requestId, stage: 'migrating', current, total })
+      )
+
+      // Vectors were replaced underneath the cached corpus
+      if (summary && (summary.contracts > 0 || summary.inboxes > 0)) {
+        corpus = null
+      }
+
+      post({ type: 'migrated', requestId, summary })
+      return
+    }
+
+    case 'refresh': {
+      // Nothing cached yet means nothing to update - the next load reads fresh data
+      if (corpus) {
+        await refreshSearchCorpus(await corpus, request.ids)
+      }
+      post({ type: 'refreshed', requestId })
+      return
+    }
+
+    case 'learn': {
+      // Stored on the inbox - the client reloads it, which re-runs the search with them
+      await learnInboxModels(request.inboxId)
+      post({ type: 'learned', requestId })
+      return
+    }
+  }
+}
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const run = EXCLUSIVE_REQUESTS.has(event.data.type) ? runExclusive : runShared
+
+  run(() => handleRequest(event.data)).catch(error => {
+    console.error('[Search Worker] Error handling', event.data.type, 'request:', error)
+    post({
+      type: 'error',
+      requestId: event.data.requestId,
+      error: error instanceof Error ? error.message : 'Search worker request failed',
+    })
+  })
+}
@@ -1,23 +1,153 @@
 /**
- * Vector Store - OpenAI embeddings and semantic search
+ * Vector Store - Embeddings and semantic search
  * Handles embedding generation and cosine similarity calculations
  *
  * Security: Uses secure server-side API route for embeddings
- * Performance: Loads pre-generated contract embeddings from JSON
+ * Providers: The route embeds with the configured provider (OpenAI or local, see embedding-providers.ts)
+ * Performance: Loads pre-generated contract embeddings from JSON; large corpora
+ * are searched through an HNSW index (hnsw.ts) instead of a linear scan
+ * Models: Vectors are tagged with the model that produced them; vectors from
+ * a previous model are ignored until embedding-migration.ts re-embeds them
  */
 
-import type { Contract, SearchResult } from '@/types'
+import type {
+  ChunkAggregation,
+  Contract,
+  EmbeddingMatrix,
+  EmbeddingModelInfo,
+  ExplanationSource,
+  InboxRelevanceModel,
+  LexicalIndex,
+  SearchOptions,
+  SearchResult,
+  TextChunk,
+  TextSpan,
+  VectorIndex,
+} from '@/types'
 import {
   getAllContracts,
+  getAllEmbeddings,
+  getContractById,
   getContractEmbedding,
+  getEmbeddedContractIds,
+  getSearchIndex,
+  getStaleEmbeddingIds,
+  getVectorIndex,
   saveContractEmbedding,
+  saveContractEmbeddings,
+  saveSearchIndex,
+  saveVectorIndex,
 } from './contract-storage'
+import { applyInboxFilters } from './search-filters'
+import { embeddingModelKey, isSameEmbeddingModel } from './embedding-providers'
+import {
+  buildEmbeddingMatrix,
+  chunkRowKey,
+  chunkSimilarities,
+  getContractRowMean,
+  getEmbeddingRow,
+  parseChunkRowKey,
+  setEmbeddingRows,
+  vectorNorm,
+} from './embedding-matrix'
+import { aggregateChunkScores, chunkDescription, getEmbeddingChunks } from './chunking'
+import { DEFAULT_CLASSIFIER_WEIGHT, predictRelevance, structuredFeatures } from './relevance-classifier'
+import { findHighlights } from './highlights'
+import { templateExplanation, type ExplainableContract } from './match-explanation'
+import type { RankingVariant } from './experiments'
+import {
+  DEFAULT_LEXICAL_WEIGHT,
+  LEXICAL_INDEX_ID,
+  blendScores,
+  buildLexicalIndex,
+  isLexicalIndexCurrent,
+  normaliseLexicalScores,
+  scoreLexical,
+} from './bm25'
+import {
+  ANN_MIN_CONTRACTS,
+  VECTOR_INDEX_ID,
+  buildVectorIndex,
+  isVectorIndexCurrent,
+  searchVectorIndex,
+  syncVectorIndex,
+  takeChangedNodes,
+} from './hnsw'
+
+// Nearest neighbours fetched per requested result - filters and keyword
+// blending re-rank the candidates, so fetch more than we return
+const ANN_OVERFETCH = 3
+
+// Texts per /api/embed request - the route caps batches and rate-limits per request
+const EMBED_BATCH_SIZE = 50
+
+// The route allows 20 requests a minute - bulk embedding keeps under that,
+// leaving a couple spare for query embeddings
+const EMBED_REQUEST_INTERVAL = 60_000 / 18
+
+// Retries of a rate-limited batch, backing off when the route gives no Retry-After
+const EMBED_MAX_RETRIES = 3
+const EMBED_RETRY_DELAY = 5000
+
+// Model the server is embedding with, as last reported by /api/embed
+let activeModel: EmbeddingModelInfo | null = null
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
 
 /**
- * Generate embedding for a text using secure API route
- * This replaces the client-side OpenAI call to protect the API key
+ * How long to wait before retrying a rate-limited request
  */
-export async function computeEmbedding(text: string): Promise<number[]> {
+function getRetryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get('Retry-After'))
+  return retryAfter > 0 ? retryAfter * 1000 : EMBED_RETRY_DELAY * 2 ** attempt
+}
+
+/**
+ * Remember the model a response came from, noticing when the server switches
+ */
+function recordActiveModel(model: EmbeddingModelInfo): EmbeddingModelInfo {
+  if (activeModel && !isSameEmbeddingModel(activeModel, model)) {
+    console.warn(
+      '[Vector Store] Embedding model changed:',
+      embeddingModelKey(activeModel),
+      '→',
+      embeddingModelKey(model)
+    )
+  }
+  activeModel = { provider: model.provider, model: model.model, dimensions: model.dimensions }
+  return activeModel
+}
+
+/**
+ * Model the server currently embeds with
+ * Returns null if the API can't be reached - callers then skip model checks
+ */
+export async function getActiveEmbeddingModel(): Promise<EmbeddingModelInfo | null> {
+  if (activeModel) return activeModel
+
+  try {
+    const response = await fetch('/api/embed')
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || 'Failed to get embedding model')
+    }
+
+    return recordActiveModel(await response.json())
+  } catch (error) {
+    console.warn('[Vector Store] Could not determine embedding model:', error)
+    return null
+  }
+}
+
+/**
+ * Generate an embedding along with the model that produced it
+ */
+export async function computeEmbeddingWithModel(
+  text: string
+): Promise<{ embedding: number[]; model: EmbeddingModelInfo }> {
   try {
     console.log('[Vector Store] Computing embedding via API:', text.substring(0, 50) + '...')
 
@@ -34,28 +164,93 @@ export async function computeEmbedding(text: string): Promise<number[]> {
       throw new Error(error.error || 'Failed to generate embedding')
     }
 
-    const { embedding } = await response.json()
+    const { embedding, ...model } = await response.json()
     console.log('[Vector Store] Embedding computed, dimensions:', embedding.length)
 
-    return embedding
+    return { embedding, model: recordActiveModel(model) }
   } catch (error) {
     console.error('[Vector Store] Error computing embedding:', error)
     throw error
   }
 }
 
+/**
+ * Generate embedding for a text using secure API route
+ * This replaces the client-side OpenAI call to protect the API key
+ * The route uses whichever embedding provider the server is configured with
+ */
+export async function computeEmbedding(text: string): Promise<number[]> {
+  const { embedding } = await computeEmbeddingWithModel(text)
+  return embedding
+}
+
+/**
+ * Generate embeddings for many texts in one request (at most EMBED_BATCH_SIZE)
+ * Rate-limited requests are retried, so bulk embedding rides out the limit
+ */
+export async function computeEmbeddings(
+  texts: string[]
+): Promise<{ embeddings: number[][]; model: EmbeddingModelInfo }> {
+  try {
+    console.log('[Vector Store] Computing', texts.length, 'embeddings via API')
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch('/api/embed', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ texts }),
+      })
+
+      if (response.status === 429 && attempt < EMBED_MAX_RETRIES) {
+        const delay = getRetryDelay(response, attempt)
+        console.warn('[Vector Store] Embedding rate limited, retrying in', delay, 'ms')
+        await wait(delay)
+        continue
+      }
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to generate embeddings')
+      }
+
+      const { embeddings, ...model } = await response.json()
+      return { embeddings, model: recordActiveModel(model) }
+    }
+  } catch (error) {
+    console.error('[Vector Store] Error computing embeddings:', error)
+    throw error
+  }
+}
+
+/**
+ * Text that is embedded for a contract
+ * Combine title and description for better semantic matching
+ */
+export function getEmbeddingText(contract: Pick<Contract, 'title' | 'description'>): string {
+  return `${contract.title}\n\n${contract.description}`
+}
+
 /**
  * Compute embeddings for all contracts that don't have them yet
+ * Each contract gets one vector per description chunk (see chunking.ts)
+ * When contract IDs are given, (re-)embeds exactly those - e.g. after a text change
  * Returns number of embeddings generated
  */
 export async function precomputeAllEmbeddings(
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  contractIds?: string[]
 ): Promise<number> {
   try {
     console.log('[Vector Store] Starting to precompute embeddings...')
 
     const contracts = await getAllContracts()
-    const contractsNeedingEmbedding = contracts.filter(c => !c.embedding)
+    const idFilter = contractIds ? new Set(contractIds) : null
+    const embedded = idFilter ? new Set<string>() : await getEmbeddedContractIds()
+    const contractsNeedingEmbedding = contracts.filter(
+      c => (idFilter ? idFilter.has(c.id) : !embedded.has(c.id))
+    )
 
     if (contractsNeedingEmbedding.length === 0) {
       console.log('[Vector Store] All contracts already have embeddings')
@@ -70,29 +265,49 @@ export async function precomputeAllEmbeddings(
 
     let completed = 0
 
-    // Process in batches to avoid rate limits
-    const BATCH_SIZE = 10
-    for (let i = 0; i < contractsNeedingEmbedding.length; i += BATCH_SIZE) {
-      const batch = contractsNeedingEmbedding.slice(i, i + BATCH_SIZE)
+    // Group whole contracts into batches of at most EMBED_BATCH_SIZE chunks,
+    // one request per batch to stay inside the route's rate limit
+    const batches: Array<Array<{ contract: Contract; chunks: TextChunk[] }>> = []
+    let batchSize = EMBED_BATCH_SIZE
 
-      await Promise.all(
-        batch.map(async contract => {
-          // Combine title and description for better semantic matching
-          const text = `${contract.title}\n\n${contract.description}`
+    for (const contract of contractsNeedingEmbedding) {
+      const chunks = getEmbeddingChunks(contract)
+      if (batchSize + chunks.length > EMBED_BATCH_SIZE) {
+        batches.push([])
+        batchSize = 0
+      }
+      batches[batches.length - 1].push({ contract, chunks })
+      batchSize += chunks.length
+    }
 
-          const embedding = await computeEmbedding(text)
-          await saveContractEmbedding(contract.id, text, embedding)
+    for (const [i, batch] of batches.entries()) {
+      const startedAt = Date.now()
+      const { embeddings, model } = await computeEmbeddings(
+        batch.flatMap(({ chunks }) => chunks.map(chunk => chunk.text))
+      )
 
-          completed++
-          if (onProgress) {
-            onProgress(completed, contractsNeedingEmbedding.length)
+      let offset = 0
+      await saveContractEmbeddings(
+        batch.map(({ contract, chunks }) => {
+          const entry = {
+            id: contract.id,
+            text: getEmbeddingText(contract),
+            embeddings: embeddings.slice(offset, offset + chunks.length),
           }
-        })
+          offset += chunks.length
+          return entry
+        }),
+        model
       )
 
-      // Small delay between batches
-      if (i + BATCH_SIZE < contractsNeedingEmbedding.length) {
-        await new Promise(resolve => setTimeout(resolve, 100))
+      completed += batch.length
+      if (onProgress) {
+        onProgress(completed, contractsNeedingEmbedding.length)
+      }
+
+      // Pace requests to the route's rate limit
+      if (i + 1 < batches.length) {
+        await wait(EMBED_REQUEST_INTERVAL - (Date.now() - startedAt))
       }
     }
 
@@ -105,51 +320,241 @@ export async function precomputeAllEmbeddings(
 }
 
 /**
- * Calculate cosine similarity between two vectors
+ * Convert cosine similarity (-1 to 1) to match score (0-100)
+ */
+function similarityToScore(similarity: number): number {
+  // Direct linear mapping: 0.0 → 0%, 1.0 → 100%
+  // Previous mapping was too aggressive (< 0.5 → 0%)
+  // For semantic search, 0.3-0.5 similarity is common and should be visible
+  return Math.round(Math.max(0, Math.min(1, similarity)) * 100)
+}
+
+/**
+ * Load the stored BM25 index, rebuilding it if missing or out of date
+ */
+export async function ensureLexicalIndex(
+  contracts: Contract[],
+  options: { rebuild?: boolean } = {}
+): Promise<LexicalIndex> {
+  if (!options.rebuild) {
+    const stored = await getSearchIndex(LEXICAL_INDEX_ID)
+    if (isLexicalIndexCurrent(stored, contracts.length)) {
+      return stored
+    }
+  }
+
+  console.log('[Vector Store] Building lexical index for', contracts.length, 'contracts')
+  const index = buildLexicalIndex(contracts)
+
+  try {
+    await saveSearchIndex(index)
+  } catch (error) {
+    // Index still usable in memory for this search
+    console.warn('[Vector Store] Could not persist lexical index:', error)
+  }
+
+  return index
+}
+
+/**
+ * Load the stored HNSW index and bring it up to date with the embeddings
+ * Only contracts in changedIds (re-embedded) and added/removed ones are touched;
+ * the graph is rebuilt from scratch if missing or the embedding model changed.
+ * Returns null for small corpora, where a linear scan is used instead.
  */
-function cosineSimilarity(vec1: number[], vec2: number[]): number {
-  if (vec1.length !== vec2.length) {
-    throw new Error('Vectors must have the same length')
+export async function ensureVectorIndex(
+  matrix: EmbeddingMatrix,
+  options: { changedIds?: string[]; rebuild?: boolean } = {}
+): Promise<VectorIndex | null> {
+  if (matrix.rows.size < ANN_MIN_CONTRACTS) return null
+
+  const { dimensions } = matrix
+  const model = matrix.model ? embeddingModelKey(matrix.model) : ''
+
+  // The graph links chunks, keyed "<contract id>#<chunk>"
+  const chunkRows = (id: string) =>
+    Array.from({ length: matrix.chunkCounts.get(id) ?? 0 }, (_, chunk) => chunkRowKey(id, chunk))
+
+  const contracts = Array.from(matrix.rows.keys()).flatMap(id =>
+    chunkRows(id).map((key, chunk) => ({ id: key, embedding: getEmbeddingRow(matrix, id, chunk) }))
+  )
+  const changedIds = options.changedIds?.flatMap(chunkRows)
+
+  const stored = options.rebuild ? undefined : await getVectorIndex(VECTOR_INDEX_ID)
+  let index: VectorIndex | null
+  let changedNodes: string[] | undefined
+
+  if (isVectorIndexCurrent(stored, dimensions, model)) {
+    const { inserted, removed } = syncVectorIndex(stored, contracts, changedIds)
+    if (inserted === 0 && removed === 0) return stored
+
+    console.log('[Vector Store] Updated vector index:', { inserted, removed })
+    index = stored
+    changedNodes = takeChangedNodes(index)
+  } else {
+    console.log('[Vector Store] Building vector index for', contracts.length, 'chunks')
+    index = buildVectorIndex(contracts, { model })
+    if (!index) return null
+  }
+
+  try {
+    await saveVectorIndex(index, changedNodes)
+  } catch (error) {
+    // Index still usable in memory for this search
+    console.warn('[Vector Store] Could not persist vector index:', error)
   }
 
-  let dotProduct = 0
-  let norm1 = 0
-  let norm2 = 0
+  return index
+}
+
+/**
+ * Everything a search needs, loaded once and reused across queries
+ * The search worker keeps one of these in memory
+ */
+export interface SearchCorpus {
+  contracts: Contract[]
+  matrix: EmbeddingMatrix
+  staleIds: Set<string> // Vectors from a previous model, awaiting migration
+  lexicalIndex: LexicalIndex
+  vectorIndex: VectorIndex | null
+}
 
-  for (let i = 0; i < vec1.length; i++) {
-    dotProduct += vec1[i] * vec2[i]
-    norm1 += vec1[i] * vec1[i]
-    norm2 += vec2[i] * vec2[i]
+/**
+ * Load contracts from storage and pack them for searching
+ * Only vectors from the active embedding model are loaded
+ */
+export async function loadSearchCorpus(): Promise<SearchCorpus> {
+  const contracts = await getAllContracts()
+  const model = await getActiveEmbeddingModel()
+  const matrix = buildEmbeddingMatrix(await getAllEmbeddings(model ?? undefined), model)
+  const staleIds = model ? await getStaleEmbeddingIds(model) : new Set<string>()
+
+  if (staleIds.size > 0) {
+    console.warn('[Vector Store]', staleIds.size, 'embeddings are from a previous model and will be re-embedded')
   }
 
-  const magnitude = Math.sqrt(norm1) * Math.sqrt(norm2)
+  const lexicalIndex = await ensureLexicalIndex(contracts)
+  const vectorIndex = await ensureVectorIndex(matrix)
 
-  if (magnitude === 0) return 0
+  console.log('[Vector Store] Loaded search corpus:', {
+    contracts: contracts.length,
+    embedded: matrix.ids.length,
+    stale: staleIds.size,
+    model: model ? embeddingModelKey(model) : 'unknown',
+    ann: !!vectorIndex,
+  })
 
-  return dotProduct / magnitude
+  return { contracts, matrix, staleIds, lexicalIndex, vectorIndex }
 }
 
 /**
- * Convert cosine similarity (-1 to 1) to match score (0-100)
+ * Re-read specific contracts into a loaded corpus (e.g. after save/hide)
+ * Notice text isn't edited on the main thread, so the indexes stay valid
  */
-function similarityToScore(similarity: number): number {
-  // Direct linear mapping: 0.0 → 0%, 1.0 → 100%
-  // Previous mapping was too aggressive (< 0.5 → 0%)
-  // For semantic search, 0.3-0.5 similarity is common and should be visible
-  return Math.round(Math.max(0, Math.min(1, similarity)) * 100)
+export async function refreshSearchCorpus(corpus: SearchCorpus, ids: string[]): Promise<void> {
+  for (const id of ids) {
+    const stored = await getContractById(id)
+    const position = corpus.contracts.findIndex(c => c.id === id)
+
+    if (!stored) {
+      if (position >= 0) corpus.contracts.splice(position, 1)
+      continue
+    }
+
+    if (!corpus.matrix.rows.has(id)) {
+      const embeddings = await getContractEmbedding(id, corpus.matrix.model ?? undefined)
+      if (embeddings) setEmbeddingRows(corpus.matrix, id, embeddings)
+    }
+
+    if (position >= 0) {
+      corpus.contracts[position] = stored
+    } else {
+      corpus.contracts.push(stored)
+    }
+  }
 }
 
 /**
- * Semantic search for contracts matching a query
+ * Score contracts against an embedded query, best first: chunk similarity blended
+ * with the keyword score, then with the relevance model's save probability
+ * The ranking step of semanticSearch, kept free of storage so the offline
+ * evaluation (search-evaluation.ts) ranks exactly as the app does
  */
-export async function semanticSearch(
-  query: string,
+export function scoreContracts(
+  contracts: Contract[],
+  matrix: EmbeddingMatrix,
+  queryEmbedding: Float32Array,
+  lexicalScores: Map<string, number>,
   options: {
-    limit?: number
     minScore?: number
-    generateExplanations?: boolean
-    explanationLimit?: number
+    lexicalWeight?: number
+    chunkAggregation?: ChunkAggregation
+    classifier?: InboxRelevanceModel // Only when trained on the matrix's model
+    classifierWeight?: number
+    scoreFromSimilarity?: (similarity: number) => number // The ranking variant's mapping (default linear)
+    now?: number
   } = {}
+): SearchResult[] {
+  const {
+    minScore = 0,
+    lexicalWeight = DEFAULT_LEXICAL_WEIGHT,
+    chunkAggregation = 'max',
+    classifier,
+    classifierWeight = DEFAULT_CLASSIFIER_WEIGHT,
+    scoreFromSimilarity = similarityToScore,
+    now = Date.now(),
+  } = options
+
+  const queryNorm = vectorNorm(queryEmbedding)
+  const results: SearchResult[] = []
+
+  for (const contract of contracts) {
+    // Score each chunk, combine, and blend with keyword score
+    const similarities = chunkSimilarities(matrix, contract.id, queryEmbedding, queryNorm)
+    const { similarity, chunk } = similarities
+      ? aggregateChunkScores(similarities, chunkAggregation)
+      : { similarity: 0, chunk: -1 }
+    const lexicalScore = lexicalScores.get(contract.id) || 0
+    let matchScore = scoreFromSimilarity(blendScores(similarity, lexicalScore, lexicalWeight))
+
+    // Blend in the probability the user saves it, learned from their feedback
+    const vector = classifier && classifierWeight > 0 && getContractRowMean(matrix, contract.id)
+    const probability = vector
+      ? predictRelevance(classifier!, [...vector, ...structuredFeatures(contract, classifier!.classifications, now)])
+      : undefined
+    if (probability !== undefined) {
+      matchScore = Math.round((1 - classifierWeight) * matchScore + classifierWeight * probability * 100)
+    }
+
+    if (matchScore >= minScore) {
+      // Spans are deterministic from the text, so they aren't stored with the vectors
+      // (vectors embedded before chunking have no matching spans)
+      const spans = similarities ? chunkDescription(contract.description || '') : []
+      const span = spans.length === similarities?.length ? spans[chunk] : undefined
+
+      results.push({
+        contract,
+        matchScore,
+        scoreBreakdown: { semantic: similarity, lexical: lexicalScore, classifier: probability },
+        matchedChunk: span && { index: chunk, ...span, similarity: similarities![chunk] },
+      })
+    }
+  }
+
+  // Sort by match score (highest first)
+  return results.sort((a, b) => b.matchScore - a.matchScore)
+}
+
+/**
+ * Hybrid semantic + keyword search for contracts matching a query
+ * Pass a preloaded corpus to avoid reading storage on every query, and the
+ * ranking variant options.variantId names (the worker resolves it - functions can't be posted)
+ */
+export async function semanticSearch(
+  query: string,
+  options: SearchOptions = {},
+  corpus?: SearchCorpus,
+  variant: Pick<RankingVariant, 'scoreFromSimilarity'> = {}
 ): Promise<SearchResult[]> {
   try {
     const {
@@ -157,67 +562,134 @@ export async function semanticSearch(
       minScore = 0,
       generateExplanations = false,
       explanationLimit = 10,
+      filters,
+      lexicalWeight = DEFAULT_LEXICAL_WEIGHT,
+      chunkAggregation = 'max',
+      queryVector,
+      relevanceModel,
+      classifierWeight = DEFAULT_CLASSIFIER_WEIGHT,
     } = options
 
     console.log('[Vector Store] Searching for:', query)
 
+    // Get all contracts
+    const { contracts: allContracts, matrix, staleIds, lexicalIndex, vectorIndex } =
+      corpus ?? (await loadSearchCorpus())
+
+    // Use the inbox's learned vector if it was learned for this query with the corpus' model
+    const learned = queryVector?.query === query && isSameEmbeddingModel(queryVector.model, matrix.model)
+      ? queryVector
+      : undefined
+    if (learned) {
+      console.log('[Vector Store] Using learned query vector:', { saved: learned.saved, hidden: learned.hidden })
+    }
+
+    // The inbox's relevance model only applies to vectors from the model it was trained on
+    const classifier = relevanceModel && classifierWeight > 0 && isSameEmbeddingModel(relevanceModel.model, matrix.model)
+      ? relevanceModel
+      : undefined
+    const now = Date.now()
+
     // Compute query embedding
-    const queryEmbedding = await computeEmbedding(query)
+    const { embedding, model } = learned ?? (await computeEmbeddingWithModel(query))
+    const queryEmbedding = new Float32Array(embedding)
 
-    // Get all contracts
-    const contracts = await getAllContracts()
+    // Similarity across models is meaningless - the caller must reload the corpus
+    if (matrix.model && !isSameEmbeddingModel(matrix.model, model)) {
+      throw new Error(
+        `Query embedded with ${embeddingModelKey(model)} but contracts with ${embeddingModelKey(matrix.model)}`
+      )
+    }
 
-    if (contracts.length === 0) {
+    if (allContracts.length === 0) {
       console.warn('[Vector Store] No contracts in storage')
       return []
     }
 
-    // Calculate similarity scores
-    const results: SearchResult[] = []
+    // Apply structured inbox filters before scoring
+    const { contracts, exclusions } = applyInboxFilters(allContracts, filters)
 
-    for (const contract of contracts) {
-      // Note: Inbox-specific hiding is handled at the UI layer via hiddenInInboxes array
-      // Vector store returns all contracts for filtering upstream
+    if (exclusions.total > 0) {
+      console.log('[Vector Store] Filters excluded', exclusions.total, 'contracts:', exclusions)
+    }
 
-      // Get or compute contract embedding
-      let contractEmbedding = contract.embedding
+    // Keyword scores from the BM25 index (skipped for pure semantic search)
+    const lexicalScores = lexicalWeight > 0
+      ? normaliseLexicalScores(scoreLexical(lexicalIndex, query))
+      : new Map<string, number>()
+
+    // Large corpora: only score approximate nearest neighbours plus keyword hits
+    let candidates = contracts
+    if (vectorIndex && contracts.length >= ANN_MIN_CONTRACTS && limit < contracts.length) {
+      const neighbours = searchVectorIndex(
+        vectorIndex,
+        queryEmbedding,
+        Math.min(allContracts.length, limit * ANN_OVERFETCH),
+        key => {
+          const { id, chunk } = parseChunkRowKey(key)
+          return getEmbeddingRow(matrix, id, chunk)
+        }
+      )
 
-      if (!contractEmbedding) {
-        // Fallback: compute on-the-fly (shouldn't happen if precomputed)
-        console.warn('[Vector Store] Contract missing embedding:', contract.id)
-        const text = `${contract.title}\n\n${contract.description}`
-        contractEmbedding = await computeEmbedding(text)
-        await saveContractEmbedding(contract.id, text, contractEmbedding)
-      }
+      const candidateIds = new Set(neighbours.map(n => parseChunkRowKey(n.id).id))
+      lexicalScores.forEach((_, id) => candidateIds.add(id))
 
-      // Calculate similarity
-      const similarity = cosineSimilarity(queryEmbedding, contractEmbedding)
-      const matchScore = similarityToScore(similarity)
-
-      // Log first 3 contracts to see actual similarity scores
-      if (results.length < 3) {
-        console.log(`[Vector Store] ${contract.title.substring(0, 40)}:`, {
-          similarity: similarity.toFixed(4),
-          score: matchScore,
-          threshold: minScore,
-          passes: matchScore >= minScore
-        })
+      // Contracts not yet embedded aren't in the graph - keep them for on-the-fly scoring
+      const annCandidates = contracts.filter(
+        c => candidateIds.has(c.id) || (!matrix.rows.has(c.id) && !staleIds.has(c.id))
+      )
+
+      // Filters removed too many neighbours - fall back to the exact scan
+      if (annCandidates.length >= limit) {
+        console.log('[Vector Store] ANN candidates:', annCandidates.length, 'of', contracts.length)
+        candidates = annCandidates
       }
+    }
 
-      if (matchScore >= minScore) {
-        results.push({
-          contract,
-          matchScore,
-        })
+    // Vectors awaiting migration score on keywords alone rather than
+    // embedding the whole corpus one query at a time
+    for (const contract of candidates) {
+      if (!matrix.rows.has(contract.id) && !staleIds.has(contract.id)) {
+        // Fallback: compute on-the-fly (shouldn't happen if precomputed)
+        console.warn('[Vector Store] Contract missing embedding:', contract.id)
+        const chunks = getEmbeddingChunks(contract)
+        const { embeddings, model } = await computeEmbeddings(chunks.map(chunk => chunk.text))
+        await saveContractEmbedding(contract.id, getEmbeddingText(contract), embeddings, model)
+        setEmbeddingRows(matrix, contract.id, embeddings)
+        matrix.model = matrix.model ?? model
       }
     }
 
-    // Sort by match score (highest first)
-    results.sort((a, b) => b.matchScore - a.matchScore)
+    // Note: Inbox-specific hiding is handled at the UI layer via hiddenInInboxes array
+    // Vector store returns all contracts for filtering upstream
+    const results = scoreContracts(candidates, matrix, queryEmbedding, lexicalScores, {
+      minScore,
+      lexicalWeight,
+      chunkAggregation,
+      classifier,
+      classifierWeight,
+      scoreFromSimilarity: variant.scoreFromSimilarity,
+      now,
+    })
+
+    // Log top 3 contracts to see actual similarity scores
+    for (const { contract, matchScore, scoreBreakdown } of results.slice(0, 3)) {
+      console.log(`[Vector Store] ${contract.title.substring(0, 40)}:`, {
+        similarity: scoreBreakdown?.semantic.toFixed(4),
+        lexical: scoreBreakdown?.lexical.toFixed(4),
+        score: matchScore,
+        threshold: minScore,
+      })
+    }
 
     // Limit results
     const limited = results.slice(0, limit)
 
+    // Point at the sentences that matched, within the best chunk
+    for (const result of limited) {
+      result.highlights = findHighlights(result.contract.description, query, result.matchedChunk)
+    }
+
     // Generate explanations for top results if requested
     if (generateExplanations && limited.length > 0) {
       console.log('[Vector Store] Generating explanations for top', Math.min(explanationLimit, limited.length), 'results')
@@ -228,7 +700,8 @@ export async function semanticSearch(
       await Promise.all(
         topResults.map(async result => {
           try {
-            result.explanation = await generateMatchExplanation(query, result.contract)
+            const { explanation } = await generateMatchExplanation(query, result.contract, result.highlights)
+            result.explanation = explanation
           } catch (error) {
             console.error('[Vector Store] Error generating explanation for:', result.contract.id, error)
             result.explanation = 'This contract matches key aspects of your search criteria.'
@@ -261,51 +734,50 @@ export async function semanticSearch(
 
 /**
  * Generate an explanation for why a contract matches a query
- * Uses LLM to create natural language explanation
+ * Uses the secure server-side /api/explain route (LLM or template); falls back
+ * to the template locally if the route is unreachable
+ *
+ * fallback is true when the template stands in for a failed request or LLM
+ * call - don't cache it, so the next open can get an LLM explanation
  */
 export async function generateMatchExplanation(
   query: string,
-  contract: Contract
-): Promise<string> {
-  try {
-    const openai = getOpenAI()
+  contract: Contract,
+  highlights: TextSpan[] = []
+): Promise<{ explanation: string; source: ExplanationSource; fallback: boolean }> {
+  const explainable: ExplainableContract = {
+    id: contract.id,
+    title: contract.title,
+    description: contract.description,
+    authority: contract.authority,
+    value: contract.value,
+    currency: contract.currency,
+    buyerClassification: contract.buyerClassification,
+  }
 
+  try {
     console.log('[Vector Store] Generating match explanation for:', contract.id)
 
-    const prompt = `You are helping explain why a contract matches a user's search query.
-
-User's Query: "${query}"
-
-Contract:
-Title: ${contract.title}
-Authority: ${contract.authority}
-Description: ${contract.description.substring(0, 500)}
-Value: £${contract.value?.toLocaleString() || 'Not specified'}
-Classification: ${contract.buyerClassification}
-
-Write a brief 1-2 sentence explanation of why this contract is relevant to the user's query. Focus on the key matching aspects (topic alignment, buyer type, value range, etc.).`
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini', // Fast and cheap for simple tasks
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a helpful assistant that explains contract relevance clearly and concisely.',
-        },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 150,
+    const response = await fetch('/api/explain', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, contract: explainable, highlights }),
     })
 
-    const explanation = response.choices[0].message.content || 'Relevant to your search query.'
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.error || `HTTP ${response.status}`)
+    }
 
-    console.log('[Vector Store] Generated explanation')
-    return explanation
+    const { explanation, source, fallback } = await response.json()
+    return { explanation, source, fallback: fallback === true }
   } catch (error) {
     console.error('[Vector Store] Error generating explanation:', error)
-    return 'This contract matches key aspects of your search criteria.'
+    return {
+      explanation: templateExplanation({ query, contract: explainable, highlights }),
+      source: 'template',
+      fallback: true,
+    }
   }
 }
 
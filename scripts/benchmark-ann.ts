@@ -0,0 +1,231 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Benchmark the HNSW index against the brute-force cosine scan
+ * Reports recall@k and query latency for a range of search breadths (ef),
+ * plus recall after incremental inserts and removals
+ *
+ * Vectors (one per description chunk) come from public/data/contract-embeddings.bin,
+ * or are embedded from contracts.csv with the local provider when that file is missing.
+ * Use --size to synthesise a larger corpus from jittered copies.
+ *
+ * Usage: npm run benchmark:ann -- [--size 20000] [--queries 100] [--k 10]
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { parse } from 'csv-parse/sync'
+import { createLocalEmbeddingProvider } from '../lib/embedding-providers'
+import { getFileVectors } from '../lib/embedding-format'
+import { getEmbeddingChunks } from '../lib/chunking'
+import {
+  buildVectorIndex,
+  insertVector,
+  removeVector,
+  searchVectorIndex,
+  type VectorLookup,
+} from '../lib/hnsw'
+import { EMBEDDING_FILE_PATH, readEmbeddingFile } from './embedding-file'
+
+interface Options {
+  size: number | null
+  queries: number
+  k: number
+  efValues: number[]
+}
+
+function parseOptions(argv: string[]): Options {
+  const get = (flag: string) => {
+    const i = argv.indexOf(flag)
+    return i >= 0 ? argv[i + 1] : undefined
+  }
+
+  return {
+    size: get('--size') ? Number(get('--size')) : null,
+    queries: Number(get('--queries') || 100),
+    k: Number(get('--k') || 10),
+    efValues: (get('--ef') || '16,32,64,128,256').split(',').map(Number),
+  }
+}
+
+/**
+ * Seeded PRNG (mulberry32) so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function normalise(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1
+  return vector.map(v => v / norm)
+}
+
+/**
+ * Copy of a vector with gaussian-ish noise, renormalised
+ */
+function jitter(vector: number[], amount: number, random: () => number): number[] {
+  return normalise(vector.map(v => v + (random() + random() + random() - 1.5) * amount))
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))]
+}
+
+async function loadVectors(): Promise<Array<{ id: string; embedding: number[] }>> {
+  if (existsSync(EMBEDDING_FILE_PATH)) {
+    console.log(`[ANN Benchmark] Loading embeddings from: ${EMBEDDING_FILE_PATH}`)
+    const file = readEmbeddingFile()
+    return file.header.ids.flatMap(id =>
+      getFileVectors(file, id)!.map((vector, chunk) => ({
+        id: `${id}#${chunk}`,
+        embedding: normalise(Array.from(vector)),
+      }))
+    )
+  }
+
+  const csvPath = join(process.cwd(), 'public', 'data', 'contracts.csv')
+  console.log(`[ANN Benchmark] No embeddings file, embedding ${csvPath} with the local provider`)
+
+  const records = parse(readFileSync(csvPath, 'utf-8'), {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  })
+
+  const chunks = records.flatMap((record: any, i: number) =>
+    getEmbeddingChunks({ title: record.Title || '', description: record.Description || '' })
+      .map(chunk => ({ id: `${record.Guid || `contract-${i}`}#${chunk.index}`, text: chunk.text }))
+  )
+
+  const provider = createLocalEmbeddingProvider()
+  const vectors = await provider.embedBatch(chunks.map((chunk: { text: string }) => chunk.text))
+
+  return chunks.map((chunk: { id: string }, i: number) => ({
+    id: chunk.id,
+    embedding: vectors[i],
+  }))
+}
+
+function bruteForce(
+  corpus: Array<{ id: string; embedding: number[] }>,
+  query: number[],
+  k: number
+): string[] {
+  return corpus
+    .map(c => ({ id: c.id, similarity: dot(query, c.embedding) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(c => c.id)
+}
+
+function recallAt(expected: string[], actual: string[]): number {
+  const found = new Set(actual)
+  return expected.filter(id => found.has(id)).length / expected.length
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2))
+  const random = createRandom(42)
+
+  let corpus = await loadVectors()
+
+  if (options.size && options.size > corpus.length) {
+    const base = corpus
+    corpus = [...base]
+    while (corpus.length < options.size) {
+      const source = base[Math.floor(random() * base.length)]
+      corpus.push({ id: `synthetic-${corpus.length}`, embedding: jitter(source.embedding, 0.02, random) })
+    }
+  }
+
+  const dimensions = corpus[0].embedding.length
+  console.log(`[ANN Benchmark] Corpus: ${corpus.length} vectors, ${dimensions} dimensions`)
+
+  // Queries are perturbed corpus vectors, so they land near real clusters
+  const queries = Array.from({ length: options.queries }, () =>
+    jitter(corpus[Math.floor(random() * corpus.length)].embedding, 0.05, random)
+  )
+
+  // Brute force baseline
+  const bruteStart = performance.now()
+  const expected = queries.map(q => bruteForce(corpus, q, options.k))
+  const bruteMs = (performance.now() - bruteStart) / queries.length
+
+  // Hold back 10% of the corpus to measure incremental inserts afterwards
+  const holdout = corpus.slice(Math.floor(corpus.length * 0.9))
+  const initial = corpus.slice(0, corpus.length - holdout.length)
+
+  const vectors = new Map(corpus.map(c => [c.id, c.embedding]))
+  const getVector: VectorLookup = id => vectors.get(id)
+
+  const buildStart = performance.now()
+  const index = buildVectorIndex(initial, { random })!
+  const buildMs = performance.now() - buildStart
+
+  const insertStart = performance.now()
+  for (const contract of holdout) {
+    insertVector(index, contract.id, contract.embedding, getVector, random)
+  }
+  const insertMs = (performance.now() - insertStart) / holdout.length
+
+  console.log(`[ANN Benchmark] Build: ${(buildMs / 1000).toFixed(1)}s for ${initial.length} vectors`)
+  console.log(`[ANN Benchmark] Incremental insert: ${insertMs.toFixed(2)}ms per vector (${holdout.length} vectors)`)
+  console.log('')
+  console.log(`Brute force: ${bruteMs.toFixed(2)}ms per query, recall@${options.k} 1.000`)
+  console.log('')
+  console.log(`  ef   recall@${options.k}   mean ms   p95 ms   speedup`)
+
+  for (const ef of options.efValues) {
+    const latencies: number[] = []
+    let recall = 0
+
+    queries.forEach((query, i) => {
+      const start = performance.now()
+      const results = searchVectorIndex(index, query, options.k, getVector, ef)
+      latencies.push(performance.now() - start)
+      recall += recallAt(expected[i], results.map(r => r.id))
+    })
+
+    const mean = latencies.reduce((sum, l) => sum + l, 0) / latencies.length
+    console.log(
+      `${String(ef).padStart(4)}   ${(recall / queries.length).toFixed(3).padStart(9)}   ${mean.toFixed(2).padStart(7)}   ${percentile(latencies, 0.95).toFixed(2).padStart(6)}   ${(bruteMs / mean).toFixed(1).padStart(6)}x`
+    )
+  }
+
+  // Remove 5% and check the repaired graph still finds the true neighbours
+  const removed = new Set(corpus.filter(() => random() < 0.05).map(c => c.id))
+  const removeStart = performance.now()
+  removed.forEach(id => removeVector(index, id, getVector))
+  const removeMs = (performance.now() - removeStart) / Math.max(1, removed.size)
+
+  const remaining = corpus.filter(c => !removed.has(c.id))
+  let recallAfterRemoval = 0
+  queries.forEach(query => {
+    const truth = bruteForce(remaining, query, options.k)
+    const results = searchVectorIndex(index, query, options.k, getVector)
+    recallAfterRemoval += recallAt(truth, results.map(r => r.id))
+  })
+
+  console.log('')
+  console.log(`[ANN Benchmark] Removal: ${removeMs.toFixed(2)}ms per vector (${removed.size} vectors)`)
+  console.log(`[ANN Benchmark] Recall@${options.k} after removal (default ef): ${(recallAfterRemoval / queries.length).toFixed(3)}`)
+}
+
+main().catch(error => {
+  console.error('[ANN Benchmark] Fatal error:', error)
+  process.exit(1)
+})
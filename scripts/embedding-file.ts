@@ -0,0 +1,24 @@
+/**
+ * Node helpers for the packed embedding file (see lib/embedding-format.ts)
+ * Kept out of lib/ so the browser bundle never pulls in fs
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { decodeEmbeddings, type EmbeddingFile } from '../lib/embedding-format'
+
+export const EMBEDDING_FILE_PATH = join(process.cwd(), 'public', 'data', 'contract-embeddings.bin')
+
+/**
+ * Read and decode an embedding file
+ */
+export function readEmbeddingFile(path: string = EMBEDDING_FILE_PATH): EmbeddingFile {
+  return decodeEmbeddings(readFileSync(path))
+}
+
+/**
+ * Write an encoded embedding file
+ */
+export function writeEmbeddingFile(bytes: Uint8Array, path: string = EMBEDDING_FILE_PATH): void {
+  writeFileSync(path, bytes)
+}
@@ -0,0 +1,184 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Offline search evaluation against labelled prompts
+ * Ranks contracts.csv for each case the way the app does (lib/search-evaluation.ts)
+ * and reports precision@k, recall@k, nDCG@k and MRR
+ *
+ * Contract vectors come from public/data/contract-embeddings.bin when it was built
+ * with the configured provider (EMBEDDING_PROVIDER=openai|local); otherwise the
+ * contracts are embedded here. Save a report with --out and pass it to --compare
+ * on a later run to see what a change to scoring or learning did.
+ *
+ * Usage: npm run evaluate:search -- [--cases scripts/data/relevance-cases.json] [--k 10]
+ *   [--min-score 0] [--lexical-weight 0.3] [--aggregation max|top-k-mean]
+ *   [--no-learning] [--out report.json] [--compare baseline.json] [--verbose]
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import type { ChunkAggregation, EvaluationReport } from '../types'
+import { parseContractsCSV } from '../lib/csv-loader'
+import {
+  getEmbeddingModelInfo,
+  getEmbeddingProvider,
+  getProviderConfigError,
+  isSameEmbeddingModel,
+} from '../lib/embedding-providers'
+import { getEmbeddingFileModel, getFileVectors } from '../lib/embedding-format'
+import { getEmbeddingChunks } from '../lib/chunking'
+import { buildEmbeddingMatrix } from '../lib/embedding-matrix'
+import { buildLexicalIndex } from '../lib/bm25'
+import {
+  compareReports,
+  DEFAULT_EVALUATION_CONFIG,
+  evaluateSearch,
+  parseEvaluationCases,
+} from '../lib/search-evaluation'
+import { EMBEDDING_FILE_PATH, readEmbeddingFile } from './embedding-file'
+
+const DEFAULT_CASES_PATH = join(process.cwd(), 'scripts', 'data', 'relevance-cases.json')
+
+interface Options {
+  cases: string
+  k: number
+  minScore: number
+  lexicalWeight: number
+  chunkAggregation: ChunkAggregation
+  learning: boolean
+  out?: string
+  compare?: string
+  verbose: boolean
+}
+
+function parseOptions(argv: string[]): Options {
+  const get = (flag: string) => {
+    const i = argv.indexOf(flag)
+    return i >= 0 ? argv[i + 1] : undefined
+  }
+
+  return {
+    cases: get('--cases') || DEFAULT_CASES_PATH,
+    k: Number(get('--k') || DEFAULT_EVALUATION_CONFIG.k),
+    minScore: Number(get('--min-score') || DEFAULT_EVALUATION_CONFIG.minScore),
+    lexicalWeight: Number(get('--lexical-weight') ?? DEFAULT_EVALUATION_CONFIG.lexicalWeight),
+    chunkAggregation: (get('--aggregation') || DEFAULT_EVALUATION_CONFIG.chunkAggregation) as ChunkAggregation,
+    learning: !argv.includes('--no-learning'),
+    out: get('--out'),
+    compare: get('--compare'),
+    verbose: argv.includes('--verbose'),
+  }
+}
+
+function formatDelta(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(3)}`
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2))
+
+  if (options.chunkAggregation !== 'max' && options.chunkAggregation !== 'top-k-mean') {
+    console.error(`[Search Evaluation] ERROR: Unknown --aggregation "${options.chunkAggregation}" (use max or top-k-mean)`)
+    process.exit(1)
+  }
+
+  const configError = getProviderConfigError()
+  if (configError) {
+    console.error(`[Search Evaluation] ERROR: ${configError}`)
+    console.error('Set OPENAI_API_KEY, or use EMBEDDING_PROVIDER=local for offline embeddings')
+    process.exit(1)
+  }
+
+  const provider = getEmbeddingProvider()
+  const model = getEmbeddingModelInfo(provider)
+
+  const cases = parseEvaluationCases(JSON.parse(readFileSync(options.cases, 'utf-8')))
+  console.log(`[Search Evaluation] ${cases.length} cases from: ${options.cases}`)
+
+  const csvPath = join(process.cwd(), 'public', 'data', 'contracts.csv')
+  const contracts = parseContractsCSV(readFileSync(csvPath, 'utf-8'))
+
+  // Prebuilt vectors only count if they came from the model queries are embedded with
+  const embeddings = new Map<string, ArrayLike<number>[]>()
+  const file = existsSync(EMBEDDING_FILE_PATH) ? readEmbeddingFile() : null
+
+  if (file && isSameEmbeddingModel(getEmbeddingFileModel(file), model)) {
+    console.log(`[Search Evaluation] Loading embeddings from: ${EMBEDDING_FILE_PATH}`)
+    for (const contract of contracts) {
+      const vectors = getFileVectors(file, contract.id)
+      if (vectors) embeddings.set(contract.id, vectors)
+    }
+  }
+
+  const missing = contracts.filter(c => !embeddings.has(c.id))
+  if (missing.length > 0) {
+    console.log(`[Search Evaluation] Embedding ${missing.length} contracts with ${provider.name} (${provider.model})`)
+    const chunks = missing.flatMap(contract =>
+      getEmbeddingChunks(contract).map(chunk => ({ id: contract.id, text: chunk.text }))
+    )
+    const vectors = await provider.embedBatch(chunks.map(chunk => chunk.text))
+    chunks.forEach(({ id }, i) => embeddings.set(id, [...(embeddings.get(id) ?? []), vectors[i]]))
+  }
+
+  const corpus = {
+    contracts,
+    matrix: buildEmbeddingMatrix(embeddings, model),
+    lexicalIndex: buildLexicalIndex(contracts),
+  }
+
+  // Ranking logs a line per boosted contract - only wanted when debugging
+  const log = console.log
+  if (!options.verbose) console.log = () => {}
+
+  let report: EvaluationReport
+  try {
+    report = await evaluateSearch(cases, corpus, text => provider.embed(text), model, {
+      k: options.k,
+      minScore: options.minScore,
+      lexicalWeight: options.lexicalWeight,
+      chunkAggregation: options.chunkAggregation,
+      learning: options.learning,
+    })
+  } finally {
+    console.log = log
+  }
+
+  const k = report.config.k
+  console.log('')
+  console.log(`Model: ${model.provider}/${model.model} (${model.dimensions})  k=${k}  min score=${report.config.minScore}  lexical=${report.config.lexicalWeight}  aggregation=${report.config.chunkAggregation}  learning=${report.config.learning ? 'on' : 'off'}`)
+  console.log('')
+  console.log(`${'case'.padEnd(28)} P@${k}    R@${k}    nDCG    MRR     first`)
+  for (const c of report.cases) {
+    console.log(
+      `${c.id.slice(0, 28).padEnd(28)} ${c.precision.toFixed(3)}  ${c.recall.toFixed(3)}  ${c.ndcg.toFixed(3)}  ${c.mrr.toFixed(3)}  ${c.firstRelevantRank ?? '-'}`
+    )
+  }
+  const { mean } = report
+  console.log(`${'mean'.padEnd(28)} ${mean.precision.toFixed(3)}  ${mean.recall.toFixed(3)}  ${mean.ndcg.toFixed(3)}  ${mean.mrr.toFixed(3)}`)
+
+  if (options.compare) {
+    const baseline: EvaluationReport = JSON.parse(readFileSync(options.compare, 'utf-8'))
+    const comparison = compareReports(report, baseline)
+
+    console.log('')
+    console.log(`[Search Evaluation] Compared with ${options.compare} (${baseline.createdAt})`)
+    comparison.warnings.forEach(warning => console.warn(`[Search Evaluation] WARNING: ${warning} - results are not directly comparable`))
+    console.log(
+      `Δ mean  P@${k} ${formatDelta(comparison.mean.precision)}  R@${k} ${formatDelta(comparison.mean.recall)}  nDCG ${formatDelta(comparison.mean.ndcg)}  MRR ${formatDelta(comparison.mean.mrr)}`
+    )
+    comparison.cases
+      .filter(c => Math.abs(c.ndcg) >= 0.001)
+      .forEach(c => console.log(`  ${c.id.padEnd(28)} nDCG ${formatDelta(c.ndcg)}`))
+  }
+
+  if (options.out) {
+    writeFileSync(options.out, JSON.stringify(report, null, 2))
+    console.log('')
+    console.log(`[Search Evaluation] Report written to: ${options.out}`)
+  }
+}
+
+main().catch(error => {
+  console.error('[Search Evaluation] Fatal error:', error)
+  process.exit(1)
+})
@@ -3,13 +3,24 @@
 /**
  * Build-time script to pre-generate embeddings for all contracts
  * Runs during Vercel deployment before the app is built
- * Saves embeddings to /public/data/contract-embeddings.json
+ * Saves embeddings to /public/data/contract-embeddings.bin (packed binary,
+ * see lib/embedding-format.ts)
+ *
+ * Long descriptions are split into overlapping chunks (lib/chunking.ts),
+ * with one vector per chunk
+ *
+ * Uses the configured embedding provider (EMBEDDING_PROVIDER=openai|local)
+ * so builds work offline with the local provider
+ * EMBEDDING_FILE_ENCODING=float32 keeps full precision (default int8)
  */
 
-import { readFileSync, writeFileSync } from 'fs'
+import { readFileSync } from 'fs'
 import { join } from 'path'
-import OpenAI from 'openai'
 import { parse } from 'csv-parse/sync'
+import { getEmbeddingProvider, getProviderConfigError } from '../lib/embedding-providers'
+import { encodeEmbeddings, type EmbeddingEncoding } from '../lib/embedding-format'
+import { getEmbeddingChunks } from '../lib/chunking'
+import { EMBEDDING_FILE_PATH, writeEmbeddingFile } from './embedding-file'
 
 // Types
 interface Contract {
@@ -21,31 +32,26 @@ interface Contract {
 interface ContractEmbedding {
   id: string
   text: string
-  embedding: number[]
-}
-
-// Initialize OpenAI with server-side API key
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: text,
-    encoding_format: 'float',
-  })
-
-  return response.data[0].embedding
+  embeddings: number[][] // One per chunk
 }
 
 async function main() {
   console.log('[Embedding Generation] Starting...')
 
-  // Check for API key
-  if (!process.env.OPENAI_API_KEY) {
-    console.error('[Embedding Generation] ERROR: OPENAI_API_KEY environment variable not set')
-    console.error('Please set OPENAI_API_KEY in your environment or .env.local file')
+  // Check the configured provider is usable
+  const configError = getProviderConfigError()
+  if (configError) {
+    console.error(`[Embedding Generation] ERROR: ${configError}`)
+    console.error('Set OPENAI_API_KEY, or use EMBEDDING_PROVIDER=local for offline embeddings')
+    process.exit(1)
+  }
+
+  const provider = getEmbeddingProvider()
+  console.log(`[Embedding Generation] Provider: ${provider.name} (${provider.model}, ${provider.dimensions} dimensions)`)
+
+  const encoding = (process.env.EMBEDDING_FILE_ENCODING || 'int8') as EmbeddingEncoding
+  if (encoding !== 'int8' && encoding !== 'float32') {
+    console.error(`[Embedding Generation] ERROR: Unknown EMBEDDING_FILE_ENCODING "${encoding}" (use int8 or float32)`)
     process.exit(1)
   }
 
@@ -78,60 +84,60 @@ async function main() {
   for (let i = 0; i < records.length; i += batchSize) {
     const batch = records.slice(i, Math.min(i + batchSize, records.length))
 
-    // Generate embeddings for batch
-    const batchPromises = batch.map(async (record: any) => {
-      const contract: Contract = {
-        id: record.Guid || record.guid || `contract-${i}`,
-        title: record.Title || record.title || '',
-        description: record.Description || record.description || '',
-      }
+    const contracts: Contract[] = batch.map((record: any, j: number) => ({
+      id: record.Guid || record.guid || `contract-${i + j}`,
+      title: record.Title || record.title || '',
+      description: record.Description || record.description || '',
+    }))
 
-      // Combine title and description for embedding
-      const text = `${contract.title}\n\n${contract.description}`
+    // Combine title and description for embedding, chunking long descriptions
+    const texts = contracts.map(contract => `${contract.title}\n\n${contract.description}`)
+    const chunks = contracts.map(contract => getEmbeddingChunks(contract))
 
-      try {
-        const embedding = await generateEmbedding(text)
+    try {
+      const vectors = await provider.embedBatch(chunks.flat().map(chunk => chunk.text))
+      let offset = 0
+
+      contracts.forEach((contract, j) => {
+        embeddings.push({
+          id: contract.id,
+          text: texts[j],
+          embeddings: vectors.slice(offset, offset + chunks[j].length),
+        })
+        offset += chunks[j].length
 
         processed++
-        console.log(`[Embedding Generation] Generated embedding ${processed}/${records.length}: ${contract.id.substring(0, 8)}...`)
+        console.log(`[Embedding Generation] Generated ${chunks[j].length} embedding(s) ${processed}/${records.length}: ${contract.id.substring(0, 8)}...`)
+      })
+    } catch (error) {
+      console.error(`[Embedding Generation] ERROR generating embeddings for batch starting at ${i}:`, error)
+      throw error
+    }
 
-        return {
-          id: contract.id,
-          text,
-          embedding,
-        }
-      } catch (error) {
-        console.error(`[Embedding Generation] ERROR generating embedding for ${contract.id}:`, error)
-        throw error
-      }
-    })
-
-    const batchResults = await Promise.all(batchPromises)
-    embeddings.push(...batchResults)
-
-    // Small delay between batches to avoid rate limiting
-    if (i + batchSize < records.length) {
+    // Small delay between batches to avoid rate limiting (remote providers only)
+    if (provider.name !== 'local' && i + batchSize < records.length) {
       await new Promise(resolve => setTimeout(resolve, 200))
     }
   }
 
-  // Save embeddings to JSON file
-  const outputPath = join(process.cwd(), 'public', 'data', 'contract-embeddings.json')
-  console.log(`[Embedding Generation] Saving embeddings to: ${outputPath}`)
+  // Save embeddings as a packed binary file
+  console.log(`[Embedding Generation] Saving ${encoding} embeddings to: ${EMBEDDING_FILE_PATH}`)
+
+  const bytes = encodeEmbeddings(embeddings, {
+    provider: provider.name,
+    model: provider.model,
+    encoding,
+  })
 
   try {
-    writeFileSync(
-      outputPath,
-      JSON.stringify(embeddings, null, 2),
-      'utf-8'
-    )
+    writeEmbeddingFile(bytes)
   } catch (error) {
     console.error(`[Embedding Generation] ERROR: Failed to write embeddings file: ${error}`)
     process.exit(1)
   }
 
   console.log(`[Embedding Generation] ✓ Successfully generated ${embeddings.length} embeddings`)
-  console.log(`[Embedding Generation] ✓ File size: ${(JSON.stringify(embeddings).length / 1024 / 1024).toFixed(2)} MB`)
+  console.log(`[Embedding Generation] ✓ File size: ${(bytes.length / 1024 / 1024).toFixed(2)} MB`)
   console.log('[Embedding Generation] Complete!')
 }
 
@@ -4,7 +4,8 @@
  */
 
 /**
- * Contract - Simplified from CSV with 30 columns to essential fields
+ * Contract - Notice fields mapped from the 30-column Stotles CSV
+ * (user workflow columns like Signals, Assignee and Comments are not imported)
  */
 export interface Contract {
   id: string
@@ -12,18 +13,34 @@ export interface Contract {
   description: string
   authority: string // Buyer name from CSV
   value: number | null
-  closeDate: string // ISO date string
-  publishDate: string // ISO date string
+  currency: string | null // ISO code, e.g. "GBP", "EUR" (null when not published)
+  closeDate: string | null // ISO date string
+  publishDate: string | null // ISO date string
+  startDate: string | null // ISO date string
+  awardDate: string | null // ISO date string
+  expiryDate: string | null // ISO date string
   url: string
   buyerClassification: string // e.g., "Central", "Local", "Education"
+  buyerCategory: string | null // e.g., "Local authority", "NHS trusts"
+  country: string | null // e.g., "United Kingdom", "Ireland"
+  stage: string | null // e.g., "Open tender"
+  cpvCodes: string[] // Common Procurement Vocabulary codes, e.g. ["90922000"]
+  framework: ContractFramework | null
+  suppliers: string[]
+  smeSupplier: boolean | null // "SME Supplier?" column
+  contact: ContractContact | null
 
-  // AI/Semantic search
-  embedding?: number[] // Vector representation for semantic search
+  // AI/Semantic search: the vector is stored once in the embeddings store (see EmbeddingCache)
+
+  // Amendment history (recorded during ingestion when material fields change)
+  amendments?: ContractAmendment[]
+  lastAmendedAt?: string // ISO date string of the latest amendment
 
   // UI State (managed per user in IndexedDB)
   isNew: boolean
   isSaved: boolean // Global across all inboxes
   isUnread: boolean
+  lastViewedAt?: string // ISO date string, set when the contract is opened
 
   // Per-inbox hiding (contract can be hidden in one inbox but visible in another)
   hiddenInInboxes: string[] // Array of inbox IDs where this contract is hidden
@@ -35,9 +52,47 @@ export interface Contract {
 
   // Display fields (computed/dynamic)
   matchScore?: number // 0-100, from semantic search or default 100
-  snippet?: string // Short description for cards (first 120 chars)
+  snippet?: string // Short description for cards (first 120 chars, or the matching passage)
   deadline?: string // Human-readable deadline (e.g., "7 days", "3 weeks")
   explanation?: string // AI-generated match explanation
+  scoreBreakdown?: ScoreBreakdown // Raw component scores (debug display)
+  highlights?: TextSpan[] // Description passages that matched the inbox prompt
+  variantId?: string // Ranking variant that scored it (lib/experiments.ts)
+}
+
+/**
+ * A single field change between two versions of a notice
+ */
+export interface ContractFieldChange {
+  field: string // Contract field name, e.g. "closeDate"
+  before: unknown
+  after: unknown
+}
+
+/**
+ * A set of changes detected in one CSV load
+ */
+export interface ContractAmendment {
+  timestamp: string // When the change was ingested
+  changes: ContractFieldChange[]
+}
+
+/**
+ * Framework a notice belongs to
+ */
+export interface ContractFramework {
+  name: string
+  url: string | null
+  relationship: string | null // e.g., "Call-Off", "Framework agreement"
+}
+
+/**
+ * Buyer contact details for a notice
+ */
+export interface ContractContact {
+  name: string | null
+  phone: string | null
+  email: string | null
 }
 
 /**
@@ -45,17 +100,35 @@ export interface Contract {
  */
 export interface RawContractCSV {
   Guid: string
+  Signals: string
+  'Signal score': string
+  Qualification: string
+  Assignee: string
+  'SME Supplier?': string
+  Stage: string
+  'Publish date': string
+  'Start date': string
+  'Close date': string
+  'Award date': string
+  'Expiry date': string
+  'Buyer name': string
+  'Buyer Classification': string
+  'Buyer Category': string
   Title: string
   Description: string
-  'Buyer name': string
+  Country: string
   Value: string
-  'Close date': string
-  'Publish date': string
-  URL: string
-  'Buyer Classification': string
   Currency: string
-  Country: string
-  // ... other CSV columns available but not used
+  'Framework Name': string
+  'Framework Link': string
+  'Framework relationship': string
+  URL: string
+  'CPV codes': string
+  Suppliers: string
+  'Contact Name': string
+  'Contact Phone': string
+  'Contact Email': string
+  Comments: string
 }
 
 /**
@@ -66,6 +139,10 @@ export interface Inbox {
   name: string
   prompt: string // Natural language query (e.g., "IT services for NHS trusts")
   embedding?: number[] // Prompt embedding for semantic matching
+  embeddingModel?: EmbeddingModelInfo // Model that produced embedding
+  learnedEmbedding?: InboxQueryVector // Prompt embedding moved by save/hide feedback (relevance-feedback.ts)
+  learnedEmbeddingResetAt?: string // Feedback before this is left out of the learned embedding
+  relevanceModel?: InboxRelevanceModel // Save/hide classifier trained on feedback (relevance-classifier.ts)
   createdAt: string // ISO date string
   updatedAt: string // ISO date string
   unreadCount: number
@@ -73,16 +150,101 @@ export interface Inbox {
   // Special inbox flag - bypasses semantic search to show all contracts
   isAllContractsInbox?: boolean
 
-  // Optional filters (not implemented yet, but structure ready)
-  filters?: {
-    valueMin?: number
-    valueMax?: number
-    buyerTypes?: string[]
-    locations?: string[]
-  }
+  // Optional structured filters (applied before semantic scoring)
+  filters?: InboxFilters
+
+  // Per-inbox ranking configuration
+  matchingConfig?: InboxMatchingConfig
 
   // Learning metrics (adaptive matching based on user feedback)
   learningMetrics?: InboxLearningMetrics
+
+  // Ranking variant assigned at creation (lib/experiments.ts) - none means the control
+  experimentAssignment?: ExperimentAssignment
+
+  // Prompt history, oldest first, and the revision currently in use
+  promptRevisions?: PromptRevision[]
+  currentRevisionId?: string
+}
+
+/**
+ * Per-inbox ranking configuration (edited in matching settings)
+ */
+export interface InboxMatchingConfig {
+  lexicalWeight?: number // 0-1, weight of BM25 keyword score in hybrid ranking (default 0.3)
+  boostOverrides?: BoostOverrides // Manual authority/classification boosts
+  rocchioWeights?: RocchioWeights // Relevance feedback weights (default DEFAULT_ROCCHIO_WEIGHTS)
+  classifierWeight?: number // 0-1, weight of the relevance model's probability in the score (default 0.3)
+}
+
+/**
+ * Rocchio relevance feedback weights
+ * learned = original × prompt + saved × mean(saved) − hidden × mean(hidden)
+ */
+export interface RocchioWeights {
+  original: number
+  saved: number
+  hidden: number
+}
+
+/**
+ * Query vector learned from relevance feedback
+ * Only used while the inbox prompt still matches, and with the model it came from
+ */
+export interface InboxQueryVector {
+  query: string // Prompt the vector was learned from
+  embedding: number[]
+  model: EmbeddingModelInfo
+  saved: number // Contracts pulling the vector towards them
+  hidden: number // Contracts pushing it away
+  updatedAt: string
+}
+
+/**
+ * Logistic regression predicting whether a contract will be saved
+ * Features: contract embedding, then structured features (see relevance-classifier.ts)
+ */
+export interface InboxRelevanceModel {
+  weights: number[]
+  bias: number
+  model: EmbeddingModelInfo // Embedding model the weights were trained on
+  classifications: string[] // Buyer classification one-hot order
+  evaluation: RelevanceModelEvaluation
+  trainedAt: string
+}
+
+/**
+ * Cross-validated quality of a relevance model
+ */
+export interface RelevanceModelEvaluation {
+  examples: number
+  saved: number
+  hidden: number
+  folds: number
+  accuracy: number // 0-1
+  auc: number | null // Null when a fold had only one class
+  logLoss: number
+}
+
+/**
+ * Manual score boosts (percentage points) set in matching settings
+ * Replace the learned boost for the same key; 0 switches a learned boost off
+ */
+export interface BoostOverrides {
+  authority?: Record<string, number>
+  classification?: Record<string, number>
+}
+
+/**
+ * Structured inbox filters
+ * Applied before scoring because embeddings handle money and geography poorly
+ */
+export interface InboxFilters {
+  valueMin?: number // GBP, inclusive
+  valueMax?: number // GBP, inclusive
+  includeUnspecifiedValue?: boolean // Keep contracts with no published value (default true)
+  buyerTypes?: string[] // Buyer classifications, e.g. ["Local", "Healthcare"]
+  locations?: string[] // Region names, e.g. ["South East", "London"]
 }
 
 /**
@@ -90,8 +252,57 @@ export interface Inbox {
  */
 export interface SearchResult {
   contract: Contract
-  matchScore: number // 0-100, based on cosine similarity
+  matchScore: number // 0-100, hybrid of cosine similarity and BM25
   explanation?: string // AI-generated "why this matches" text
+  scoreBreakdown?: ScoreBreakdown
+  matchedChunk?: MatchedChunk // Passage of the description that matched best
+  highlights?: TextSpan[] // Best-matching sentences, for highlighting and snippets
+  variantId?: string // Ranking variant that produced it (lib/experiments.ts)
+}
+
+/**
+ * A character range [start, end) of a contract description
+ */
+export interface TextSpan {
+  start: number
+  end: number
+}
+
+/**
+ * A passage of a contract description, embedded on its own
+ * Offsets index into contract.description
+ */
+export interface TextChunk {
+  index: number
+  start: number
+  end: number
+  text: string // Title plus the passage - what gets embedded
+}
+
+/**
+ * The chunk of a contract that scored highest against a query
+ */
+export interface MatchedChunk {
+  index: number
+  start: number // Offset into contract.description
+  end: number
+  similarity: number // Cosine similarity of this chunk alone
+}
+
+/**
+ * How per-chunk similarities combine into a contract's semantic score
+ * - max: best single passage
+ * - top-k-mean: mean of the best few passages (rewards sustained relevance)
+ */
+export type ChunkAggregation = 'max' | 'top-k-mean'
+
+/**
+ * Component scores behind a match score
+ */
+export interface ScoreBreakdown {
+  semantic: number // Cosine similarity (-1 to 1)
+  lexical: number // Normalised BM25 score (0-1)
+  classifier?: number // Relevance model's save probability (0-1), when blended in
 }
 
 /**
@@ -100,8 +311,196 @@ export interface SearchResult {
 export interface EmbeddingCache {
   id: string // Contract ID or Inbox ID
   text: string // The text that was embedded (for cache invalidation)
-  embedding: number[]
+  embedding: Float32Array // Only stored copy of a contract's vectors, one per chunk, concatenated
+  chunks?: number // Number of chunk vectors in embedding (missing = 1)
+  model?: EmbeddingModelInfo // Missing on vectors stored before model tagging
+  createdAt: string
+}
+
+/**
+ * Provenance of a vector - vectors from different models must never be compared
+ */
+export interface EmbeddingModelInfo {
+  provider: string // e.g. "openai", "local"
+  model: string // e.g. "text-embedding-3-small"
+  dimensions: number
+}
+
+/**
+ * BM25 lexical index over contract title + description (stored in IndexedDB)
+ */
+export interface LexicalIndex {
+  id: string // Singleton key, "bm25"
+  version: number // Bumped when tokenisation or weighting changes
+  docCount: number
+  avgDocLength: number
+  docLengths: Record<string, number> // Contract ID → weighted term count
+  postings: Record<string, Array<[string, number]>> // Term → [contract ID, term frequency]
+  builtAt: string
+}
+
+/**
+ * A node in the HNSW vector index
+ * Vectors themselves stay in the embeddings store - only the graph is persisted
+ */
+export interface VectorIndexNode {
+  level: number // Highest layer this node appears in
+  neighbours: string[][] // Per layer (0..level): neighbouring contract IDs
+}
+
+/**
+ * HNSW approximate nearest-neighbour index over contract embeddings (stored in IndexedDB)
+ */
+export interface VectorIndex {
+  id: string // Singleton key, "hnsw"
+  version: number // Bumped when graph construction changes
+  dimensions: number
+  model: string // embeddingModelKey of the vectors the graph was built from
+  m: number // Max neighbours per node on upper layers (2 * m on layer 0)
+  efConstruction: number
+  entryPoint: string | null
+  maxLevel: number
+  nodes: Record<string, VectorIndexNode> // Contract ID → node
+  builtAt: string
+  updatedAt: string
+}
+
+/**
+ * Result of ingesting a CSV drop into storage
+ */
+export interface IngestionSummary {
+  added: string[] // Contract IDs new in this drop
+  updated: Array<{ id: string; fields: string[] }> // Contract IDs with changed notice fields
+  removed: string[] // Contract IDs no longer in the source (deleted)
+  retained: string[] // Contract IDs no longer in the source but kept because they are saved
+  unchanged: number
+  reembedded: number // Contracts whose text changed and were re-embedded
+  timestamp: string
+}
+
+/**
+ * Contract embeddings packed into one contiguous matrix for fast scoring
+ * Owned by the search worker; row i of data holds a chunk vector of ids[i].
+ * A contract's chunks occupy consecutive rows.
+ */
+export interface EmbeddingMatrix {
+  model: EmbeddingModelInfo | null // All rows come from this model
+  dimensions: number
+  ids: string[] // Contract ID of each row
+  rows: Map<string, number> // Contract ID → first row
+  chunkCounts: Map<string, number> // Contract ID → number of chunk rows
+  data: Float32Array // ids.length × dimensions, row-major
+  norms: Float32Array // L2 norm of each row
+}
+
+/**
+ * Options for a semantic search
+ */
+export interface SearchOptions {
+  limit?: number
+  minScore?: number
+  generateExplanations?: boolean
+  explanationLimit?: number
+  filters?: InboxFilters
+  lexicalWeight?: number // 0-1, weight of BM25 keyword score (0 = pure semantic)
+  chunkAggregation?: ChunkAggregation // Default 'max'
+  boostOverrides?: BoostOverrides // Applied with learning in the search worker
+  queryVector?: InboxQueryVector // Used instead of embedding the query when learned for it
+  relevanceModel?: InboxRelevanceModel // Blended into the score when trained on the corpus' model
+  classifierWeight?: number // 0-1 (default DEFAULT_CLASSIFIER_WEIGHT)
+  variantId?: string // Ranking variant to score with (default: control)
+}
+
+/**
+ * A labelled query for offline evaluation (lib/search-evaluation.ts)
+ */
+export interface EvaluationCase {
+  id: string
+  prompt: string
+  relevant: string[] // Contract IDs judged relevant to the prompt
+  filters?: InboxFilters
+  feedback?: { saved: string[]; hidden: string[] } // Learned from first; judged contracts leave the ranking
+}
+
+/**
+ * Ranking settings an evaluation run used
+ */
+export interface EvaluationConfig {
+  k: number // Cut-off for precision, recall and nDCG
+  minScore: number // Threshold, as in the inbox's dynamicMinScore
+  lexicalWeight: number
+  chunkAggregation: ChunkAggregation
+  learning: boolean // Apply case feedback (query vector, learned boosts)
+}
+
+export interface EvaluationMetrics {
+  precision: number // precision@k
+  recall: number // recall@k
+  ndcg: number // nDCG@k, binary relevance
+  mrr: number // Reciprocal rank of the first relevant result (0 if none retrieved)
+}
+
+export interface EvaluationCaseResult extends EvaluationMetrics {
+  id: string
+  prompt: string
+  relevant: number // Relevant contracts still in the ranking
+  retrieved: number // Results above the threshold
+  firstRelevantRank: number | null
+}
+
+/**
+ * Offline evaluation output - carries what's needed to tell whether two runs are comparable
+ */
+export interface EvaluationReport {
   createdAt: string
+  model: EmbeddingModelInfo
+  config: EvaluationConfig
+  dataset: { cases: number; hash: string } // Hash of the labelled cases
+  corpus: { contracts: number; hash: string } // Hash of the contract IDs
+  mean: EvaluationMetrics
+  cases: EvaluationCaseResult[]
+}
+
+/**
+ * Messages sent to the search worker (lib/search.worker.ts)
+ * Every request carries an ID that is echoed on its response(s)
+ */
+export type SearchWorkerRequest =
+  | { type: 'load'; requestId: number; reload: boolean } // reload: drop the cached corpus first
+  | { type: 'ingest'; requestId: number; reportProgress: boolean }
+  | {
+      type: 'search'
+      requestId: number
+      query: string
+      options: SearchOptions
+      learningMetrics?: InboxLearningMetrics
+    }
+  | { type: 'refresh'; requestId: number; ids: string[] } // Re-read contracts changed on the main thread
+  | { type: 'migrate'; requestId: number } // Re-embed vectors from a previous embedding model
+  | { type: 'learn'; requestId: number; inboxId: string } // Relearn an inbox's query vector and relevance model
+
+/**
+ * Messages sent back from the search worker
+ * Vectors never cross the boundary - they stay in the worker's matrix
+ */
+export type SearchWorkerResponse =
+  | { type: 'loaded'; requestId: number; contracts: Contract[] }
+  | { type: 'progress'; requestId: number; stage: 'embedding' | 'migrating'; current: number; total: number }
+  | { type: 'ingested'; requestId: number; contracts: Contract[]; summary: IngestionSummary }
+  | { type: 'results'; requestId: number; results: SearchResult[] }
+  | { type: 'refreshed'; requestId: number }
+  | { type: 'migrated'; requestId: number; summary: EmbeddingMigrationSummary | null } // null: model unknown
+  | { type: 'learned'; requestId: number } // The inbox's models are stored
+  | { type: 'error'; requestId: number; error: string }
+
+/**
+ * Result of re-embedding vectors left over from a previous embedding model
+ */
+export interface EmbeddingMigrationSummary {
+  model: EmbeddingModelInfo // Model everything was migrated to
+  contracts: number // Contract vectors re-embedded or taken from the pre-generated file
+  inboxes: number // Inbox prompt embeddings re-embedded
+  failed: number // Contracts still on the old model (retried next load)
 }
 
 /**
@@ -111,6 +510,7 @@ export type ProcessingState =
   | 'idle'
   | 'loading'
   | 'embedding' // Computing embeddings
+  | 'migrating' // Re-embedding after an embedding model change
   | 'searching' // Performing semantic search
   | 'complete'
   | 'error'
@@ -132,11 +532,52 @@ export interface UserFeedback {
   id: string
   inboxId: string
   contractId: string
-  action: 'saved' | 'hidden' | 'viewed' | 'ignored'
+  action: 'saved' | 'hidden' | 'viewed' | 'ignored' | 'unsaved' | 'restored'
   matchScore: number // Score at time of action
   timestamp: string
   hideReason?: string // User-provided reason for hiding
   viewDuration?: number // Seconds spent viewing (for engagement tracking)
+  externalLinkClicked?: boolean // Followed the notice link while viewing
+  impressions?: number // For 'ignored': separate visits the contract was seen in the list without being opened
+  promptRevisionId?: string // Inbox prompt revision in use when the feedback was given
+  variantId?: string // Ranking variant that produced the result the feedback was given on
+  supersedes?: string // Earlier save/hide/unsave/restore of the contract in this inbox that this replaces
+  supersededBy?: string // Later feedback that replaced this one - ignored by learning
+  retractedAt?: string // Undone by the user (e.g. toast "Undo") - ignored by learning
+}
+
+/**
+ * How often a contract has been seen in an inbox's list (stored in IndexedDB, see feedback-storage.ts)
+ * Repeatedly scrolling past without opening becomes an 'ignored' feedback event
+ */
+export interface ContractImpression {
+  id: string // `${inboxId}:${contractId}`
+  inboxId: string
+  contractId: string
+  count: number // Separate visits it was seen on
+  lastSeenAt: string
+  ignoredFeedbackId?: string // Set once the 'ignored' event has been recorded
+}
+
+/**
+ * Where a match explanation came from
+ * - llm: generated by the configured model via /api/explain
+ * - template: deterministic fallback built from matching terms and notice fields
+ */
+export type ExplanationSource = 'llm' | 'template'
+
+/**
+ * Cached match explanation (stored in IndexedDB, see explanation-storage.ts)
+ * Keyed by inbox prompt hash + contract ID so an edited prompt gets fresh explanations
+ */
+export interface ExplanationCacheEntry {
+  id: string // "<prompt hash>:<contract id>"
+  promptHash: string
+  contractId: string
+  contractHash: string // Hash of the notice text explained - amended notices are re-explained
+  explanation: string
+  source: ExplanationSource
+  createdAt: string
 }
 
 /**
@@ -148,6 +589,45 @@ export interface PromptRefinement {
   hideReason: string
   matchScore: number
   timestamp: string
+  feedbackId?: string // Hide feedback this entry was collected from
+  contractTitle?: string // Hidden contract, gives the LLM context for the reason
+  refinedAt?: string // When this reason was used in an applied refinement
+}
+
+/**
+ * A revision of an inbox prompt
+ * Editing or refining the prompt appends a revision; rolling back just points
+ * the inbox at an earlier one, so feedback stays attributable to the revision
+ * that produced the results it was given on
+ */
+export interface PromptRevision {
+  id: string
+  prompt: string
+  createdAt: string
+  author: string
+  source: 'manual' | 'refinement' | 'template'
+  resultCount?: number // Results when the revision was first searched
+  hideReasons?: string[] // Reasons a refinement was generated from
+}
+
+/**
+ * Piece of a word-level prompt diff
+ */
+export interface PromptDiffSegment {
+  text: string
+  change: 'same' | 'added' | 'removed'
+}
+
+/**
+ * How results would change if an inbox used a different prompt
+ */
+export interface PromptChangePreview {
+  before: number // Current result count
+  after: number // Result count with the new prompt
+  added: number
+  removed: number
+  addedTitles: string[] // First few contracts that would appear
+  removedTitles: string[] // First few contracts that would drop out
 }
 
 /**
@@ -161,13 +641,15 @@ export interface InboxLearningMetrics {
   minRelevanceScore: number // Don't show contracts below this (default 0)
   maxIrrelevanceScore: number // Even high scores can be irrelevant (default 100)
 
-  // Dynamic minimum score threshold (starts at 50, adjusts based on behavior)
-  dynamicMinScore: number // Default 50, range 30-70
+  // Dynamic minimum score threshold (starts at DEFAULT_THRESHOLD, adjusts based on behavior)
+  dynamicMinScore: number // Default 30, learned range 30-70
   thresholdAdjustments: {
     expandedCount: number // Times threshold was lowered
     narrowedCount: number // Times threshold was raised
     lastAdjustment: string // timestamp
   }
+  thresholdOverride?: ThresholdOverride // Set by the user; learning leaves the threshold alone until cleared
+  thresholdHistory?: ThresholdChange[] // Oldest first, capped (see learning.ts)
 
   // Prompt refinement from high-score hides
   promptRefinements: PromptRefinement[]
@@ -178,8 +660,10 @@ export interface InboxLearningMetrics {
   savedContracts: number
   hiddenContracts: number
   viewedContracts: number
+  engagedViews?: number // Views with real dwell time or a followed link
+  ignoredContracts?: number // Contracts repeatedly scrolled past
 
-  // Score adjustments based on patterns
+  // Score adjustments learned from save/hide ratios (smoothed, see learning.ts)
   authorityBoosts: Record<string, number> // e.g., {"NHS Surrey": +10}
   classificationBoosts: Record<string, number> // e.g., {"Central": -5}
 
@@ -187,5 +671,84 @@ export interface InboxLearningMetrics {
   // Higher confidence means more aggressive adjustments
   confidenceLevel: number
 
+  // Incremental folding state (see learningReducer)
+  lastFeedbackAt?: string // Feedback up to this timestamp has been folded in
+  recentFeedback?: Array<Pick<UserFeedback, 'action' | 'matchScore'> & { id?: string }> // Evidence window for threshold learning
+
   lastUpdated: string
 }
+
+/**
+ * A threshold the user chose (settings, inbox settings or "widen search")
+ */
+export interface ThresholdOverride {
+  threshold: number
+  source: 'manual' | 'widen'
+  setAt: string
+}
+
+/**
+ * One change to an inbox's threshold
+ */
+export interface ThresholdChange {
+  threshold: number
+  previous: number
+  source: 'learned' | 'manual' | 'widen' | 'reset'
+  reason?: string
+  timestamp: string
+}
+
+/**
+ * An alternative way of learning from feedback, for counterfactual replay (lib/feedback-replay.ts)
+ */
+export interface LearningPolicy {
+  id: string
+  label: string
+  threshold: 'learned' | number // Learned from feedback, or fixed
+  boosts: boolean // Learned buyer/classification boosts
+  relevanceRange: boolean // Learned min relevance / max irrelevance filters
+}
+
+export interface LearningPolicyResult {
+  policy: LearningPolicy
+  saved: { surfaced: number; filtered: number } // Contracts the user ended up saving
+  hidden: { surfaced: number; filtered: number } // Contracts the user ended up hiding
+  finalThreshold: number
+  missedSaves: Array<{ contractId: string; title?: string; matchScore: number; threshold: number }> // Highest-scored first
+}
+
+/**
+ * Side-by-side replay of an inbox's feedback through several learning policies
+ */
+export interface FeedbackReplayReport {
+  inboxId: string
+  replayedAt: string
+  events: number // Feedback events replayed
+  from?: string // First and last event timestamps
+  to?: string
+  policies: LearningPolicyResult[]
+}
+
+/**
+ * Ranking variant an inbox was assigned when it was created
+ */
+export interface ExperimentAssignment {
+  experimentId: string
+  variantId: string
+  assignedAt: string // ISO date string
+}
+
+/**
+ * Feedback outcomes for one ranking variant of an experiment (lib/experiments.ts)
+ * Counts feedback that still stands, attributed to the variant that produced the result
+ */
+export interface ExperimentVariantResults {
+  variantId: string
+  inboxes: number // Inboxes assigned to the variant in this experiment
+  saved: number
+  hidden: number
+  viewed: number
+  engagedViews: number // Views long enough, or with the notice link followed, to count as interest
+  ignored: number
+  saveRate: number | null // saved / (saved + hidden), null before any judgement
+}